@@ -10,28 +10,23 @@ console.log('API Key:', process.env.ZERO_EX_API_KEY ? 'Set' : 'Not set');
 
 // Create collector script
 const collectorScript = `
-const { dataCollector } = require('./src/services/dataCollector');
+const { comparisonEngine } = require('./src/services/comparisonEngine');
 
 console.log('Data collector service starting...');
 
-// Start the data collector
-dataCollector.start().then(() => {
-  console.log('Data collector started successfully');
-}).catch((error) => {
-  console.error('Failed to start data collector:', error);
-  process.exit(1);
-});
+// The comparison engine quotes every pair on its schedule and stores each run
+comparisonEngine.start();
 
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('Shutting down data collector...');
-  dataCollector.stop();
+  comparisonEngine.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.log('Shutting down data collector...');
-  dataCollector.stop();
+  comparisonEngine.stop();
   process.exit(0);
 });
 `;
@@ -3,6 +3,10 @@ const express = require('express');
 const cors = require('cors');
 const path = require('path');
 const fs = require('fs').promises;
+// TypeScript routes are loaded through tsx (see npm start)
+const { apiRoutes, handleApiRequest } = require('../src/server/apiRoutes.ts');
+const { comparisonEngine } = require('../src/services/comparisonEngine.ts');
+const { openComparisonStream } = require('../src/server/comparisonStream.ts');
 
 const app = express();
 const PORT = process.env.NODE_ENV === 'production' ? 3003 : 3002;
@@ -11,6 +15,9 @@ const PORT = process.env.NODE_ENV === 'production' ? 3003 : 3002;
 app.use(cors());
 app.use(express.json());
 
+// nginx on the same host forwards the caller's address, which per-client throttles key on
+app.set('trust proxy', 'loopback');
+
 // Cache file path for sellAmounts
 const CACHE_FILE_PATH = path.join(__dirname, '../data/sellAmounts-cache.json');
 
@@ -169,9 +176,11 @@ const getFallbackSellAmounts = () => {
 // Proxy API calls to 0x API
 app.get('/api/quote', async (req, res) => {
   try {
-    const { chainId, sellToken, buyToken, sellAmount } = req.query;
+    const { chainId, sellToken, buyToken, sellAmount, buyAmount } = req.query;
     
-    const url = `https://api.0x.org/swap/permit2/price?chainId=${chainId}&sellToken=${sellToken}&buyToken=${buyToken}&sellAmount=${sellAmount}`;
+    // Exact-output quotes pass buyAmount instead of sellAmount
+    const amountParam = buyAmount ? `buyAmount=${buyAmount}` : `sellAmount=${sellAmount}`;
+    const url = `https://api.0x.org/swap/permit2/price?chainId=${chainId}&sellToken=${sellToken}&buyToken=${buyToken}&${amountParam}`;
     
     const response = await fetch(url, {
       headers: {
@@ -193,6 +202,52 @@ app.get('/api/quote', async (req, res) => {
   }
 });
 
+// History, comparison and collector routes, each answering with the { success, data | error } envelope
+apiRoutes.forEach(route => {
+  app[route.method](route.path, async (req, res) => {
+    const { status, body } = await handleApiRequest(route, {
+      params: req.params,
+      query: req.query,
+      body: req.body,
+      authorization: req.get('Authorization'),
+      clientId: req.ip
+    });
+    res.status(status).json(body);
+  });
+});
+
+// Server-Sent Events push of engine progress and results, resumable via Last-Event-ID
+app.get('/api/comparisons/stream', (req, res) => {
+  const streamHeaders = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+  };
+
+  const error = openComparisonStream(
+    { params: req.params, query: req.query, lastEventId: req.get('Last-Event-ID') },
+    {
+      write: (chunk) => {
+        if (!res.headersSent) {
+          res.writeHead(200, streamHeaders);
+        }
+        res.write(chunk);
+      },
+      onClose: (callback) => req.on('close', callback)
+    }
+  );
+
+  if (error) {
+    res.status(error.status).json(error.body);
+  }
+});
+
+// Unknown API paths get the same envelope instead of the React app
+app.all('/api/*', (req, res) => {
+  res.status(404).json({ success: false, error: `No route for ${req.method} ${req.path}`, code: 'NOT_FOUND' });
+});
+
 // Handle React Router
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, '../dist/index.html'));
@@ -200,4 +255,6 @@ app.get('*', (req, res) => {
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  // On-chain comparisons run and are stored here, the dashboard only reads their results
+  comparisonEngine.start();
 });
\ No newline at end of file
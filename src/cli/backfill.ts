@@ -0,0 +1,60 @@
+/**
+ * Backfill CLI
+ * Usage: npm run backfill -- [--days 30] [--step 300] [--from N] [--to N] [--pairs weth-usdt,weth-usdc] [--usd 10000]
+ * Requires ALCHEMY_URL (or ALCHEMY_API_KEY) pointing at an archive-capable mainnet node
+ */
+
+import 'dotenv/config';
+import BackfillService, { type BackfillOptions } from '../services/backfillService';
+import { getAlchemyUrlFromEnv } from '../config/rpc';
+
+function parseArgs(argv: string[]): BackfillOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args.set(argv[i].slice(2), argv[++i]);
+    }
+  }
+
+  const toNumber = (key: string): number | undefined => {
+    const value = args.get(key);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`--${key} must be a number, got ${value}`);
+    }
+    return parsed;
+  };
+
+  return {
+    days: toNumber('days'),
+    stepBlocks: toNumber('step'),
+    fromBlock: toNumber('from'),
+    toBlock: toNumber('to'),
+    inputAmountUSD: toNumber('usd'),
+    pairIds: args.get('pairs')?.split(',').map(id => id.trim()).filter(Boolean)
+  };
+}
+
+async function main() {
+  const alchemyUrl = getAlchemyUrlFromEnv();
+  if (!alchemyUrl) {
+    throw new Error('Set ALCHEMY_URL or ALCHEMY_API_KEY to an archive-capable mainnet RPC');
+  }
+
+  const backfill = new BackfillService(alchemyUrl);
+
+  // Finish the current block on Ctrl+C so the next run resumes cleanly
+  process.on('SIGINT', () => {
+    console.log('Stopping backfill after the current block...');
+    backfill.stop();
+  });
+
+  const progress = await backfill.run(parseArgs(process.argv.slice(2)));
+  process.exit(progress.failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+/**
+ * Local Simulation Cross-Check CLI
+ * Usage: npm run cross-check-sim -- [--pairs weth-usdt,weth-usdc] [--sizes 1000,100000,1000000] [--json]
+ * Quotes each pair's size ladder with local V3/V4 tick math and with the on-chain quoters at the same block
+ * and lists the divergence per pool and size
+ * Requires ALCHEMY_URL (or ALCHEMY_API_KEY)
+ */
+
+import 'dotenv/config';
+import DexComparisonService, { DEFAULT_SIZE_LADDER_USD } from '../services/dexComparisonService';
+import { poolRegistry } from '../services/poolRegistryService';
+import { getAlchemyUrlFromEnv } from '../config/rpc';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import type { TokenPair } from '../types/api';
+
+// Divergence above this many basis points fails the run
+const TOLERANCE_BPS = 1;
+
+function parseArgs(argv: string[]): { pairIds?: string[]; sizes: number[]; json: boolean } {
+  const listArg = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index !== -1 && index + 1 < argv.length
+      ? argv[index + 1].split(',').map(value => value.trim()).filter(Boolean)
+      : undefined;
+  };
+  const sizes = listArg('--sizes')?.map(Number).filter(size => size > 0);
+  return { pairIds: listArg('--pairs'), sizes: sizes?.length ? sizes : DEFAULT_SIZE_LADDER_USD, json: argv.includes('--json') };
+}
+
+function resolvePairs(pairIds?: string[]): TokenPair[] {
+  if (!pairIds || pairIds.length === 0) return TOKEN_PAIRS;
+
+  return pairIds.map(id => {
+    const pair = TOKEN_PAIRS.find(p => p.id === id);
+    if (!pair) {
+      throw new Error(`Pair with ID ${id} not found`);
+    }
+    return pair;
+  });
+}
+
+async function main() {
+  const alchemyUrl = getAlchemyUrlFromEnv();
+  if (!alchemyUrl) {
+    throw new Error('Set ALCHEMY_URL or ALCHEMY_API_KEY to a mainnet RPC');
+  }
+
+  const { pairIds, sizes, json } = parseArgs(process.argv.slice(2));
+  const comparison = new DexComparisonService(alchemyUrl, poolRegistry);
+  const report: Record<string, unknown> = {};
+  let diverged = 0;
+
+  for (const pair of resolvePairs(pairIds)) {
+    const result = await comparison.compareTokenPair(pair, 10000, { sizeLadderUSD: sizes, localSimulation: 'cross-check' });
+    const checked = result.sizeCurves
+      .map(curve => ({ pool: curve.pool, points: curve.points.filter(point => point.crossCheck) }))
+      .filter(curve => curve.points.length > 0);
+
+    checked.forEach(curve => curve.points.forEach(point => {
+      const bps = point.crossCheck?.divergenceBps;
+      if (bps !== null && bps !== undefined && Math.abs(bps) > TOLERANCE_BPS) diverged++;
+    }));
+
+    if (json) {
+      report[pair.id] = {
+        blockNumber: result.blockNumber,
+        pools: checked.map(curve => ({
+          address: curve.pool.address,
+          name: curve.pool.name,
+          dex: curve.pool.dex,
+          points: curve.points.map(point => ({ sizeUSD: point.sizeUSD, ...point.crossCheck }))
+        }))
+      };
+      continue;
+    }
+
+    console.log(`\n🧮 ${pair.name} at block ${result.blockNumber}: ${checked.length} pools cross-checked`);
+    checked.forEach(curve => {
+      console.log(`  ${curve.pool.dex.padEnd(11)} ${curve.pool.address} ${curve.pool.name}`);
+      curve.points.forEach(point => {
+        const check = point.crossCheck!;
+        const size = `$${point.sizeUSD.toLocaleString()}`.padStart(12);
+        if (check.divergenceBps === null) {
+          console.log(`    ⚪ ${size} not compared: ${check.error ?? 'no amount to compare'}`);
+          return;
+        }
+        const icon = Math.abs(check.divergenceBps) > TOLERANCE_BPS ? '⚠️' : '✅';
+        console.log(`    ${icon} ${size} local ${check.localAmount} vs quoter ${check.onChainAmount} (${check.divergenceBps.toFixed(2)} bps)`);
+      });
+    });
+  }
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  }
+  // Non-zero exit when any size diverged, so the check can gate CI or a cron alert
+  process.exit(diverged > 0 ? 2 : 0);
+}
+
+main().catch(error => {
+  console.error('Cross-check failed:', error);
+  process.exit(1);
+});
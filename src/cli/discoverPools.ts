@@ -0,0 +1,87 @@
+/**
+ * Pool Discovery CLI
+ * Usage: npm run discover-pools -- [--pairs weth-usdt,weth-usdc] [--json] [--apply]
+ * Lists every pool the DEX contracts know for each pair and checks it against the hard-coded registry
+ * --apply records the run in the SQLite pool registry: new pools are added as pending review
+ * Requires ALCHEMY_URL (or ALCHEMY_API_KEY)
+ */
+
+import 'dotenv/config';
+import OnChainPoolDiscoveryService, { DISCOVERED_DEXES } from '../services/onChainPoolDiscoveryService';
+import { poolRegistry } from '../services/poolRegistryService';
+import { getAlchemyUrlFromEnv } from '../config/rpc';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import type { TokenPair } from '../types/api';
+
+function parseArgs(argv: string[]): { pairIds?: string[]; json: boolean; apply: boolean } {
+  const pairsIndex = argv.indexOf('--pairs');
+  const pairIds = pairsIndex !== -1 && pairsIndex + 1 < argv.length
+    ? argv[pairsIndex + 1].split(',').map(id => id.trim()).filter(Boolean)
+    : undefined;
+  return { pairIds, json: argv.includes('--json'), apply: argv.includes('--apply') };
+}
+
+function resolvePairs(pairIds?: string[]): TokenPair[] {
+  if (!pairIds || pairIds.length === 0) return TOKEN_PAIRS;
+
+  return pairIds.map(id => {
+    const pair = TOKEN_PAIRS.find(p => p.id === id);
+    if (!pair) {
+      throw new Error(`Pair with ID ${id} not found`);
+    }
+    return pair;
+  });
+}
+
+async function main() {
+  const alchemyUrl = getAlchemyUrlFromEnv();
+  if (!alchemyUrl) {
+    throw new Error('Set ALCHEMY_URL or ALCHEMY_API_KEY to a mainnet RPC');
+  }
+
+  const { pairIds, json, apply } = parseArgs(process.argv.slice(2));
+  const discovery = new OnChainPoolDiscoveryService(alchemyUrl);
+  const report: Record<string, unknown> = {};
+  let drift = 0;
+
+  for (const pair of resolvePairs(pairIds)) {
+    const pools = await discovery.discoverPools(pair);
+    const check = await discovery.checkRegistry(pair);
+    drift += check.missingFromRegistry.length + check.notFoundOnChain.length;
+
+    const diff = apply
+      ? poolRegistry.applyDiscovery(pair.id, pools.filter(entry => !entry.empty).map(entry => entry.pool), {
+        source: 'onchain',
+        coveredDexes: DISCOVERED_DEXES
+      })
+      : null;
+
+    if (json) {
+      report[pair.id] = { pools, check, diff };
+      continue;
+    }
+
+    console.log(`\n🔎 ${pair.name}: ${pools.length} pools on-chain`);
+    pools.forEach(({ pool, liquidity, empty }) => {
+      const tvl = pool.liquidity_usd !== undefined ? `$${pool.liquidity_usd.toLocaleString()}` : liquidity !== null ? `L=${liquidity}` : 'unknown';
+      console.log(`  ${empty ? '⚪' : '🟢'} ${pool.dex.padEnd(11)} ${pool.address} ${pool.name} (${tvl})`);
+    });
+    console.log(`  ✅ ${check.matched.length} registry pools confirmed`);
+    check.missingFromRegistry.forEach(pool => console.log(`  ➕ Not in registry: ${pool.dex} ${pool.address} ${pool.name}`));
+    check.notFoundOnChain.forEach(pool => console.log(`  ⚠️ Registry pool not found on-chain: ${pool.dex} ${pool.address} ${pool.name}`));
+    if (diff) {
+      console.log(`  📝 Registry: ${diff.added.length} added for review, ${diff.removed.length} no longer found, ${diff.liquidityChanged.length} liquidity changes`);
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  }
+  // Non-zero exit when the registry has drifted, so the check can gate CI or a cron alert
+  process.exit(drift > 0 ? 2 : 0);
+}
+
+main().catch(error => {
+  console.error('Pool discovery failed:', error);
+  process.exit(1);
+});
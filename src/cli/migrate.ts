@@ -0,0 +1,72 @@
+/**
+ * Migrate CLI
+ * Usage: npm run migrate -- [--dry-run] [--quotes-db ./quotes.db] [--prices-db ./data/prices.db]
+ * Brings both SQLite stores up to the latest schema, --dry-run prints the pending SQL instead
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import MigrationRunner, { type Migration } from '../services/migrations/migrationRunner';
+import { QUOTES_DB_MIGRATIONS } from '../services/migrations/quotesDbMigrations';
+import { PRICES_DB_MIGRATIONS } from '../services/migrations/pricesDbMigrations';
+
+interface Store {
+  name: string;
+  path: string;
+  migrations: Migration[];
+}
+
+function parseArgs(argv: string[]): { dryRun: boolean; stores: Store[] } {
+  const args = new Map<string, string>();
+  let dryRun = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') {
+      dryRun = true;
+    } else if (argv[i].startsWith('--') && i + 1 < argv.length) {
+      args.set(argv[i].slice(2), argv[++i]);
+    }
+  }
+
+  return {
+    dryRun,
+    stores: [
+      { name: 'quotes', path: args.get('quotes-db') ?? './quotes.db', migrations: QUOTES_DB_MIGRATIONS },
+      { name: 'prices', path: args.get('prices-db') ?? './data/prices.db', migrations: PRICES_DB_MIGRATIONS }
+    ]
+  };
+}
+
+function main() {
+  const { dryRun, stores } = parseArgs(process.argv.slice(2));
+
+  for (const store of stores) {
+    const exists = fs.existsSync(store.path);
+    if (dryRun && !exists) {
+      // Nothing to open read-only, every migration is pending
+      const runner = new MigrationRunner(new Database(':memory:'), store.name, store.migrations);
+      runner.migrate({ dryRun: true });
+      continue;
+    }
+
+    if (!dryRun) {
+      fs.mkdirSync(path.dirname(store.path), { recursive: true });
+    }
+    const db = new Database(store.path, { readonly: dryRun, fileMustExist: dryRun });
+    try {
+      const result = new MigrationRunner(db, store.name, store.migrations).migrate({ dryRun });
+      if (!dryRun) {
+        console.log(`✅ ${store.name}: schema at version ${result.toVersion} (${result.pending.length} applied)`);
+      }
+    } finally {
+      db.close();
+    }
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Migration failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,202 @@
+/**
+ * Competitive Gap Panel Component
+ * Tracks how far Uniswap's best pool is ahead of or behind the best non-Uniswap venue, run by run
+ */
+
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Swords } from 'lucide-react';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import { fetchCompetitiveGap } from '../services/comparisonApi';
+import type { CompetitiveGapPoint } from '../services/competitiveGap';
+import type { TradeSide } from '../types/api';
+
+interface CompetitiveGapPanelProps {
+  side: TradeSide;
+}
+
+interface ChartDataPoint {
+  timestamp: number;
+  time: string;
+  gapBps: number;
+  competitor: string;
+}
+
+const WINDOWS = [
+  { hours: 24, label: '24h' },
+  { hours: 7 * 24, label: '7d' },
+  { hours: 30 * 24, label: '30d' }
+];
+
+export const CompetitiveGapPanel: React.FC<CompetitiveGapPanelProps> = ({ side }) => {
+  const [pairId, setPairId] = useState(TOKEN_PAIRS[0].id);
+  const [hours, setHours] = useState(WINDOWS[0].hours);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['competitiveGap', pairId, side, hours],
+    queryFn: () => fetchCompetitiveGap(pairId, side, hours),
+    refetchInterval: 15 * 60 * 1000, // New runs are stored by the comparison engine's cycle, not pushed over the stream
+  });
+
+  const formatDex = (dex: string): string =>
+    dex === 'zerox' ? '0x' : dex.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+  const formatBps = (bps: number): string => `${bps > 0 ? '+' : ''}${bps.toFixed(1)} bps`;
+
+  const chartData: ChartDataPoint[] = (data?.gaps ?? []).map((gap: CompetitiveGapPoint) => ({
+    timestamp: gap.timestamp,
+    time: new Date(gap.timestamp).toLocaleString('en-US', hours > 24
+      ? { month: 'short', day: 'numeric', hour: '2-digit' }
+      : { hour: '2-digit', minute: '2-digit' }),
+    gapBps: Number(gap.gapBps.toFixed(2)),
+    competitor: formatDex(gap.competitorDex)
+  }));
+
+  const stats = data?.stats;
+  const totalLosses = stats ? stats.runs - stats.uniswapWins : 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6 mb-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-2 gap-3">
+        <div className="flex items-center">
+          <Swords className="h-5 w-5 text-pink-400 mr-2" />
+          <h3 className="text-lg font-semibold text-gray-200">
+            Uniswap vs Best Competitor
+          </h3>
+        </div>
+        <div className="flex items-center space-x-2 text-xs">
+          <select
+            value={pairId}
+            onChange={(e) => setPairId(e.target.value)}
+            className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            {TOKEN_PAIRS.map(pair => (
+              <option key={pair.id} value={pair.id}>{pair.name}</option>
+            ))}
+          </select>
+          <div className="inline-flex rounded-md border border-gray-600 overflow-hidden">
+            {WINDOWS.map(option => (
+              <button
+                key={option.hours}
+                onClick={() => setHours(option.hours)}
+                className={`px-3 py-1 transition-colors ${
+                  hours === option.hours ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Gap between the best ranked Uniswap pool (V2/V3/V4) and the best ranked other venue in each stored run.
+        Positive means Uniswap is ahead.
+      </p>
+
+      {error ? (
+        <div className="text-center py-8 text-sm text-red-300">
+          {error instanceof Error ? error.message : 'Could not load the gap history'}
+        </div>
+      ) : isLoading ? (
+        <div className="animate-pulse h-48 bg-gray-700 rounded"></div>
+      ) : !stats || stats.runs === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          No run ranked both a Uniswap pool and a competitor in this window yet
+        </div>
+      ) : (
+        <>
+          {/* Aggregate stats */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-pink-400">
+                {stats.winRate !== null ? `${(stats.winRate * 100).toFixed(0)}%` : '–'}
+              </p>
+              <p className="text-sm text-gray-400">Win Rate ({stats.uniswapWins}/{stats.runs} runs)</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-red-400">
+                {stats.medianGapWhenLosingBps !== null ? formatBps(stats.medianGapWhenLosingBps) : '–'}
+              </p>
+              <p className="text-sm text-gray-400">Median Gap When Losing</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-red-400">
+                {stats.worstLoss ? formatBps(stats.worstLoss.gapBps) : '–'}
+              </p>
+              <p className="text-sm text-gray-400">
+                Worst Loss
+                {stats.worstLoss && (
+                  <span
+                    className="block text-xs text-gray-500 cursor-help"
+                    title={`${stats.worstLoss.competitorName} (${formatDex(stats.worstLoss.competitorDex)} pool ${stats.worstLoss.competitorPool}) vs ${formatDex(stats.worstLoss.uniswapDex)} pool ${stats.worstLoss.uniswapPool}`}
+                  >
+                    to {formatDex(stats.worstLoss.competitorDex)}
+                    {stats.worstLoss.blockNumber !== null && ` at block ${stats.worstLoss.blockNumber.toLocaleString()}`}
+                  </span>
+                )}
+              </p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-400">{totalLosses}</p>
+              <p className="text-sm text-gray-400">Runs Lost</p>
+            </div>
+          </div>
+
+          {/* Gap over time */}
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="time" stroke="#9ca3af" fontSize={12} minTickGap={24} />
+              <YAxis
+                stroke="#9ca3af"
+                fontSize={12}
+                tickFormatter={(value: number) => `${value}`}
+                label={{ value: 'bps', angle: -90, position: 'insideLeft', fill: '#9ca3af', fontSize: 11 }}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#111827',
+                  border: '1px solid #374151',
+                  borderRadius: '6px'
+                }}
+                formatter={(value: number | string, _name: string, item: { payload?: ChartDataPoint }) => [
+                  `${formatBps(Number(value))} vs ${item.payload?.competitor ?? 'competitor'}`,
+                  'Uniswap gap'
+                ]}
+              />
+              <ReferenceLine y={0} stroke="#6b7280" strokeDasharray="4 4" />
+              <Line
+                type="monotone"
+                dataKey="gapBps"
+                stroke="#FF007A"
+                strokeWidth={2}
+                dot={{ r: 2 }}
+                connectNulls={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+
+          {/* Which competitor beat Uniswap */}
+          {stats.competitorWins.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-gray-700 text-xs">
+              <p className="text-gray-400 mb-2">Winning competitor when Uniswap trails</p>
+              <ul className="space-y-1">
+                {stats.competitorWins.map(competitor => (
+                  <li key={competitor.dex} className="flex justify-between gap-2 text-gray-500">
+                    <span className="text-gray-300">{formatDex(competitor.dex)}</span>
+                    <span>
+                      {competitor.wins} {competitor.wins === 1 ? 'run' : 'runs'} ({((competitor.wins / totalLosses) * 100).toFixed(0)}% of losses)
+                      · median {formatBps(competitor.medianGapBps)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+/**
+ * Custom Comparison Panel Component
+ * Compares any two ERC-20s at a chosen USD size and lets the user watch the pair
+ */
+
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Eye, Search, X } from 'lucide-react';
+import { rerank } from '../services/quoteRanking';
+import { compareCustomPair, fetchWatchedPairs, getAdminToken, setAdminToken, unwatchPair, watchPair } from '../services/comparisonApi';
+import type { CustomPairRequest } from '../services/customPairService';
+import { OnChainPairRankingTable } from './OnChainPairRankingTable';
+
+interface CustomComparisonPanelProps {
+  includeEstimated: boolean;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export const CustomComparisonPanel: React.FC<CustomComparisonPanelProps> = ({ includeEstimated }) => {
+  const queryClient = useQueryClient();
+  const [sellToken, setSellToken] = useState('');
+  const [buyToken, setBuyToken] = useState('');
+  const [sizeUSD, setSizeUSD] = useState('10000');
+  const [lastRequest, setLastRequest] = useState<CustomPairRequest | null>(null);
+  const [adminToken, setAdminTokenState] = useState(getAdminToken);
+
+  const { data: watchedPairs = [] } = useQuery({
+    queryKey: ['watchedPairs'],
+    queryFn: fetchWatchedPairs,
+  });
+
+  const comparison = useMutation({
+    mutationFn: compareCustomPair,
+  });
+
+  const watch = useMutation({
+    mutationFn: watchPair,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchedPairs'] }),
+  });
+
+  const unwatch = useMutation({
+    mutationFn: unwatchPair,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchedPairs'] }),
+  });
+
+  const size = Number(sizeUSD);
+  const isValid = ADDRESS_PATTERN.test(sellToken) && ADDRESS_PATTERN.test(buyToken)
+    && sellToken.toLowerCase() !== buyToken.toLowerCase()
+    && Number.isFinite(size) && size >= 1;
+
+  const handleAdminTokenChange = (token: string) => {
+    setAdminTokenState(token);
+    setAdminToken(token);
+  };
+
+  const handleCompare = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const request = { sellToken, buyToken, sizeUSD: size };
+    setLastRequest(request);
+    watch.reset();
+    comparison.mutate(request);
+  };
+
+  const result = comparison.data ? rerank(comparison.data, { includeEstimated }) : null;
+  const isWatched = !!result && watchedPairs.some(pair => pair.id === result.pair.id);
+  const error = comparison.error ?? watch.error ?? unwatch.error;
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded px-3 py-2 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="mb-8 bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <h3 className="text-lg font-semibold text-gray-200 mb-4">Custom Comparison</h3>
+
+      <form onSubmit={handleCompare} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_10rem_auto] gap-3 items-end">
+        <label className="text-xs text-gray-400">
+          Sell token address
+          <input className={`${inputClass} mt-1 font-mono`} value={sellToken} onChange={(e) => setSellToken(e.target.value.trim())} placeholder="0x..." />
+        </label>
+        <label className="text-xs text-gray-400">
+          Buy token address
+          <input className={`${inputClass} mt-1 font-mono`} value={buyToken} onChange={(e) => setBuyToken(e.target.value.trim())} placeholder="0x..." />
+        </label>
+        <label className="text-xs text-gray-400">
+          Size (USD)
+          <input className={`${inputClass} mt-1`} type="number" min={1} value={sizeUSD} onChange={(e) => setSizeUSD(e.target.value)} />
+        </label>
+        <button
+          type="submit"
+          disabled={!isValid || comparison.isPending}
+          className="inline-flex items-center justify-center bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          <Search className="h-4 w-4 mr-2" />
+          {comparison.isPending ? 'Comparing...' : 'Compare'}
+        </button>
+      </form>
+
+      <label className="mt-3 flex items-center gap-2 text-xs text-gray-400">
+        Admin token
+        <input
+          className="bg-gray-900 border border-gray-600 rounded px-2 py-1 text-xs text-gray-100 placeholder-gray-500 focus:outline-none focus:border-blue-500"
+          type="password"
+          value={adminToken}
+          onChange={(e) => handleAdminTokenChange(e.target.value.trim())}
+          placeholder="needed to watch or unwatch pairs"
+        />
+      </label>
+
+      {error && (
+        <div className="mt-4 text-sm text-red-300">
+          ⚠️ {error instanceof Error ? error.message : 'Request failed'}
+        </div>
+      )}
+
+      {(comparison.isPending || result) && (
+        <div className="mt-6 space-y-3">
+          <OnChainPairRankingTable result={result} isLoading={comparison.isPending} />
+          {result && lastRequest && (
+            <button
+              onClick={() => watch.mutate(lastRequest)}
+              disabled={isWatched || watch.isPending}
+              className="inline-flex items-center text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              <Eye className="h-4 w-4 mr-1" />
+              {isWatched ? 'Watching - included in every refresh' : 'Watch this pair'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {watchedPairs.length > 0 && (
+        <div className="mt-6">
+          <p className="text-xs text-gray-500 mb-2">Watched pairs</p>
+          <div className="flex flex-wrap gap-2">
+            {watchedPairs.map(pair => (
+              <span key={pair.id} className="inline-flex items-center bg-gray-700 text-gray-200 text-xs rounded px-2 py-1">
+                {pair.name} · ${pair.size_usd.toLocaleString()}
+                <button
+                  onClick={() => unwatch.mutate(pair.id)}
+                  className="ml-2 text-gray-400 hover:text-red-400"
+                  title="Stop watching"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,138 +4,106 @@
  * Shows real pool-by-pool comparisons for Uniswap Foundation
  */
 
-import React, { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { browserDynamicTokenPairService } from '../config/browserDynamicTokenPairs';
-// import type { DynamicTokenPair } from '../config/browserDynamicTokenPairs';
+import React, { useState, useMemo, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { TOKEN_PAIRS } from '../config/tokenPairs';
-import type { TokenPair } from '../types/api';
-import DexComparisonService, { type DexComparisonResult } from '../services/dexComparisonService';
+import type { TradeSide } from '../types/api';
+import type { DexComparisonResult } from '../services/dexComparisonService';
+import { rerank } from '../services/quoteRanking';
+import { applyEngineEvent, fetchLiveComparisons, requestComparisonRefresh, subscribeToComparisons } from '../services/comparisonApi';
+import type { EngineSnapshot } from '../services/comparisonEngine';
 import { OnChainPairRankingTable } from './OnChainPairRankingTable';
 import { ProtocolSummaryCards } from './ProtocolSummaryCards';
-
-const dexComparisonService = new DexComparisonService();
+import { PriceImpactChart } from './PriceImpactChart';
+import { CustomComparisonPanel } from './CustomComparisonPanel';
+import { CompetitiveGapPanel } from './CompetitiveGapPanel';
 
 export const OnChainDashboard: React.FC = () => {
-  const [results, setResults] = useState<Record<string, DexComparisonResult>>({});
-  const [lastUpdate, setLastUpdate] = useState<number>(Date.now());
-  const [currentlyProcessing, setCurrentlyProcessing] = useState<string | null>(null);
-  const [allPairs, setAllPairs] = useState<TokenPair[]>([]);
-
-  // Health check query
-  const { data: healthStatus } = useQuery({
-    queryKey: ['healthCheck'],
-    queryFn: () => dexComparisonService.healthCheck(),
-    refetchInterval: 5 * 60 * 1000, // Check every 5 minutes
-    retry: 1, // Only retry once to avoid excessive API calls
-  });
+  const [includeEstimated, setIncludeEstimated] = useState(false);
+  const [side, setSide] = useState<TradeSide>('sell');
 
-  // Main data fetching query with dynamic token pairs
-  const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['onChainQuotes', lastUpdate],
-    queryFn: async () => {
-      const results: Record<string, DexComparisonResult> = {};
-      
-      // Step 1: Create hybrid token pairs - dynamic for WETH/UNI pairs, original for stablecoins
-      console.log('🔄 Loading hybrid token pairs (dynamic WETH/UNI + original stablecoins)...');
-      
-      const hybridPairs: TokenPair[] = [];
-      const dynamicPairIds = ['weth-usdt', 'uni-weth', 'weth-usdc']; // Only these use dynamic pricing
-      
-      for (const originalPair of TOKEN_PAIRS) {
-        if (dynamicPairIds.includes(originalPair.id)) {
-          // Use dynamic pricing for WETH/UNI pairs
-          try {
-            console.log(`🔍 Getting dynamic pricing for ${originalPair.name}...`);
-            const dynamicPair = await browserDynamicTokenPairService.getTokenPair(originalPair.id);
-            if (dynamicPair) {
-              hybridPairs.push(dynamicPair);
-              const formatted = (Number(dynamicPair.sellAmount) / Math.pow(10, dynamicPair.sellToken.decimals)).toFixed(6);
-              console.log(`💰 ${dynamicPair.name}: ${formatted} ${dynamicPair.sellToken.symbol} (price: $${dynamicPair.priceUsed?.toFixed(2)}, source: ${dynamicPair.priceSource})`);
-            } else {
-              // Fallback to original if dynamic fails
-              hybridPairs.push(originalPair);
-              console.log(`⚠️ ${originalPair.name}: Using fallback (dynamic failed)`);
-            }
-          } catch (error) {
-            // Fallback to original if dynamic fails
-            hybridPairs.push(originalPair);
-            console.log(`⚠️ ${originalPair.name}: Using fallback (error: ${error})`);
-          }
-        } else {
-          // Use original configuration for stablecoin pairs
-          hybridPairs.push(originalPair);
-          console.log(`✅ ${originalPair.name}: Using original configuration`);
-        }
-      }
-      
-      console.log(`✅ Loaded ${hybridPairs.length} hybrid pairs (${dynamicPairIds.length} dynamic, ${hybridPairs.length - dynamicPairIds.length} original)`);
-      
-      // Store pairs in state for rendering
-      setAllPairs(hybridPairs);
-      
-      // Update total pairs count for progress tracking
-      setTotalPairs(hybridPairs.length);
-      
-      // Step 2: Process pairs sequentially with progress updates
-      const targetUSD = 10000; // All pairs target $10K
-      for (const pair of hybridPairs) {
-        setCurrentlyProcessing(pair.name);
-        
-        try {
-          console.log(`🔍 Processing ${pair.name}...`);
-          const result = await dexComparisonService.compareTokenPair(pair, targetUSD);
-          results[pair.id] = result;
-          
-          // Update state incrementally so user sees progress
-          setResults(prev => ({ ...prev, [pair.id]: result }));
-          
-        } catch (error) {
-          console.error(`❌ Failed to process ${pair.name}:`, error);
-          results[pair.id] = {
-            pair,
-            timestamp: Date.now(),
-            inputAmountUSD: targetUSD,
-            totalPoolsFound: 0,
-            successfulQuotes: 0,
-            simulation: { quotes: [], bestQuote: null, rankings: [] },
-            bestProtocol: null,
-            protocolSummary: []
-          };
-        }
-      }
-      
-      setCurrentlyProcessing(null);
-      return results;
-    },
-    refetchInterval: 60 * 60 * 1000, // Refresh every 1 hour
-    staleTime: 55 * 60 * 1000, // Consider stale after 55 minutes
+  const queryClient = useQueryClient();
+
+  // Comparisons run on the server, the dashboard loads the engine's cache once and then follows its event stream
+  const { data, isLoading: isQueryLoading, error } = useQuery({
+    queryKey: ['liveComparisons', side],
+    queryFn: () => fetchLiveComparisons(side),
+    staleTime: Infinity, // Kept current by the stream, not by refetching
     retry: 2, // Retry failed requests twice
   });
 
   useEffect(() => {
-    if (data) {
-      setResults(data);
-    }
-  }, [data]);
+    const queryKey = ['liveComparisons', side];
+    return subscribeToComparisons(side, {
+      onSnapshot: (snapshot) => queryClient.setQueryData<EngineSnapshot>(queryKey, snapshot),
+      onEvent: (event) => queryClient.setQueryData<EngineSnapshot>(queryKey, (previous) =>
+        previous ? applyEngineEvent(previous, event) : previous
+      )
+    });
+  }, [side, queryClient]);
 
+  const results = useMemo<Record<string, DexComparisonResult>>(() => data?.results ?? {}, [data]);
+  const allPairs = data && data.pairs.length > 0 ? data.pairs : TOKEN_PAIRS;
+  const healthStatus = data?.health ?? null;
+  const lastUpdate = data?.updatedAt ?? null;
+  const isLoading = isQueryLoading || !!data?.running;
+
+  // Results of the new cycle arrive over the stream
   const handleRefresh = () => {
-    setLastUpdate(Date.now());
-    setResults({}); // Clear previous results
-    refetch();
+    requestComparisonRefresh().catch(error => console.error('❌ Refresh request failed:', error));
   };
 
-  // Add state for dynamic pairs count
-  const [totalPairs, setTotalPairs] = useState(5); // Default to 5 pairs
+  // Quotes are fetched once, toggling estimated quotes only re-ranks them locally
+  const displayedResults = useMemo(() => {
+    const reranked: Record<string, DexComparisonResult> = {};
+    Object.entries(results).forEach(([pairId, result]) => {
+      reranked[pairId] = rerank(result, { includeEstimated });
+    });
+    return reranked;
+  }, [results, includeEstimated]);
+
+  const estimatedToggle = (
+    <label className="inline-flex items-center text-xs text-gray-400 cursor-pointer" title="Estimated quotes use hard-coded prices or heuristic models instead of an on-chain quote">
+      <input
+        type="checkbox"
+        className="mr-2 accent-blue-600"
+        checked={includeEstimated}
+        onChange={(e) => setIncludeEstimated(e.target.checked)}
+      />
+      Include estimated quotes
+    </label>
+  );
+
+  const handleSideChange = (newSide: TradeSide) => {
+    if (newSide === side) return;
+    setSide(newSide);
+  };
 
+  const sideToggle = (
+    <div className="inline-flex rounded-md border border-gray-600 overflow-hidden text-xs" title="Exact input sells a fixed amount, exact output buys a fixed amount">
+      {(['sell', 'buy'] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => handleSideChange(option)}
+          className={`px-3 py-1 transition-colors ${
+            side === option ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+          }`}
+        >
+          {option === 'sell' ? 'Exact Input' : 'Exact Output'}
+        </button>
+      ))}
+    </div>
+  );
+
+  // The engine refreshes both sides in turn, progress is shown while it works on this one
   const getProcessingProgress = () => {
-    if (!isLoading) return null;
-    const processed = Object.keys(results).length;
-    return { processed, total: totalPairs, current: currentlyProcessing };
+    const engineProgress = data?.progress;
+    if (!data?.running || !engineProgress || engineProgress.side !== side) return null;
+    return { processed: engineProgress.processed, total: engineProgress.total, current: engineProgress.pairName };
   };
 
   const getOverallStats = () => {
-    const allResults = Object.values(results).filter(r => r.successfulQuotes > 0);
+    const allResults = Object.values(displayedResults).filter(r => r.successfulQuotes > 0);
     
     if (allResults.length === 0) return null;
 
@@ -192,6 +160,11 @@ export const OnChainDashboard: React.FC = () => {
               </button>
             </div>
 
+            <div className="flex justify-center items-center space-x-4">
+              {sideToggle}
+              {estimatedToggle}
+            </div>
+
             {/* Processing Status (mobile) */}
             {progress && (
               <div className="text-center text-sm text-blue-400">
@@ -202,7 +175,7 @@ export const OnChainDashboard: React.FC = () => {
             {/* Last Updated - Bottom on mobile */}
             <div className="text-center">
               <p className="text-xs text-gray-500">
-                Last updated: {new Date(lastUpdate).toLocaleTimeString()}
+                Last updated: {lastUpdate ? new Date(lastUpdate).toLocaleTimeString() : 'pending'}
               </p>
             </div>
           </div>
@@ -233,7 +206,7 @@ export const OnChainDashboard: React.FC = () => {
 
               <div className="text-right">
                 <p className="text-sm text-gray-400">
-                  Last updated: {new Date(lastUpdate).toLocaleTimeString()}
+                  Last updated: {lastUpdate ? new Date(lastUpdate).toLocaleTimeString() : 'pending'}
                 </p>
                 {progress && (
                   <div className="text-sm text-blue-400">
@@ -241,6 +214,10 @@ export const OnChainDashboard: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {sideToggle}
+
+              {estimatedToggle}
               
               <button
                 onClick={handleRefresh}
@@ -318,22 +295,28 @@ export const OnChainDashboard: React.FC = () => {
         {/* Token Pair Results */}
         <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6 mb-8">
           {allPairs.map((pair) => (
-            <OnChainPairRankingTable
-              key={pair.id}
-              result={results[pair.id] ?? null}
-              isLoading={isLoading && !results[pair.id]}
-            />
+            <div key={pair.id} className="space-y-4">
+              <OnChainPairRankingTable
+                result={displayedResults[pair.id] ?? null}
+                isLoading={isLoading && !results[pair.id]}
+              />
+              <PriceImpactChart result={displayedResults[pair.id] ?? null} />
+            </div>
           ))}
         </div>
 
+        <CompetitiveGapPanel side={side} />
+
+        <CustomComparisonPanel includeEstimated={includeEstimated} />
+
         {/* Protocol Summary */}
-        {Object.keys(results).length > 0 && (
-          <ProtocolSummaryCards results={Object.values(results)} />
+        {Object.keys(displayedResults).length > 0 && (
+          <ProtocolSummaryCards results={Object.values(displayedResults)} />
         )}
 
         {/* Footer */}
         <div className="mt-12 text-center text-gray-500 text-sm">
-          <p>Data sourced from CoinGecko DEX API + Alchemy RPC • Updated every 1 hour</p>
+          <p>Data sourced from CoinGecko DEX API + Alchemy RPC • Refreshed on the server every 15 minutes</p>
           <p className="mt-1">
             Built for Uniswap Foundation • Direct on-chain pool comparison via eth_call
           </p>
@@ -4,8 +4,11 @@
  */
 
 import React from 'react';
-import { Clock, AlertCircle, CheckCircle } from 'lucide-react';
+import { Clock, AlertCircle, CheckCircle, Filter, ShieldAlert } from 'lucide-react';
 import type { DexComparisonResult } from '../services/dexComparisonService';
+import type { ExclusionReason } from '../services/poolEligibilityService';
+import type { OnChainQuote, QuoteSource, WrapStep } from '../services/onChainQuoteService';
+import { getQuoteSource } from '../services/quoteRanking';
 import { ethers } from 'ethers';
 
 interface OnChainPairRankingTableProps {
@@ -45,6 +48,21 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
 
   const { pair, simulation, bestProtocol, successfulQuotes, totalPoolsFound } = result;
   const hasData = successfulQuotes > 0;
+  const hiddenEstimates = result.includeEstimated
+    ? 0
+    : simulation.quotes.filter(q => q.success && getQuoteSource(q) === 'estimated').length;
+  // Rejected quotes failed the sanity checks, they are listed with the reason but never ranked
+  const rejectedQuotes = simulation.quotes.filter(q => q.success && q.validation?.severity === 'rejected');
+  // Exact-output rankings compare the sell token each pool requires, not the buy token it returns
+  const isExactOutput = simulation.side === 'buy';
+  const rankedToken = isExactOutput ? pair.sellToken : pair.buyToken;
+
+  const exclusionLabels: Record<ExclusionReason, string> = {
+    no_liquidity: 'No liquidity',
+    low_tvl: 'Low TVL',
+    stale: 'Stale',
+    low_volume: 'Low volume'
+  };
 
   const formatAmount = (amount: string, decimals: number): string => {
     if (amount === '0') return '0.00';
@@ -60,6 +78,26 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
     }
   };
 
+  const getRankedAmount = (quote: OnChainQuote): string =>
+    isExactOutput ? quote.inputAmount : quote.outputAmount;
+
+  const getNetAmount = (quote: OnChainQuote): string | undefined =>
+    isExactOutput ? quote.netInputAmount : quote.netOutputAmount;
+
+  const getGasCost = (quote: OnChainQuote): string | undefined =>
+    isExactOutput ? quote.gasCostInSellToken : quote.gasCostInBuyToken;
+
+  // Venues that hold the other form of ETH than the pair need a WETH deposit or withdrawal around the swap
+  const getWrapBadge = (wrapSteps: WrapStep[] | undefined): { label: string; description: string } | null => {
+    if (!wrapSteps || wrapSteps.length === 0) return null;
+    const gas = wrapSteps.reduce((total, step) => total + Number(step.gas), 0);
+    return {
+      label: wrapSteps.map(step => step.action === 'wrap' ? 'Wrap' : 'Unwrap').join(' + '),
+      description: wrapSteps.map(step => `${step.action === 'wrap' ? 'Wraps ETH → WETH' : 'Unwraps WETH → ETH'} on the ${step.leg}`).join(', ') +
+        ` (+${gas.toLocaleString()} gas, included in the gas cost)`
+    };
+  };
+
   const getProtocolEmoji = (protocol: string): string => {
     const emojiMap: Record<string, string> = {
       'uniswap_v3': '🦄',
@@ -86,6 +124,16 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
     return emojiMap[protocol] || '🔄';
   };
 
+  const getQuoteSourceBadge = (source: QuoteSource): { label: string; className: string; description: string } => {
+    const badgeMap: Record<QuoteSource, { label: string; className: string; description: string }> = {
+      'onchain_quoter': { label: 'Quoter', className: 'bg-green-900 text-green-200', description: 'Simulated on-chain via the venue quoter/router' },
+      'onchain_math': { label: 'On-chain math', className: 'bg-blue-900 text-blue-200', description: 'Computed locally from live pool state' },
+      'aggregator_api': { label: 'API', className: 'bg-purple-900 text-purple-200', description: 'Returned by the 0x aggregator API' },
+      'estimated': { label: 'Estimated', className: 'bg-yellow-900 text-yellow-200', description: 'Synthetic estimate, not a real quote' }
+    };
+    return badgeMap[source];
+  };
+
   const getRankEmoji = (rank: number): string => {
     if (rank === 1) return '🏆';
     if (rank === 2) return '🥈';
@@ -104,6 +152,11 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
           <div className="flex items-center text-sm text-gray-400 mt-1">
             <Clock className="h-4 w-4 mr-1" />
             {new Date(result.timestamp).toLocaleTimeString()}
+            {result.blockNumber !== null && (
+              <span className="ml-2 text-gray-500" title="Every on-chain quote in this comparison was read at this block">
+                · block {result.blockNumber.toLocaleString()}
+              </span>
+            )}
           </div>
         </div>
         <div className="text-right">
@@ -116,6 +169,14 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
             {hasData ? <CheckCircle className="h-3 w-3 mr-1" /> : <AlertCircle className="h-3 w-3 mr-1" />}
             {successfulQuotes}/{totalPoolsFound} pools
           </div>
+          {hiddenEstimates > 0 && (
+            <div
+              className="mt-1 text-xs text-yellow-400 cursor-help"
+              title="Estimated quotes are excluded from rankings. Enable 'Include estimated quotes' to show them."
+            >
+              {hiddenEstimates} estimated hidden
+            </div>
+          )}
         </div>
       </div>
 
@@ -124,25 +185,55 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
           {/* Best Quote Summary */}
           {simulation.bestQuote && (
             <div className="bg-gray-900 rounded-lg p-4 mb-4 border border-gray-600">
+              {isExactOutput ? (
+                <>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-400">Exact Output:</span>
+                    <span className="text-sm font-medium text-blue-400">
+                      {formatAmount(simulation.bestQuote.outputAmount, pair.buyToken.decimals)} {pair.buyToken.symbol}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-400">Required Input:</span>
+                    <span className="text-lg font-semibold text-green-400">
+                      {formatAmount(simulation.bestQuote.inputAmount, pair.sellToken.decimals)} {pair.sellToken.symbol}
+                    </span>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-400">Input Amount:</span>
+                    <span className="text-sm font-medium text-blue-400">
+                      {formatAmount(simulation.bestQuote.inputAmount, pair.sellToken.decimals)} {pair.sellToken.symbol}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm text-gray-400">Expected Output:</span>
+                    <span className="text-lg font-semibold text-green-400">
+                      {formatAmount(simulation.bestQuote.outputAmount, pair.buyToken.decimals)} {pair.buyToken.symbol}
+                    </span>
+                  </div>
+                </>
+              )}
+              {getGasCost(simulation.bestQuote) && (
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm text-gray-400">Gas Cost:</span>
+                  <span
+                    className="text-sm text-gray-300 cursor-help"
+                    title={`${simulation.bestQuote.gasEstimate} gas at the current base fee`}
+                  >
+                    {formatAmount(getGasCost(simulation.bestQuote)!, rankedToken.decimals)} {rankedToken.symbol}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-gray-400">Input Amount:</span>
-                <span className="text-sm font-medium text-blue-400">
-                  {formatAmount(simulation.bestQuote.inputAmount, pair.sellToken.decimals)} {pair.sellToken.symbol}
-                </span>
-              </div>
-              <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-gray-400">Expected Output:</span>
-                <span className="text-lg font-semibold text-green-400">
-                  {formatAmount(simulation.bestQuote.outputAmount, pair.buyToken.decimals)} {pair.buyToken.symbol}
-                </span>
-              </div>
-              <div className="flex justify-between items-center mb-2">
-                <span className="text-sm text-gray-400">Guaranteed Min:</span>
+                <span className="text-sm text-gray-400">{isExactOutput ? 'Guaranteed Max:' : 'Guaranteed Min:'}</span>
                 <span className="text-sm text-gray-300">
                   {formatAmount(
-                    (parseFloat(simulation.bestQuote.outputAmount) * 0.99).toFixed(0), 
-                    pair.buyToken.decimals
-                  )} {pair.buyToken.symbol}
+                    (parseFloat(getRankedAmount(simulation.bestQuote)) * (isExactOutput ? 1.01 : 0.99)).toFixed(0), 
+                    rankedToken.decimals
+                  )} {rankedToken.symbol}
                 </span>
               </div>
               <div className="flex justify-between items-center">
@@ -159,7 +250,10 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
 
           {/* Protocol Rankings */}
           <div className="mb-4">
-            <h4 className="text-sm font-medium text-gray-300 mb-3">Protocol Rankings</h4>
+            <h4 className="text-sm font-medium text-gray-300 mb-3">
+              Protocol Rankings
+              {simulation.gasAdjusted && <span className="ml-1 text-xs text-gray-500">(net of gas)</span>}
+            </h4>
             <div className="space-y-2">
               {simulation.rankings.slice(0, 5).map((ranking) => (
                 <div 
@@ -185,6 +279,28 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
                       </p>
                       <p className="text-xs text-gray-500">
                         Rank #{ranking.rank}
+                        <span
+                          className={`ml-2 px-1.5 py-0.5 rounded cursor-help ${getQuoteSourceBadge(ranking.quoteSource).className}`}
+                          title={getQuoteSourceBadge(ranking.quoteSource).description}
+                        >
+                          {getQuoteSourceBadge(ranking.quoteSource).label}
+                        </span>
+                        {getWrapBadge(ranking.quote.wrapSteps) && (
+                          <span
+                            className="ml-1 px-1.5 py-0.5 rounded cursor-help bg-gray-700 text-gray-300"
+                            title={getWrapBadge(ranking.quote.wrapSteps)!.description}
+                          >
+                            {getWrapBadge(ranking.quote.wrapSteps)!.label}
+                          </span>
+                        )}
+                        {ranking.quote.validation?.severity === 'suspicious' && (
+                          <span
+                            className="ml-1 px-1.5 py-0.5 rounded cursor-help bg-orange-900 text-orange-200"
+                            title={ranking.quote.validation.reason}
+                          >
+                            Suspicious
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -193,7 +309,7 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
                       className={`text-sm font-medium flex items-center justify-end cursor-help ${
                         ranking.priceAdvantage > 0 ? 'text-green-400' : ranking.priceAdvantage === 0 ? 'text-white' : 'text-red-400'
                       }`}
-                      title={`Price advantage: ${ranking.priceAdvantage.toFixed(2)}% better output than the worst performing pool`}
+                      title={`Price advantage: ${ranking.priceAdvantage.toFixed(2)}% ${isExactOutput ? 'less' : 'better'} ${simulation.gasAdjusted ? 'net ' : ''}${isExactOutput ? 'input' : 'output'} than the worst performing pool`}
                     >
                       {ranking.priceAdvantage > 0 ? (
                         <span className="mr-1">↗</span>
@@ -203,8 +319,16 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
                       {ranking.priceAdvantage.toFixed(2)}%
                     </p>
                     <p className="text-xs text-gray-500">
-                      {formatAmount(ranking.quote.outputAmount, pair.buyToken.decimals)} {pair.buyToken.symbol}
+                      {formatAmount(getRankedAmount(ranking.quote), rankedToken.decimals)} {rankedToken.symbol}
                     </p>
+                    {getNetAmount(ranking.quote) && getGasCost(ranking.quote) && (
+                      <p
+                        className="text-xs text-gray-600 cursor-help"
+                        title={`Gas: ${ranking.quote.gasEstimate} units ≈ ${formatAmount(getGasCost(ranking.quote)!, rankedToken.decimals)} ${rankedToken.symbol}`}
+                      >
+                        net {formatAmount(getNetAmount(ranking.quote)!, rankedToken.decimals)}
+                      </p>
+                    )}
                   </div>
                 </div>
               ))}
@@ -249,6 +373,50 @@ export const OnChainPairRankingTable: React.FC<OnChainPairRankingTableProps> = (
           </p>
         </div>
       )}
+
+      {/* Quotes that failed the sanity checks, with the reason */}
+      {rejectedQuotes.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-700 text-xs">
+          <p className="flex items-center text-gray-400 mb-2">
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            Rejected quotes ({rejectedQuotes.length})
+          </p>
+          <ul className="space-y-1">
+            {rejectedQuotes.map(quote => (
+              <li key={`${quote.pool.dex}-${quote.pool.address}`} className="flex justify-between gap-2 text-gray-500">
+                <span className="truncate" title={quote.pool.address}>
+                  {quote.pool.name} · {formatAmount(getRankedAmount(quote), rankedToken.decimals)} {rankedToken.symbol}
+                </span>
+                <span className="shrink-0" title={quote.validation?.reason}>
+                  <span className="bg-red-900 text-red-200 px-1.5 py-0.5 rounded mr-1">Rejected</span>
+                  {quote.validation?.reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Pools left out of the rankings, with the reason */}
+      {result.excludedPools.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-700 text-xs">
+          <p className="flex items-center text-gray-400 mb-2">
+            <Filter className="h-3 w-3 mr-1" />
+            Excluded from rankings ({result.excludedPools.length})
+          </p>
+          <ul className="space-y-1">
+            {result.excludedPools.map(({ pool, reason, detail }) => (
+              <li key={pool.address} className="flex justify-between gap-2 text-gray-500">
+                <span className="truncate" title={pool.address}>{pool.name}</span>
+                <span className="shrink-0" title={detail}>
+                  <span className="bg-gray-700 text-gray-300 px-1.5 py-0.5 rounded mr-1">{exclusionLabels[reason]}</span>
+                  {detail}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
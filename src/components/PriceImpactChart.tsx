@@ -0,0 +1,132 @@
+/**
+ * Price Impact Chart Component
+ * Plots each pool's slippage against trade size for a single token pair
+ */
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { TrendingDown } from 'lucide-react';
+import type { DexComparisonResult } from '../services/dexComparisonService';
+import type { PoolSizeCurve } from '../services/onChainQuoteService';
+
+interface PriceImpactChartProps {
+  result: DexComparisonResult | null;
+}
+
+interface ChartDataPoint {
+  sizeUSD: number;
+  size: string;
+  [pool: string]: number | string;
+}
+
+export const PriceImpactChart: React.FC<PriceImpactChartProps> = ({ result }) => {
+  if (!result || result.sizeCurves.length === 0) return null;
+
+  const formatSize = (sizeUSD: number): string => {
+    if (sizeUSD >= 1000000) return `$${sizeUSD / 1000000}M`;
+    if (sizeUSD >= 1000) return `$${sizeUSD / 1000}K`;
+    return `$${sizeUSD}`;
+  };
+
+  const getPoolLabel = (curve: PoolSizeCurve): string => {
+    const dex = curve.pool.dex.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
+    const feeTier = curve.pool.fee_tier;
+    if (feeTier && feeTier !== 'variable' && !isNaN(parseFloat(feeTier))) {
+      return `${dex} ${(parseFloat(feeTier) / 10000).toFixed(3)}%`;
+    }
+    return dex;
+  };
+
+  // Estimated points follow the same include/exclude rule as the rankings
+  const isPlottable = (point: PoolSizeCurve['points'][number]): boolean =>
+    point.success && point.priceImpact !== null && (result.includeEstimated || point.quoteSource !== 'estimated');
+
+  const curves = result.sizeCurves.filter(curve => curve.points.some(isPlottable));
+  // Chart series are keyed by label, so pools sharing a label get their address appended
+  const labels = curves.map(getPoolLabel).map((label, index, all) =>
+    all.indexOf(label) !== all.lastIndexOf(label) ? `${label} (${curves[index].pool.address.slice(0, 6)})` : label
+  );
+
+  const sizes = Array.from(new Set(curves.flatMap(curve => curve.points.map(p => p.sizeUSD)))).sort((a, b) => a - b);
+  const chartData: ChartDataPoint[] = sizes.map(sizeUSD => {
+    const dataPoint: ChartDataPoint = { sizeUSD, size: formatSize(sizeUSD) };
+    curves.forEach((curve, index) => {
+      const point = curve.points.find(p => p.sizeUSD === sizeUSD);
+      if (point && isPlottable(point)) {
+        dataPoint[labels[index]] = Number(point.priceImpact!.toFixed(4));
+      }
+    });
+    return dataPoint;
+  });
+
+  // Color palette for different pools
+  const poolColors = [
+    '#2172E5', // Blue
+    '#10B981', // Green
+    '#F59E0B', // Amber
+    '#8B5CF6', // Purple
+    '#EF4444', // Red
+    '#06B6D4', // Cyan
+    '#84CC16', // Lime
+  ];
+
+  const getPoolColor = (label: string, index: number) => {
+    // Uniswap pools stand out so wins and losses by size are easy to spot
+    if (label.includes('Uniswap')) return '#FF007A';
+    return poolColors[index % poolColors.length];
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg border border-gray-700 p-6">
+      <div className="flex items-center mb-2">
+        <TrendingDown className="h-5 w-5 text-blue-400 mr-2" />
+        <h4 className="text-sm font-medium text-gray-300">
+          {result.pair.name} - Price Impact by Trade Size
+        </h4>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Slippage vs each pool's own price at the smallest size. Lower is better.
+      </p>
+
+      {curves.length === 0 ? (
+        <div className="text-center py-8 text-sm text-gray-500">
+          No pool could be quoted across the size ladder
+        </div>
+      ) : (
+        <ResponsiveContainer width="100%" height={260}>
+          <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="size" stroke="#9ca3af" fontSize={12} />
+            <YAxis
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={(value: number) => `${value}%`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#111827',
+                border: '1px solid #374151',
+                borderRadius: '6px'
+              }}
+              labelFormatter={(value) => `Trade size: ${value}`}
+              formatter={(value: number | string, name: string) => [`${Number(value).toFixed(4)}%`, name]}
+            />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+
+            {labels.map((label, index) => (
+              <Line
+                key={label}
+                type="monotone"
+                dataKey={label}
+                stroke={getPoolColor(label, index)}
+                strokeWidth={label.includes('Uniswap') ? 3 : 2}
+                dot={{ r: 3 }}
+                connectNulls={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
@@ -31,6 +31,21 @@ export const BASE_TOKEN_PAIRS: Omit<DynamicTokenPair, 'sellAmount'>[] = [
     },
     targetUSD: 10000 // $10K swap
   },
+  {
+    id: 'eth-usdt',
+    name: 'ETH → USDT',
+    sellToken: {
+      symbol: 'ETH',
+      address: '0x0000000000000000000000000000000000000000', // Native ETH
+      decimals: 18
+    },
+    buyToken: {
+      symbol: 'USDT',
+      address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      decimals: 6
+    },
+    targetUSD: 10000 // $10K swap
+  },
   {
     id: 'uni-weth',
     name: 'UNI → WETH', 
@@ -96,6 +111,7 @@ export const BASE_TOKEN_PAIRS: Omit<DynamicTokenPair, 'sellAmount'>[] = [
 // Fallback sellAmounts (same as original tokenPairs.ts)
 const FALLBACK_SELL_AMOUNTS: Record<string, string> = {
   'weth-usdt': '2127659574468085000',    // ~2.13 ETH (~$10K at ~$4700/ETH)
+  'eth-usdt': '2127659574468085000',     // ~2.13 ETH (~$10K at ~$4700/ETH)
   'uni-weth': '555555555555555555555',    // ~555.6 UNI (~$10K at ~$18/UNI)  
   'weth-usdc': '2127659574468085000',     // ~2.13 ETH (~$10K at ~$4700/ETH)
   'usdc-dai': '10000000000',              // $10K USDC
@@ -186,7 +202,7 @@ class BrowserDynamicTokenPairService {
       };
     }
 
-    // For volatile tokens (WETH, UNI), use dynamic pricing
+    // For volatile tokens (ETH, WETH, UNI), use dynamic pricing
     const priceResult = await this.pricingService.calculateDynamicInputAmount(
       sellToken.symbol,
       basePair.targetUSD,
@@ -0,0 +1,10 @@
+/**
+ * Node-side RPC configuration
+ * The server, scripts and the collector read the mainnet RPC from the environment, the browser never sees it
+ */
+
+export function getAlchemyUrlFromEnv(): string | undefined {
+  if (process.env.ALCHEMY_URL) return process.env.ALCHEMY_URL;
+  if (process.env.ALCHEMY_API_KEY) return `https://eth-mainnet.g.alchemy.com/v2/${process.env.ALCHEMY_API_KEY}`;
+  return undefined;
+}
@@ -15,7 +15,24 @@ export const TOKEN_PAIRS: TokenPair[] = [
       address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
       decimals: 6
     },
-    sellAmount: '2127659574468085000' // ~2.13 ETH (~$10K at ~$4700/ETH)
+    sellAmount: '2127659574468085000', // ~2.13 ETH (~$10K at ~$4700/ETH)
+    buyAmount: '10000000000' // $10K USDT
+  },
+  {
+    id: 'eth-usdt',
+    name: 'ETH → USDT',
+    sellToken: {
+      symbol: 'ETH',
+      address: '0x0000000000000000000000000000000000000000', // Native ETH
+      decimals: 18
+    },
+    buyToken: {
+      symbol: 'USDT',
+      address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      decimals: 6
+    },
+    sellAmount: '2127659574468085000', // ~2.13 ETH (~$10K at ~$4700/ETH)
+    buyAmount: '10000000000' // $10K USDT
   },
   {
     id: 'uni-weth',
@@ -30,7 +47,8 @@ export const TOKEN_PAIRS: TokenPair[] = [
       address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
       decimals: 18
     },
-    sellAmount: '555555555555555555555' // ~555.6 UNI (~$10K at ~$18/UNI)
+    sellAmount: '555555555555555555555', // ~555.6 UNI (~$10K at ~$18/UNI)
+    buyAmount: '2127659574468085000' // ~2.13 ETH (~$10K at ~$4700/ETH)
   },
   {
     id: 'weth-usdc',
@@ -45,7 +63,8 @@ export const TOKEN_PAIRS: TokenPair[] = [
       address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
       decimals: 6
     },
-    sellAmount: '2127659574468085000' // ~2.13 ETH (~$10K at ~$4700/ETH)
+    sellAmount: '2127659574468085000', // ~2.13 ETH (~$10K at ~$4700/ETH)
+    buyAmount: '10000000000' // $10K USDC
   },
   {
     id: 'usdc-dai',
@@ -60,7 +79,8 @@ export const TOKEN_PAIRS: TokenPair[] = [
       address: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
       decimals: 18
     },
-    sellAmount: '10000000000' // $10K USDC
+    sellAmount: '10000000000', // $10K USDC
+    buyAmount: '10000000000000000000000' // 10K DAI
   },
   {
     id: 'usde-usdt',
@@ -75,7 +95,8 @@ export const TOKEN_PAIRS: TokenPair[] = [
       address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
       decimals: 6
     },
-    sellAmount: '10000000000000000000000' // 10K USDe (~$10K at ~$1/USDe)
+    sellAmount: '10000000000000000000000', // 10K USDe (~$10K at ~$1/USDe)
+    buyAmount: '10000000000' // $10K USDT
   }
 ];
 
@@ -0,0 +1,37 @@
+/**
+ * Token Configuration
+ * Native ETH has no contract, pairs and V4 pool keys use the address(0) sentinel for it
+ * ERC-20 venues (V2, V3, Balancer) trade WETH instead, wrapping on the way in and unwrapping on the way out
+ */
+
+export const NATIVE_ETH_ADDRESS = '0x0000000000000000000000000000000000000000';
+export const WETH_ADDRESS = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
+
+// Placeholder used by 0x and Curve for native ETH
+export const NATIVE_ETH_PLACEHOLDER = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+// Typical gas of WETH deposit() and withdraw() when a router wraps or unwraps inside the swap transaction
+export const WRAP_GAS = 25000n;
+export const UNWRAP_GAS = 30000n;
+
+/**
+ * Whether an address stands for native ETH, either as address(0) or the 0xEeee placeholder
+ */
+export function isNativeEth(address: string): boolean {
+  const normalized = address.toLowerCase();
+  return normalized === NATIVE_ETH_ADDRESS || normalized === NATIVE_ETH_PLACEHOLDER.toLowerCase();
+}
+
+/**
+ * ERC-20 address to trade for a token, native ETH becomes WETH
+ */
+export function toWrappedAddress(address: string): string {
+  return isNativeEth(address) ? WETH_ADDRESS : address;
+}
+
+/**
+ * Whether two addresses are the same asset once native ETH and WETH are treated as one
+ */
+export function isSameAsset(a: string, b: string): boolean {
+  return toWrappedAddress(a).toLowerCase() === toWrappedAddress(b).toLowerCase();
+}
@@ -0,0 +1,394 @@
+/**
+ * API Routes
+ * Typed handlers for the history, comparison, pool registry and collector endpoints, mounted by server/index.js
+ * Handlers are framework-free: they validate the request, return data, and throw ApiError for client errors
+ */
+
+import { dataCollector } from '../services/dataCollector';
+import { comparisonEngine } from '../services/comparisonEngine';
+import { poolRegistry } from '../services/poolRegistryService';
+import RequestThrottle from './requestThrottle';
+import { HISTORY_RETENTION_DAYS, type PoolReviewStatus } from '../services/database';
+import type { CustomPairRequest } from '../services/customPairService';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import { ethers } from 'ethers';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { ApiEnvelope, TokenPair, TradeSide } from '../types/api';
+
+export interface ApiRequest {
+  params: Record<string, string | undefined>;
+  query: Record<string, unknown>;
+  body?: unknown; // Parsed JSON body of POST requests
+  authorization?: string; // Authorization header, 'Bearer <token>'
+  clientId?: string; // Caller's IP address, throttled routes count requests per client
+}
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'delete';
+  path: string; // Express-style, e.g. /api/pairs/:id/history
+  handler: (request: ApiRequest) => Promise<unknown>;
+  access?: 'admin'; // Needs the ADMIN_API_TOKEN bearer token
+  throttle?: RequestThrottle; // Per-client budget and concurrency cap, checked after access
+}
+
+export interface ApiResult {
+  status: number;
+  body: ApiEnvelope<unknown>;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const DEFAULT_HISTORY_HOURS = 24;
+const MAX_HISTORY_HOURS = HISTORY_RETENTION_DAYS * 24; // Older live runs are purged, backfilled ones are kept
+const MAX_CUSTOM_SIZE_USD = 10000000;
+
+// Each of these runs a full quote across every venue, or reads token contracts and prices for a new pair
+const customCompareThrottle = new RequestThrottle({ requestsPerWindow: 5, windowMs: 60000, maxConcurrent: 2 });
+const watchListThrottle = new RequestThrottle({ requestsPerWindow: 10, windowMs: 60000, maxConcurrent: 2 });
+const collectorRunThrottle = new RequestThrottle({ requestsPerWindow: 2, windowMs: 60000, maxConcurrent: 1 });
+// The engine already runs at most one cycle a minute, this stops one client from hammering the route
+const refreshThrottle = new RequestThrottle({ requestsPerWindow: 2, windowMs: 60000, maxConcurrent: 1 });
+
+/**
+ * Token from an 'Authorization: Bearer <token>' header, null when missing or malformed
+ */
+function readBearerToken(authorization: string | undefined): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Compare tokens in constant time, hashing first so different lengths don't leak through timing
+ */
+function tokensMatch(token: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * Admin routes change what the server ranks, they stay closed until the server has a token to check against
+ */
+function requireAdmin(request: ApiRequest): void {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    throw new ApiError(503, 'ADMIN_DISABLED', 'Set ADMIN_API_TOKEN on the server to enable admin routes');
+  }
+
+  const token = readBearerToken(request.authorization);
+  if (!token) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'This route needs an admin token as Authorization: Bearer <token>');
+  }
+  if (!tokensMatch(token, expected)) {
+    throw new ApiError(403, 'FORBIDDEN', 'Admin token is not valid');
+  }
+}
+
+/**
+ * Admit a request to a throttled route, 429 when the client is over budget or the route is at capacity
+ */
+function acquireThrottle(throttle: RequestThrottle, request: ApiRequest): () => void {
+  const decision = throttle.tryAcquire(request.clientId ?? 'unknown');
+  if (decision.allowed) return decision.release;
+
+  throw decision.reason === 'rate_limited'
+    ? new ApiError(429, 'RATE_LIMITED', `Too many requests, try again in ${decision.retryAfterSeconds}s`)
+    : new ApiError(429, 'BUSY', `Too many runs in progress, try again in ${decision.retryAfterSeconds}s`);
+}
+
+/**
+ * Resolve a configured pair from a path parameter
+ */
+function requirePair(pairId: string | undefined): TokenPair {
+  const pair = TOKEN_PAIRS.find(p => p.id === pairId);
+  if (!pair) {
+    throw new ApiError(404, 'PAIR_NOT_FOUND', `Unknown pair '${pairId}', expected one of: ${TOKEN_PAIRS.map(p => p.id).join(', ')}`);
+  }
+  return pair;
+}
+
+/**
+ * Parse the optional ?hours= window
+ */
+function parseHours(value: unknown): number {
+  if (value === undefined) return DEFAULT_HISTORY_HOURS;
+
+  const hours = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HISTORY_HOURS) {
+    throw new ApiError(400, 'INVALID_QUERY', `hours must be an integer between 1 and ${MAX_HISTORY_HOURS}`);
+  }
+  return hours;
+}
+
+/**
+ * Protocol names are dex identifiers such as uniswap_v3 or curve
+ */
+function requireProtocol(protocol: string | undefined): string {
+  if (!protocol || !/^[a-z0-9_]{1,64}$/i.test(protocol)) {
+    throw new ApiError(400, 'INVALID_PARAM', 'protocol must be a dex identifier such as uniswap_v3');
+  }
+  return protocol;
+}
+
+/**
+ * Parse the optional ?side= trade direction
+ */
+export function parseSide(value: unknown): TradeSide {
+  if (value === undefined) return 'sell';
+  if (value !== 'sell' && value !== 'buy') {
+    throw new ApiError(400, 'INVALID_QUERY', "side must be 'sell' or 'buy'");
+  }
+  return value;
+}
+
+/**
+ * Validate a { sellToken, buyToken, sizeUSD } body
+ */
+function parseCustomPairRequest(body: unknown): CustomPairRequest {
+  const { sellToken, buyToken, sizeUSD } = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof sellToken !== 'string' || !ethers.isAddress(sellToken)) {
+    throw new ApiError(400, 'INVALID_BODY', 'sellToken must be an ERC-20 address');
+  }
+  if (typeof buyToken !== 'string' || !ethers.isAddress(buyToken)) {
+    throw new ApiError(400, 'INVALID_BODY', 'buyToken must be an ERC-20 address');
+  }
+  if (sellToken.toLowerCase() === buyToken.toLowerCase()) {
+    throw new ApiError(400, 'INVALID_BODY', 'sellToken and buyToken must differ');
+  }
+  if (typeof sizeUSD !== 'number' || !Number.isFinite(sizeUSD) || sizeUSD < 1 || sizeUSD > MAX_CUSTOM_SIZE_USD) {
+    throw new ApiError(400, 'INVALID_BODY', `sizeUSD must be a number between 1 and ${MAX_CUSTOM_SIZE_USD}`);
+  }
+
+  return { sellToken, buyToken, sizeUSD };
+}
+
+/**
+ * Token reads and pricing fail for non-ERC-20 addresses or unlisted tokens, report those as unprocessable
+ */
+async function withCustomPair<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    throw new ApiError(422, 'PAIR_UNAVAILABLE', error instanceof Error ? error.message : 'Could not load the pair');
+  }
+}
+
+/**
+ * Pools are keyed by contract address, or by the 32-byte pool ID for Uniswap V4
+ */
+function requirePoolAddress(address: string | undefined): string {
+  if (!address || !/^0x([0-9a-f]{40}|[0-9a-f]{64})$/i.test(address)) {
+    throw new ApiError(400, 'INVALID_PARAM', 'address must be a pool address or a 32-byte V4 pool ID');
+  }
+  return address;
+}
+
+/**
+ * Parse the optional ?status= review filter
+ */
+function parseReviewStatus(value: unknown): PoolReviewStatus | undefined {
+  if (value === undefined) return undefined;
+  if (value !== 'pending' && value !== 'approved' && value !== 'rejected') {
+    throw new ApiError(400, 'INVALID_QUERY', "status must be 'pending', 'approved' or 'rejected'");
+  }
+  return value;
+}
+
+/**
+ * Apply a review or enable/disable action, 404 when the pool is not in the registry
+ */
+function updateRegistryPool(params: ApiRequest['params'], update: (pairId: string, address: string) => boolean) {
+  const pair = requirePair(params.pairId);
+  const address = requirePoolAddress(params.address);
+  if (!update(pair.id, address)) {
+    throw new ApiError(404, 'POOL_NOT_FOUND', `Pool ${address} is not in the ${pair.id} registry`);
+  }
+  return poolRegistry.getPools(pair.id).find(entry => entry.pool.address.toLowerCase() === address.toLowerCase());
+}
+
+export const apiRoutes: ApiRoute[] = [
+  {
+    method: 'get',
+    path: '/api/pairs/:id/history',
+    handler: async ({ params, query }) => {
+      const pair = requirePair(params.id);
+      return dataCollector.getHistoricalData(pair.id, parseHours(query.hours));
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/pairs/:id/protocols/:protocol/history',
+    handler: async ({ params, query }) => {
+      const pair = requirePair(params.id);
+      return dataCollector.getProtocolHistory(pair.id, requireProtocol(params.protocol), parseHours(query.hours));
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/pairs/:id/competitive-gap',
+    handler: async ({ params, query }) => {
+      const pair = requirePair(params.id);
+      return dataCollector.getCompetitiveGap(pair.id, parseHours(query.hours), parseSide(query.side));
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/competitive-gap',
+    handler: async ({ query }) => dataCollector.getCompetitiveGapOverview(parseHours(query.hours), parseSide(query.side))
+  },
+  {
+    method: 'get',
+    path: '/api/comparisons/latest',
+    handler: async () => dataCollector.getLatestComparisons()
+  },
+  {
+    method: 'get',
+    path: '/api/comparisons/live',
+    handler: async ({ query }) => comparisonEngine.getSnapshot(parseSide(query.side))
+  },
+  {
+    method: 'post',
+    path: '/api/comparisons/refresh',
+    throttle: refreshThrottle,
+    handler: async () => ({ accepted: comparisonEngine.requestRefresh() })
+  },
+  {
+    method: 'post',
+    path: '/api/custom-pairs/compare',
+    throttle: customCompareThrottle,
+    handler: async ({ body }) => {
+      const request = parseCustomPairRequest(body);
+      return withCustomPair(() => comparisonEngine.compareCustomPair(request));
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/watched-pairs',
+    handler: async () => comparisonEngine.getWatchedPairs()
+  },
+  {
+    method: 'post',
+    path: '/api/watched-pairs',
+    access: 'admin',
+    throttle: watchListThrottle,
+    handler: async ({ body }) => {
+      const request = parseCustomPairRequest(body);
+      return withCustomPair(() => comparisonEngine.watchPair(request));
+    }
+  },
+  {
+    method: 'delete',
+    path: '/api/watched-pairs/:id',
+    access: 'admin',
+    throttle: watchListThrottle,
+    handler: async ({ params }) => {
+      if (!params.id || !comparisonEngine.unwatchPair(params.id)) {
+        throw new ApiError(404, 'PAIR_NOT_FOUND', `Pair '${params.id}' is not watched`);
+      }
+      return { removed: params.id };
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/pool-registry',
+    handler: async ({ query }) => {
+      const pairId = query.pair !== undefined ? requirePair(String(query.pair)).id : undefined;
+      return poolRegistry.getPools(pairId, parseReviewStatus(query.status));
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/pool-registry/diffs',
+    handler: async ({ query }) => {
+      const pairId = query.pair !== undefined ? requirePair(String(query.pair)).id : undefined;
+      return poolRegistry.getDiffs(pairId);
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/pool-registry/:pairId/pools/:address/liquidity',
+    handler: async ({ params }) => {
+      const pair = requirePair(params.pairId);
+      return poolRegistry.getLiquidityHistory(pair.id, requirePoolAddress(params.address));
+    }
+  },
+  {
+    method: 'post',
+    path: '/api/pool-registry/:pairId/pools/:address/approve',
+    access: 'admin',
+    handler: async ({ params }) => updateRegistryPool(params, (pairId, address) => poolRegistry.approvePool(pairId, address))
+  },
+  {
+    method: 'post',
+    path: '/api/pool-registry/:pairId/pools/:address/reject',
+    access: 'admin',
+    handler: async ({ params }) => updateRegistryPool(params, (pairId, address) => poolRegistry.rejectPool(pairId, address))
+  },
+  {
+    method: 'post',
+    path: '/api/pool-registry/:pairId/pools/:address/enable',
+    access: 'admin',
+    handler: async ({ params }) => updateRegistryPool(params, (pairId, address) => poolRegistry.setPoolEnabled(pairId, address, true))
+  },
+  {
+    method: 'post',
+    path: '/api/pool-registry/:pairId/pools/:address/disable',
+    access: 'admin',
+    handler: async ({ params }) => updateRegistryPool(params, (pairId, address) => poolRegistry.setPoolEnabled(pairId, address, false))
+  },
+  {
+    method: 'post',
+    path: '/api/collector/run/:pairId',
+    access: 'admin',
+    throttle: collectorRunThrottle,
+    handler: async ({ params }) => {
+      const pair = requirePair(params.pairId);
+      const result = await dataCollector.collectSinglePair(pair.id);
+      if (!result) {
+        throw new ApiError(502, 'NO_QUOTES', `No pool could be quoted for ${pair.name}`);
+      }
+      return result;
+    }
+  },
+  {
+    method: 'get',
+    path: '/api/collector/status',
+    // Reports the comparison engine, the schedule server/index.js starts
+    handler: async () => comparisonEngine.getStatus()
+  }
+];
+
+/**
+ * Run a route's handler and wrap the outcome in the API envelope
+ */
+export async function handleApiRequest(route: ApiRoute, request: ApiRequest): Promise<ApiResult> {
+  let release: (() => void) | undefined;
+  try {
+    if (route.access === 'admin') requireAdmin(request);
+    if (route.throttle) release = acquireThrottle(route.throttle, request);
+    const data = await route.handler(request);
+    return { status: 200, body: { success: true, data, timestamp: Date.now() } };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { status: error.status, body: { success: false, error: error.message, code: error.code } };
+    }
+
+    console.error(`❌ ${route.method.toUpperCase()} ${route.path} failed:`, error);
+    return {
+      status: 500,
+      body: { success: false, error: error instanceof Error ? error.message : 'Internal error', code: 'INTERNAL_ERROR' }
+    };
+  } finally {
+    release?.();
+  }
+}
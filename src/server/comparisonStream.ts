@@ -0,0 +1,74 @@
+/**
+ * Comparison Stream
+ * Server-Sent Events feed of comparison engine events, mounted by server/index.js at /api/comparisons/stream
+ * A resumed connection (Last-Event-ID) gets the events it missed, or a full snapshot when they are no longer buffered
+ */
+
+import { comparisonEngine, type EngineEvent } from '../services/comparisonEngine';
+import { ApiError, parseSide, type ApiRequest, type ApiResult } from './apiRoutes';
+
+export interface StreamConnection {
+  write: (chunk: string) => void;
+  onClose: (callback: () => void) => void;
+}
+
+const RECONNECT_DELAY = 5000; // Sent as the SSE retry hint
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keeps proxies from closing an idle stream
+
+/**
+ * Format one SSE message, unnamed messages are engine events
+ */
+function formatMessage(id: number, data: unknown, eventName?: string): string {
+  const name = eventName ? `event: ${eventName}\n` : '';
+  return `id: ${id}\n${name}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Parse a Last-Event-ID header or ?lastEventId= value, undefined for a fresh connection
+ */
+function parseLastEventId(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+}
+
+/**
+ * Start streaming to a connection whose SSE headers are already sent
+ * Returns an error result instead when the request is invalid, before anything is written
+ */
+export function openComparisonStream(
+  request: ApiRequest & { lastEventId?: string },
+  connection: StreamConnection
+): ApiResult | null {
+  let side;
+  try {
+    side = parseSide(request.query.side);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { status: error.status, body: { success: false, error: error.message, code: error.code } };
+    }
+    throw error;
+  }
+
+  connection.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  // Backlog and subscription are set up in the same tick, so no event falls between them
+  const lastEventId = parseLastEventId(request.lastEventId ?? request.query.lastEventId);
+  const missed = lastEventId !== undefined ? comparisonEngine.getEventsSince(lastEventId) : null;
+  if (missed) {
+    missed.forEach(event => connection.write(formatMessage(event.id, event)));
+  } else {
+    connection.write(formatMessage(comparisonEngine.getLastEventId(), comparisonEngine.getSnapshot(side), 'snapshot'));
+  }
+
+  const unsubscribe = comparisonEngine.subscribe((event: EngineEvent) => {
+    connection.write(formatMessage(event.id, event));
+  });
+  const heartbeat = setInterval(() => connection.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+  connection.onClose(() => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  return null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Request Throttle
+ * Per-client request budget and a cap on concurrent runs for routes that fan out into RPC and aggregator calls
+ */
+
+export interface ThrottleLimits {
+  requestsPerWindow: number; // Per client
+  windowMs: number;
+  maxConcurrent: number; // Across all clients
+}
+
+export type ThrottleDecision =
+  | { allowed: true; release: () => void }
+  | { allowed: false; reason: 'rate_limited' | 'busy'; retryAfterSeconds: number };
+
+// Clients past this are swept of expired windows, so one-off callers don't pile up
+const MAX_TRACKED_CLIENTS = 10000;
+
+// Runs take seconds to minutes, callers turned away for capacity are asked to wait this long
+const BUSY_RETRY_SECONDS = 10;
+
+class RequestThrottle {
+  private limits: ThrottleLimits;
+  private requests = new Map<string, number[]>(); // Client -> start times within the window, oldest first
+  private running = 0;
+
+  constructor(limits: ThrottleLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Admit a request from a client, the caller must release an admitted request once it settles
+   */
+  tryAcquire(clientId: string): ThrottleDecision {
+    const now = Date.now();
+    const recent = (this.requests.get(clientId) ?? []).filter(time => now - time < this.limits.windowMs);
+
+    if (recent.length >= this.limits.requestsPerWindow) {
+      this.requests.set(clientId, recent);
+      return { allowed: false, reason: 'rate_limited', retryAfterSeconds: Math.ceil((recent[0] + this.limits.windowMs - now) / 1000) };
+    }
+    if (this.running >= this.limits.maxConcurrent) {
+      return { allowed: false, reason: 'busy', retryAfterSeconds: BUSY_RETRY_SECONDS };
+    }
+
+    this.requests.set(clientId, [...recent, now]);
+    if (this.requests.size > MAX_TRACKED_CLIENTS) this.sweep(now);
+
+    this.running++;
+    let released = false;
+    return {
+      allowed: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.running--;
+      }
+    };
+  }
+
+  private sweep(now: number): void {
+    this.requests.forEach((times, clientId) => {
+      if (now - times[times.length - 1] >= this.limits.windowMs) this.requests.delete(clientId);
+    });
+  }
+}
+
+export default RequestThrottle;
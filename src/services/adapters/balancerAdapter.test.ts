@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import BalancerAdapter from './balancerAdapter';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import { MockProvider, mockPool, TEST_TOKENS } from '../../test/mockProvider';
+
+const VAULT_ABI = [
+  'function queryBatchSwap(uint8 kind, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds) external returns (int256[] assetDeltas)'
+];
+
+const POOL_ABI = [
+  'function getPoolId() external view returns (bytes32)'
+];
+
+const V3_ROUTER_ABI = [
+  'function querySwapSingleTokenExactIn(address pool, address tokenIn, address tokenOut, uint256 exactAmountIn, address sender, bytes userData) external returns (uint256 amountCalculated)'
+];
+
+const VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+const V3_ROUTER = '0x5C6fb490BDFD3246EB0bB062c168DeCAF4bD9FDd';
+const V2_POOL = '0x96646936b91d6B9D7D0c47C496AfBF3D6ec7B6f8';
+const V2_POOL_ID = '0x96646936b91d6b9d7d0c47c496afbf3d6ec7b6f8000200000000000000000019';
+const V3_POOL = '0x85B2b559bC2D21104C4DEFdd6EFcA8A20343361D';
+
+const { WETH, ETH, USDC } = TEST_TOKENS;
+
+function v2Pool(poolId: string = V2_POOL_ID): PoolInfo {
+  return { ...mockPool('balancer', V2_POOL, WETH, USDC), pool_id: poolId };
+}
+
+// Vault deltas for a WETH → USDC swap at 2500 USDC per WETH, positive is paid into the Vault
+function mockVault(): MockProvider {
+  return new MockProvider().mock(VAULT, VAULT_ABI, {
+    queryBatchSwap: ([kind, swaps]) => {
+      const amount = swaps[0].amount;
+      return kind === 0n
+        ? [amount, -(amount * 2500n / 10n ** 12n)]
+        : [amount * 10n ** 12n / 2500n, -amount];
+    }
+  });
+}
+
+describe('BalancerAdapter', () => {
+  it('quotes V2 pools with a GIVEN_IN queryBatchSwap on the Vault', async () => {
+    const provider = mockVault();
+    const adapter = new BalancerAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(v2Pool(), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 2500n * 10n ** 6n, quoteSource: 'onchain_quoter' });
+    const [kind, swaps, assets] = provider.callsTo('queryBatchSwap')[0].args;
+    expect(kind).toBe(0n);
+    expect(swaps[0].poolId).toBe(V2_POOL_ID);
+    expect(assets).toEqual([WETH.address, USDC.address]);
+  });
+
+  it('quotes native ETH legs as WETH', async () => {
+    const provider = mockVault();
+    const adapter = new BalancerAdapter(provider.asProvider());
+    const pool = { ...mockPool('balancer', V2_POOL, ETH, USDC), pool_id: V2_POOL_ID };
+
+    await adapter.quoteExactIn(pool, 10n ** 18n, { context: provider.createContext() });
+
+    expect(provider.callsTo('queryBatchSwap')[0].args[2][0]).toBe(WETH.address);
+  });
+
+  it('reads the pool ID from the pool when the registry has none', async () => {
+    const provider = mockVault().mock(V2_POOL, POOL_ABI, { getPoolId: () => V2_POOL_ID });
+    const adapter = new BalancerAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('balancer', V2_POOL, WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote.outputAmount).toBe(2500n * 10n ** 6n);
+    expect(provider.callsTo('getPoolId')).toHaveLength(1);
+  });
+
+  it('rejects a pool ID that belongs to another pool', async () => {
+    const provider = mockVault();
+    const adapter = new BalancerAdapter(provider.asProvider());
+    const otherPoolId = '0x5c6ee304399dbdb9c8ef030ab642b10820db8f56000200000000000000000014';
+
+    await expect(adapter.quoteExactIn(v2Pool(otherPoolId), 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow('does not belong to pool');
+    expect(provider.callsTo('queryBatchSwap')).toHaveLength(0);
+  });
+
+  it('quotes pools without getPoolId through the V3 Router', async () => {
+    const provider = new MockProvider()
+      .mock(V3_POOL, POOL_ABI, {})
+      .mock(V3_ROUTER, V3_ROUTER_ABI, {
+        querySwapSingleTokenExactIn: ([, , , exactAmountIn]) => exactAmountIn * 2490n / 10n ** 12n
+      });
+    const adapter = new BalancerAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('balancer', V3_POOL, WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 2490n * 10n ** 6n, quoteSource: 'onchain_quoter' });
+    expect(provider.callsTo('querySwapSingleTokenExactIn')[0].args[0]).toBe(V3_POOL);
+  });
+
+  it('does not route a pool to the V3 Router when getPoolId fails for another reason', async () => {
+    const provider = new MockProvider()
+      .mock(V2_POOL, POOL_ABI, {
+        getPoolId: () => { throw Object.assign(new Error('request timeout'), { code: 'TIMEOUT' }); }
+      })
+      .mock(V3_ROUTER, V3_ROUTER_ABI, {
+        querySwapSingleTokenExactIn: ([, , , exactAmountIn]) => exactAmountIn * 2490n / 10n ** 12n
+      });
+    const adapter = new BalancerAdapter(provider.asProvider());
+
+    // Read without a context, so only getPoolId fails rather than the whole batch
+    await expect(adapter.quoteExactIn(mockPool('balancer', V2_POOL, WETH, USDC), 10n ** 18n, {})).rejects.toThrow('request timeout');
+    expect(provider.callsTo('querySwapSingleTokenExactIn')).toHaveLength(0);
+  });
+
+  it('quotes the input needed for an exact output with a GIVEN_OUT queryBatchSwap', async () => {
+    const provider = mockVault();
+    const adapter = new BalancerAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactOut(v2Pool(), 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ inputAmount: 10n ** 18n, quoteSource: 'onchain_quoter' });
+    expect(provider.callsTo('queryBatchSwap')[0].args[0]).toBe(1n);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Balancer Adapter
+ * Quotes Balancer V2 pools through the Vault's queryBatchSwap and V3 pools through the V3 Router queries
+ */
+
+import { ethers, Contract, type Provider } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import type { QuoteContext } from '../onChainQuoteService';
+import { BaseDexAdapter, isMissingFunction, type AdapterQuoteRequest, type ExactInQuote, type ExactOutQuote } from './dexAdapter';
+import { toWrappedAddress } from '../../config/tokens';
+
+const BALANCER_V2_VAULT_ABI = [
+  'function queryBatchSwap(uint8 kind, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[] swaps, address[] assets, tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance) funds) external returns (int256[] assetDeltas)'
+];
+
+const BALANCER_V2_POOL_ABI = [
+  'function getPoolId() external view returns (bytes32)'
+];
+
+const BALANCER_V3_ROUTER_ABI = [
+  'function querySwapSingleTokenExactIn(address pool, address tokenIn, address tokenOut, uint256 exactAmountIn, address sender, bytes userData) external returns (uint256 amountCalculated)',
+  'function querySwapSingleTokenExactOut(address pool, address tokenIn, address tokenOut, uint256 exactAmountOut, address sender, bytes userData) external returns (uint256 amountCalculated)'
+];
+
+const BALANCER_V2_VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+const BALANCER_V3_ROUTER = '0x5C6fb490BDFD3246EB0bB062c168DeCAF4bD9FDd';
+
+// Balancer V2 SwapKind enum
+const BALANCER_SWAP_KIND = {
+  GIVEN_IN: 0,
+  GIVEN_OUT: 1
+};
+
+class BalancerAdapter extends BaseDexAdapter {
+  readonly name = 'Balancer';
+  protected readonly dexes = ['balancer'];
+  private vault: Contract;
+  private v3Router: Contract;
+
+  constructor(provider: Provider) {
+    super(provider);
+    this.vault = new Contract(BALANCER_V2_VAULT, BALANCER_V2_VAULT_ABI, provider);
+    this.v3Router = new Contract(BALANCER_V3_ROUTER, BALANCER_V3_ROUTER_ABI, provider);
+  }
+
+  /**
+   * Get Balancer quote by simulating the swap through the Vault query helpers
+   * V2 pools (weighted, stable, composable-stable) are quoted with queryBatchSwap using the pool ID,
+   * V3 pools are quoted with the V3 Router's querySwapSingleTokenExactIn using the pool address
+   */
+  async quoteExactIn(pool: PoolInfo, inputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    console.log(`🔍 Balancer quote: ${ethers.formatUnits(inputAmount, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
+
+    const poolId = pool.pool_id || await this.resolveBalancerPoolId(pool, context);
+
+    if (!poolId) {
+      // No V2 pool ID - the pool address is a Balancer V3 pool
+      const amountOut = await this.callContract<bigint>(context, this.v3Router, 'querySwapSingleTokenExactIn', [
+        pool.address,
+        toWrappedAddress(pool.tokens.base.address),
+        toWrappedAddress(pool.tokens.quote.address),
+        inputAmount,
+        ethers.ZeroAddress,
+        '0x'
+      ]);
+
+      console.log(`✅ Balancer V3 query: ${ethers.formatUnits(amountOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
+      return { outputAmount: amountOut, quoteSource: 'onchain_quoter' };
+    }
+
+    // V2 pool IDs embed the pool address in their first 20 bytes
+    if (poolId.slice(0, 42).toLowerCase() !== pool.address.toLowerCase()) {
+      throw new Error(`Balancer pool ID ${poolId} does not belong to pool ${pool.address}`);
+    }
+
+    const assets = [toWrappedAddress(pool.tokens.base.address), toWrappedAddress(pool.tokens.quote.address)]; // Vault quotes WETH legs
+    const swaps = [{
+      poolId,
+      assetInIndex: 0,
+      assetOutIndex: 1,
+      amount: inputAmount,
+      userData: '0x'
+    }];
+    const funds = {
+      sender: ethers.ZeroAddress,
+      fromInternalBalance: false,
+      recipient: ethers.ZeroAddress,
+      toInternalBalance: false
+    };
+
+    const assetDeltas = await this.callContract<bigint[]>(context, this.vault, 'queryBatchSwap', [
+      BALANCER_SWAP_KIND.GIVEN_IN, swaps, assets, funds
+    ]);
+
+    // Vault deltas are from the Vault's perspective: positive = paid in, negative = paid out
+    const amountOut = -assetDeltas[1];
+    if (amountOut <= 0n) {
+      throw new Error(`Balancer queryBatchSwap returned no output for pool ${poolId}`);
+    }
+
+    console.log(`✅ Balancer V2 query: ${ethers.formatUnits(amountOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
+    return { outputAmount: amountOut, quoteSource: 'onchain_quoter' };
+  }
+
+  /**
+   * Get Balancer input needed for an exact output: V2 queryBatchSwap GIVEN_OUT or V3 querySwapSingleTokenExactOut
+   */
+  async quoteExactOut(pool: PoolInfo, outputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    const poolId = pool.pool_id || await this.resolveBalancerPoolId(pool, context);
+
+    if (!poolId) {
+      const amountIn = await this.callContract<bigint>(context, this.v3Router, 'querySwapSingleTokenExactOut', [
+        pool.address,
+        toWrappedAddress(pool.tokens.base.address),
+        toWrappedAddress(pool.tokens.quote.address),
+        outputAmount,
+        ethers.ZeroAddress,
+        '0x'
+      ]);
+      return { inputAmount: amountIn, quoteSource: 'onchain_quoter' };
+    }
+
+    if (poolId.slice(0, 42).toLowerCase() !== pool.address.toLowerCase()) {
+      throw new Error(`Balancer pool ID ${poolId} does not belong to pool ${pool.address}`);
+    }
+
+    const assets = [toWrappedAddress(pool.tokens.base.address), toWrappedAddress(pool.tokens.quote.address)];
+    const swaps = [{
+      poolId,
+      assetInIndex: 0,
+      assetOutIndex: 1,
+      amount: outputAmount,
+      userData: '0x'
+    }];
+    const funds = {
+      sender: ethers.ZeroAddress,
+      fromInternalBalance: false,
+      recipient: ethers.ZeroAddress,
+      toInternalBalance: false
+    };
+
+    const assetDeltas = await this.callContract<bigint[]>(context, this.vault, 'queryBatchSwap', [
+      BALANCER_SWAP_KIND.GIVEN_OUT, swaps, assets, funds
+    ]);
+
+    // Positive delta = amount the Vault receives
+    const amountIn = assetDeltas[0];
+    if (amountIn <= 0n) {
+      throw new Error(`Balancer queryBatchSwap returned no input for pool ${poolId}`);
+    }
+    return { inputAmount: amountIn, quoteSource: 'onchain_quoter' };
+  }
+
+  /**
+   * Read the V2 pool ID from the pool contract, returns null for V3 pools (no getPoolId)
+   * Failed RPC requests are rethrown so they are not mistaken for a V3 pool
+   */
+  private async resolveBalancerPoolId(pool: PoolInfo, context: QuoteContext | undefined): Promise<string | null> {
+    try {
+      const poolContract = new Contract(pool.address, BALANCER_V2_POOL_ABI, this.provider);
+      const poolId = await this.callContract<string>(context, poolContract, 'getPoolId');
+      return poolId;
+    } catch (error) {
+      if (!isMissingFunction(error)) throw error;
+      return null;
+    }
+  }
+
+  describe(pool: PoolInfo, side: TradeSide): string {
+    if (side === 'buy') {
+      return pool.pool_id ? 'on_chain_vault_query_given_out' : 'on_chain_balancer_query_exact_out';
+    }
+    return pool.pool_id ? 'on_chain_vault_query' : 'on_chain_balancer_query';
+  }
+
+  estimateGas(): bigint {
+    return 160000n;
+  }
+}
+
+export default BalancerAdapter;
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import CurveAdapter from './curveAdapter';
+import { MockProvider, mockPool, revertWith, TEST_TOKENS, type CallHandler } from '../../test/mockProvider';
+
+// Stableswap and crypto pools in one ABI, their get_dy overloads have different selectors
+const CURVE_POOL_ABI = [
+  'function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+  'function get_dx(int128 i, int128 j, uint256 dy) external view returns (uint256)',
+  'function get_dy_underlying(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+  'function get_dy(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+  'function get_dy_underlying(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+  'function coins(uint256 arg0) external view returns (address)',
+  'function gamma() external view returns (uint256)'
+];
+
+const METAREGISTRY_ABI = [
+  'function get_coin_indices(address _pool, address _from, address _to) external view returns (int128, int128, bool)'
+];
+
+const METAREGISTRY = '0xF98B45FA17DE75FB1aD0e7aFD971b0ca00e379fC';
+const POOL = '0xbEbc44782C7dB0a1A60Cb6fe97d0b483032FF1C7';
+const LUSD = '0x5f98805A4E8be255a32880FDeC7F6728C6568bA0';
+const THREE_CRV = '0x6c3F90f043a72FA612cbac8115EE7e52BDe6E490';
+const AM3CRV = '0xE7a24EF0C5e95Ffb0f6684b813A78F2a3AD7D171';
+
+const { WETH, USDC, USDT, DAI, WBTC } = TEST_TOKENS;
+
+// Pool with the given coins, coins() reverts past the last one like a real Curve pool
+function mockCurvePool(provider: MockProvider, coins: string[], handlers: Record<string, CallHandler>): MockProvider {
+  return provider.mock(POOL, CURVE_POOL_ABI, {
+    coins: ([index]) => {
+      if (index >= BigInt(coins.length)) throw revertWith();
+      return coins[Number(index)];
+    },
+    ...handlers
+  });
+}
+
+describe('CurveAdapter', () => {
+  it('quotes stableswap pools with int128 indices when gamma() reverts', async () => {
+    const provider = mockCurvePool(new MockProvider(), [DAI.address, USDC.address, USDT.address], {
+      'get_dy(int128,int128,uint256)': ([, , dx]) => dx * 9999n / 10000n
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+    const pool = mockPool('curve', POOL, USDC, USDT);
+
+    const quote = await adapter.quoteExactIn(pool, 1000n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 999900000n, quoteSource: 'onchain_quoter' });
+    expect(provider.callsTo('get_dy(int128,int128,uint256)')[0].args.slice(0, 2)).toEqual([1n, 2n]);
+    expect(adapter.estimateGas(pool)).toBe(180000n);
+    expect(adapter.describe(pool, 'sell')).toBe('on_chain_curve_get_dy');
+  });
+
+  it('quotes crypto pools with uint256 indices when gamma() answers', async () => {
+    const provider = mockCurvePool(new MockProvider(), [USDT.address, WBTC.address, WETH.address], {
+      gamma: () => 11809167828997n,
+      'get_dy(uint256,uint256,uint256)': ([, , dx]) => dx * 2500n / 10n ** 12n
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+    const pool = mockPool('curve', POOL, WETH, USDT);
+
+    const quote = await adapter.quoteExactIn(pool, 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote.outputAmount).toBe(2500n * 10n ** 6n);
+    expect(provider.callsTo('get_dy(uint256,uint256,uint256)')[0].args.slice(0, 2)).toEqual([2n, 0n]);
+    expect(adapter.estimateGas(pool)).toBe(230000n);
+    expect(adapter.describe(pool, 'sell')).toBe('on_chain_curve_crypto_get_dy');
+  });
+
+  it('quotes underlying coins of a metapool with get_dy_underlying', async () => {
+    const provider = mockCurvePool(new MockProvider(), [LUSD, THREE_CRV], {
+      'get_dy_underlying(int128,int128,uint256)': ([, , dx]) => dx / 10n ** 12n
+    }).mock(METAREGISTRY, METAREGISTRY_ABI, {
+      get_coin_indices: () => [1n, 2n, true]
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('curve', POOL, DAI, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 10n ** 6n, quoteSource: 'onchain_quoter' });
+    expect(provider.callsTo('get_dy_underlying')[0].args.slice(0, 2)).toEqual([1n, 2n]);
+  });
+
+  it('quotes underlying coins of a crypto pool with the uint256 get_dy_underlying', async () => {
+    const provider = mockCurvePool(new MockProvider(), [AM3CRV, WBTC.address, WETH.address], {
+      gamma: () => 11809167828997n,
+      'get_dy_underlying(uint256,uint256,uint256)': ([, , dx]) => dx * 10n ** 12n / 2500n
+    }).mock(METAREGISTRY, METAREGISTRY_ABI, {
+      get_coin_indices: () => [1n, 4n, true]
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+    const pool = mockPool('curve', POOL, USDC, WETH);
+
+    const quote = await adapter.quoteExactIn(pool, 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 10n ** 18n, quoteSource: 'onchain_quoter' });
+    expect(provider.callsTo('get_dy_underlying(uint256,uint256,uint256)')[0].args.slice(0, 2)).toEqual([1n, 4n]);
+    expect(adapter.describe(pool, 'sell')).toBe('on_chain_curve_crypto_get_dy_underlying');
+  });
+
+  it('falls back to a decimal-adjusted pegged estimate when a stableswap quote fails', async () => {
+    const provider = mockCurvePool(new MockProvider(), [DAI.address, USDC.address, USDT.address], {});
+    const adapter = new CurveAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('curve', POOL, DAI, USDC), 5n * 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 5n * 10n ** 6n, quoteSource: 'estimated' });
+  });
+
+  it('fails a crypto pool quote instead of estimating it', async () => {
+    const provider = mockCurvePool(new MockProvider(), [USDT.address, WBTC.address, WETH.address], {
+      gamma: () => 11809167828997n
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+
+    await expect(adapter.quoteExactIn(mockPool('curve', POOL, WETH, USDT), 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow();
+  });
+
+  it('reads the pool layout once per pool and pair', async () => {
+    const provider = mockCurvePool(new MockProvider(), [DAI.address, USDC.address, USDT.address], {
+      'get_dy(int128,int128,uint256)': ([, , dx]) => dx
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+    const pool = mockPool('curve', POOL, USDC, USDT);
+
+    await adapter.quoteExactIn(pool, 10n ** 6n, { context: provider.createContext() });
+    await adapter.quoteExactIn(pool, 10n ** 6n, { context: provider.createContext() });
+
+    expect(provider.callsTo('gamma')).toHaveLength(1);
+    expect(provider.callsTo('get_dy')).toHaveLength(2);
+  });
+
+  it('does not cache the pool flavour after a failed gamma() request', async () => {
+    let rpcDown = true;
+    const provider = mockCurvePool(new MockProvider(), [USDT.address, WBTC.address, WETH.address], {
+      gamma: () => {
+        if (rpcDown) throw Object.assign(new Error('request timeout'), { code: 'TIMEOUT' });
+        return 11809167828997n;
+      },
+      'get_dy(uint256,uint256,uint256)': ([, , dx]) => dx * 2500n / 10n ** 12n
+    });
+    const adapter = new CurveAdapter(provider.asProvider());
+    const pool = mockPool('curve', POOL, WETH, USDT);
+
+    // Read without a context, so only gamma() fails rather than the whole batch
+    await expect(adapter.quoteExactIn(pool, 10n ** 18n, {})).rejects.toThrow('request timeout');
+
+    rpcDown = false;
+    const quote = await adapter.quoteExactIn(pool, 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 2500n * 10n ** 6n, quoteSource: 'onchain_quoter' });
+    expect(adapter.estimateGas(pool)).toBe(230000n);
+  });
+});
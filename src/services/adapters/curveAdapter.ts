@@ -0,0 +1,244 @@
+/**
+ * Curve Adapter
+ * Quotes Curve pools with get_dy / get_dx after working out the pool flavour and the coin indices of the pair's tokens
+ * - stableswap: int128 indices (classic pools, factory and NG stableswap pools)
+ * - crypto: uint256 indices (tricrypto, twocrypto and their NG versions)
+ * Metapools and lending pools that hold a token only as an underlying coin are quoted with get_dy_underlying
+ */
+
+import { ethers, Contract } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import type { QuoteContext } from '../onChainQuoteService';
+import { BaseDexAdapter, isMissingFunction, type AdapterQuoteRequest, type ExactInQuote, type ExactOutQuote, type NativeLegs } from './dexAdapter';
+import { isNativeEth, isSameAsset, toWrappedAddress } from '../../config/tokens';
+
+const CURVE_STABLESWAP_ABI = [
+  'function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+  'function get_dx(int128 i, int128 j, uint256 dy) external view returns (uint256)',
+  'function get_dy_underlying(int128 i, int128 j, uint256 dx) external view returns (uint256)',
+  'function get_dx_underlying(int128 i, int128 j, uint256 dy) external view returns (uint256)'
+];
+
+const CURVE_CRYPTO_ABI = [
+  'function get_dy(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+  'function get_dx(uint256 i, uint256 j, uint256 dy) external view returns (uint256)',
+  'function get_dy_underlying(uint256 i, uint256 j, uint256 dx) external view returns (uint256)',
+  'function get_dx_underlying(uint256 i, uint256 j, uint256 dy) external view returns (uint256)'
+];
+
+const CURVE_POOL_INFO_ABI = [
+  'function coins(uint256 arg0) external view returns (address)',
+  'function gamma() external view returns (uint256)' // Only crypto pools have a gamma parameter
+];
+
+// The metaregistry indexes every Curve registry and factory, including underlying coins of metapools
+const CURVE_METAREGISTRY_ABI = [
+  'function get_coin_indices(address _pool, address _from, address _to) external view returns (int128, int128, bool)'
+];
+
+const CURVE_METAREGISTRY = '0xF98B45FA17DE75FB1aD0e7aFD971b0ca00e379fC';
+
+const MAX_CURVE_COINS = 8; // NG pools hold up to 8 coins
+const STABLESWAP_SWAP_GAS = 180000n;
+const CRYPTO_SWAP_GAS = 230000n; // Crypto pools run Newton iterations on every swap
+
+// Coin order of pools whose coins() reads have been unreliable, lowercase addresses by index
+const KNOWN_POOL_COINS: Record<string, string[]> = {
+  // 3pool: DAI, USDC, USDT
+  '0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7': [
+    '0x6b175474e89094c44da98b954eedeac495271d0f',
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+    '0xdac17f958d2ee523a2206206994597c13d831ec7'
+  ]
+};
+
+type CurveFlavour = 'stableswap' | 'crypto';
+
+// How to swap the pair's tokens in one pool, fixed for the life of the pool
+interface CurvePoolLayout {
+  flavour: CurveFlavour;
+  i: number;
+  j: number;
+  underlying: boolean; // Indices are underlying coin indices, quoted with get_dy_underlying
+  native: NativeLegs; // Coins held as native ETH (the 0xEeee placeholder) rather than WETH
+}
+
+class CurveAdapter extends BaseDexAdapter {
+  readonly name = 'Curve';
+  protected readonly dexes = ['curve'];
+  private layouts = new Map<string, CurvePoolLayout>();
+
+  /**
+   * Get Curve quote with the get_dy variant that matches the pool flavour
+   */
+  async quoteExactIn(pool: PoolInfo, inputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    const layout = await this.getLayout(pool, context);
+    const { i, j } = layout;
+
+    try {
+      const method = layout.underlying ? 'get_dy_underlying' : 'get_dy';
+      const amountOut = await this.callContract<bigint>(context, this.getSwapContract(pool, layout), method, [i, j, inputAmount]);
+      console.log(`Curve ${layout.flavour} ${method}: ${ethers.formatUnits(inputAmount, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${ethers.formatUnits(amountOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
+
+      return { outputAmount: amountOut, quoteSource: 'onchain_quoter' };
+    } catch (error) {
+      console.error('Curve quote failed:', error);
+      if (layout.flavour === 'crypto') {
+        throw error;
+      }
+      // Stableswap fallback: decimal-adjusted 1:1 ratio
+      return { outputAmount: this.estimatePegged(pool, inputAmount), quoteSource: 'estimated' };
+    }
+  }
+
+  /**
+   * Get Curve input needed for an exact output using get_dx (newer pools only, no estimation fallback)
+   */
+  async quoteExactOut(pool: PoolInfo, outputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    const layout = await this.getLayout(pool, context);
+    const method = layout.underlying ? 'get_dx_underlying' : 'get_dx';
+    let amountIn: bigint;
+    try {
+      amountIn = await this.callContract<bigint>(context, this.getSwapContract(pool, layout), method, [layout.i, layout.j, outputAmount]);
+    } catch (error) {
+      throw new Error(`Curve pool ${pool.address} does not support ${method}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`Curve ${layout.flavour} ${method}: ${ethers.formatUnits(amountIn, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${ethers.formatUnits(outputAmount, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
+    return { inputAmount: amountIn, quoteSource: 'onchain_quoter' };
+  }
+
+  describe(pool: PoolInfo, side: TradeSide): string {
+    const layout = this.layouts.get(this.getLayoutKey(pool));
+    const method = side === 'buy' ? 'get_dx' : 'get_dy';
+    if (!layout) return `on_chain_curve_${method}`;
+    return `on_chain_curve_${layout.flavour === 'crypto' ? 'crypto_' : ''}${method}${layout.underlying ? '_underlying' : ''}`;
+  }
+
+  estimateGas(pool: PoolInfo): bigint {
+    return this.layouts.get(this.getLayoutKey(pool))?.flavour === 'crypto' ? CRYPTO_SWAP_GAS : STABLESWAP_SWAP_GAS;
+  }
+
+  nativeLegs(pool: PoolInfo): NativeLegs {
+    return this.layouts.get(this.getLayoutKey(pool))?.native ?? { input: false, output: false };
+  }
+
+  /**
+   * Flavour and coin indices of the pool, read once per pool and pair
+   * Reads that fail for any reason other than a revert fail the quote, so a transient error is never cached
+   */
+  private async getLayout(pool: PoolInfo, context: QuoteContext | undefined): Promise<CurvePoolLayout> {
+    const key = this.getLayoutKey(pool);
+    const cached = this.layouts.get(key);
+    if (cached) return cached;
+
+    const poolInfo = new Contract(pool.address, CURVE_POOL_INFO_ABI, this.provider);
+    const [flavour, indices] = await Promise.all([
+      this.detectFlavour(poolInfo, context),
+      this.getCurveIndices(pool, poolInfo, context)
+    ]);
+
+    const layout: CurvePoolLayout = { flavour, ...indices };
+    console.log(`🔍 Curve pool ${pool.address}: ${flavour}${layout.underlying ? ' (underlying)' : ''}, ${pool.tokens.base.symbol}(${layout.i}) → ${pool.tokens.quote.symbol}(${layout.j})`);
+    this.layouts.set(key, layout);
+    return layout;
+  }
+
+  /**
+   * Crypto pools expose gamma(), stableswap pools don't
+   */
+  private async detectFlavour(poolInfo: Contract, context: QuoteContext | undefined): Promise<CurveFlavour> {
+    try {
+      await this.callContract<bigint>(context, poolInfo, 'gamma');
+      return 'crypto';
+    } catch (error) {
+      if (!isMissingFunction(error)) throw error;
+      return 'stableswap';
+    }
+  }
+
+  /**
+   * Find the Curve coin indices of the pool's base and quote tokens
+   * Direct coins first, then the metaregistry for underlying coins, then the known coin table
+   */
+  private async getCurveIndices(
+    pool: PoolInfo,
+    poolInfo: Contract,
+    context: QuoteContext | undefined
+  ): Promise<{ i: number; j: number; underlying: boolean; native: NativeLegs }> {
+    const base = pool.tokens.base.address.toLowerCase();
+    const quote = pool.tokens.quote.address.toLowerCase();
+    const noNative = { input: false, output: false };
+
+    // Reading past the last coin reverts, so every index is read and the list ends at the first gap
+    const coins = await Promise.all(
+      Array.from({ length: MAX_CURVE_COINS }, (_, index) =>
+        this.callContract<string>(context, poolInfo, 'coins', [index]).catch(error => {
+          if (!isMissingFunction(error)) throw error;
+          return null;
+        })
+      )
+    );
+    const gap = coins.indexOf(null);
+    const poolCoins = (gap === -1 ? coins : coins.slice(0, gap)).map(coin => coin!.toLowerCase());
+
+    // Native ETH and WETH match each other, pools holding ETH list it as the 0xEeee placeholder
+    const i = this.findCoin(poolCoins, base);
+    const j = this.findCoin(poolCoins, quote);
+    if (i !== -1 && j !== -1) {
+      return { i, j, underlying: false, native: { input: isNativeEth(poolCoins[i]), output: isNativeEth(poolCoins[j]) } };
+    }
+
+    try {
+      const metaregistry = new Contract(CURVE_METAREGISTRY, CURVE_METAREGISTRY_ABI, this.provider);
+      const [underlyingI, underlyingJ, isUnderlying] = await this.callContract<[bigint, bigint, boolean]>(
+        context, metaregistry, 'get_coin_indices', [pool.address, toWrappedAddress(pool.tokens.base.address), toWrappedAddress(pool.tokens.quote.address)]
+      );
+      if (underlyingI !== underlyingJ) {
+        return { i: Number(underlyingI), j: Number(underlyingJ), underlying: isUnderlying, native: noNative };
+      }
+    } catch (error) {
+      console.log(`Curve metaregistry has no indices for ${pool.address}:`, error instanceof Error ? error.message : error);
+    }
+
+    const knownCoins = KNOWN_POOL_COINS[pool.address.toLowerCase()];
+    if (knownCoins && knownCoins.includes(base) && knownCoins.includes(quote)) {
+      console.log(`Using known coin indices for ${pool.address}`);
+      return { i: knownCoins.indexOf(base), j: knownCoins.indexOf(quote), underlying: false, native: noNative };
+    }
+
+    throw new Error(`Could not find token indices in Curve pool ${pool.address}: base=${pool.tokens.base.symbol}@${i}, quote=${pool.tokens.quote.symbol}@${j}`);
+  }
+
+  /**
+   * Index of a token among the pool's coins, exact address first, then native ETH / WETH equivalence
+   */
+  private findCoin(poolCoins: string[], token: string): number {
+    const index = poolCoins.indexOf(token);
+    return index !== -1 ? index : poolCoins.findIndex(coin => isSameAsset(coin, token));
+  }
+
+  /**
+   * Pool contract with the index types of its flavour
+   */
+  private getSwapContract(pool: PoolInfo, layout: CurvePoolLayout): Contract {
+    return new Contract(pool.address, layout.flavour === 'crypto' ? CURVE_CRYPTO_ABI : CURVE_STABLESWAP_ABI, this.provider);
+  }
+
+  /**
+   * Decimal-adjusted 1:1 output for pegged pairs
+   */
+  private estimatePegged(pool: PoolInfo, inputAmount: bigint): bigint {
+    const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
+    if (decimalDiff > 0) return inputAmount * 10n ** BigInt(decimalDiff);
+    if (decimalDiff < 0) return inputAmount / 10n ** BigInt(-decimalDiff);
+    return inputAmount;
+  }
+
+  private getLayoutKey(pool: PoolInfo): string {
+    return `${pool.address}:${pool.tokens.base.address}:${pool.tokens.quote.address}`.toLowerCase();
+  }
+}
+
+export default CurveAdapter;
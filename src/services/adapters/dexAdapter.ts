@@ -0,0 +1,121 @@
+/**
+ * DEX Adapter
+ * One adapter per venue turns a pool into exact-input (and optionally exact-output) quotes
+ * OnChainQuoteService only resolves the adapter for a pool, so a new venue is a new module plus one registry entry
+ */
+
+import { isError, type Contract, type Provider } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { OnChainQuote, QuoteContext, QuoteSource } from '../onChainQuoteService';
+import type { TokenPair, TradeSide } from '../../types/api';
+import { alchemyRateLimiter } from '../../utils/rateLimiter';
+
+// Transaction base cost, added to quoter gas figures that only cover the swap itself
+export const SWAP_TX_BASE_GAS = 21000n;
+
+export interface AdapterQuoteRequest {
+  tokenPair?: TokenPair; // Absent on the deprecated USD-sized path
+  context?: QuoteContext; // Reads are batched and pinned to the context's block when set
+}
+
+// Pool state the simulated swap ends at, set by quoters that report it (Uniswap V3 QuoterV2)
+export interface SwapStateAfter {
+  sqrtPriceX96After?: string;
+  initializedTicksCrossed?: number;
+}
+
+// Output amount of a single pool quote together with how it was obtained
+export interface ExactInQuote extends SwapStateAfter {
+  outputAmount: bigint;
+  quoteSource: QuoteSource;
+  gasEstimate?: bigint; // Set when the venue reports its own gas usage
+  aggregatorQuote?: OnChainQuote; // Aggregators describe the route they found, returned to the caller as is
+}
+
+// Input amount needed for an exact-output quote together with how it was obtained
+export interface ExactOutQuote extends SwapStateAfter {
+  inputAmount: bigint;
+  quoteSource: QuoteSource;
+  gasEstimate?: bigint;
+  aggregatorQuote?: OnChainQuote;
+}
+
+// Which legs the venue itself takes or pays in native ETH rather than WETH
+export interface NativeLegs {
+  input: boolean;
+  output: boolean;
+}
+
+export interface DexAdapter {
+  readonly name: string;
+
+  /**
+   * Whether this adapter quotes the given pool
+   */
+  supports(pool: PoolInfo): boolean;
+
+  /**
+   * Output for an exact input of the pool's base token
+   */
+  quoteExactIn(pool: PoolInfo, amountIn: bigint, request: AdapterQuoteRequest): Promise<ExactInQuote>;
+
+  /**
+   * Base token input needed for an exact output of the quote token, left out by venues that cannot quote it
+   */
+  quoteExactOut?(pool: PoolInfo, amountOut: bigint, request: AdapterQuoteRequest): Promise<ExactOutQuote>;
+
+  /**
+   * Label of the quoting method, recorded with each quote log
+   */
+  describe(pool: PoolInfo, side: TradeSide, quoteSource: QuoteSource): string;
+
+  /**
+   * Typical gas for a swap transaction, used when the quote doesn't report its own
+   */
+  estimateGas(pool: PoolInfo): bigint;
+
+  /**
+   * Native ETH legs of the pool, left out by venues that only trade ERC-20s
+   */
+  nativeLegs?(pool: PoolInfo): NativeLegs;
+}
+
+/**
+ * Whether a read failed because the pool lacks the function, rather than because the RPC request failed
+ */
+export function isMissingFunction(error: unknown): boolean {
+  return isError(error, 'CALL_EXCEPTION') || isError(error, 'BAD_DATA');
+}
+
+/**
+ * Shared plumbing for adapters that read on-chain state through a provider
+ */
+export abstract class BaseDexAdapter implements DexAdapter {
+  abstract readonly name: string;
+  protected abstract readonly dexes: string[];
+  protected provider: Provider;
+
+  constructor(provider: Provider) {
+    this.provider = provider;
+  }
+
+  supports(pool: PoolInfo): boolean {
+    return this.dexes.includes(pool.dex);
+  }
+
+  abstract quoteExactIn(pool: PoolInfo, amountIn: bigint, request: AdapterQuoteRequest): Promise<ExactInQuote>;
+
+  abstract describe(pool: PoolInfo, side: TradeSide, quoteSource: QuoteSource): string;
+
+  abstract estimateGas(pool: PoolInfo): bigint;
+
+  /**
+   * Read-only contract call, batched through the context's Multicall3 when there is one
+   */
+  protected callContract<T>(context: QuoteContext | undefined, contract: Contract, method: string, args: unknown[] = []): Promise<T> {
+    if (context) {
+      return context.multicall.call<T>(contract, method, args);
+    }
+    return alchemyRateLimiter.execute(() => contract.getFunction(method).staticCall(...args));
+  }
+}
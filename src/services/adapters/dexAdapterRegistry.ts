@@ -0,0 +1,57 @@
+/**
+ * DEX Adapter Registry
+ * Resolves the adapter that quotes a pool; the first registered adapter that supports it wins
+ */
+
+import type { Provider } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { DexAdapter } from './dexAdapter';
+import UniswapV2Adapter from './uniswapV2Adapter';
+import UniswapV3Adapter from './uniswapV3Adapter';
+import UniswapV4Adapter from './uniswapV4Adapter';
+import CurveAdapter from './curveAdapter';
+import BalancerAdapter from './balancerAdapter';
+import FluidAdapter from './fluidAdapter';
+import ZeroXAdapter from './zeroXAdapter';
+
+class DexAdapterRegistry {
+  private adapters: DexAdapter[] = [];
+
+  /**
+   * Add an adapter, checked after every adapter registered before it
+   */
+  register(adapter: DexAdapter): this {
+    this.adapters.push(adapter);
+    return this;
+  }
+
+  /**
+   * Adapter for a pool, undefined for venues nothing is registered for
+   */
+  find(pool: PoolInfo): DexAdapter | undefined {
+    return this.adapters.find(adapter => adapter.supports(pool));
+  }
+
+  /**
+   * Registered adapters in lookup order
+   */
+  getAdapters(): DexAdapter[] {
+    return [...this.adapters];
+  }
+}
+
+/**
+ * Registry with every built-in venue, sharing one provider
+ */
+export function createDefaultAdapterRegistry(provider: Provider): DexAdapterRegistry {
+  return new DexAdapterRegistry()
+    .register(new UniswapV2Adapter(provider))
+    .register(new UniswapV3Adapter(provider))
+    .register(new UniswapV4Adapter(provider))
+    .register(new CurveAdapter(provider))
+    .register(new BalancerAdapter(provider))
+    .register(new FluidAdapter(provider))
+    .register(new ZeroXAdapter());
+}
+
+export default DexAdapterRegistry;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import FluidAdapter from './fluidAdapter';
+import { MockProvider, mockPool, revertWith, TEST_TOKENS } from '../../test/mockProvider';
+
+const FLUID_DEX_ABI = [
+  'function getPricesAndExchangePrices()',
+  'function getCollateralReserves(uint256 geometricMean_, uint256 upperRange_, uint256 lowerRange_, uint256 token0SupplyExchangePrice_, uint256 token1SupplyExchangePrice_) view returns (tuple(uint256 token0RealReserves, uint256 token1RealReserves, uint256 token0ImaginaryReserves, uint256 token1ImaginaryReserves) c_)',
+  'function swapIn(bool swap0to1_, uint256 amountIn_, uint256 amountOutMin_, address to_) payable returns (uint256 amountOut_)'
+];
+
+// Pool with confirmed reserve math
+const USDE_USDT_POOL = '0xf063bd202e45d6b2843102cb4ece339026645d4a';
+const OTHER_POOL = '0x667701e51B4D1Ca244F17C78F7aB8744B4C99F9B';
+
+const { USDC, USDT, USDe } = TEST_TOKENS;
+
+// getPricesAndExchangePrices reports its results in revert data, prices with 27 decimals
+function pricesRevertData(center: number, upper: number, lower: number): string {
+  const price = (value: number) => ethers.parseUnits(value.toString(), 27);
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+    Array(9).fill('uint256'),
+    [price(center), price(center), price(upper), price(lower), price(1), price(1), price(1), price(1), price(1)]
+  );
+  return '0x12345678' + encoded.slice(2);
+}
+
+describe('FluidAdapter', () => {
+  it('estimates pools without confirmed reserve math at a fee-adjusted 1:1', async () => {
+    const provider = new MockProvider();
+    const adapter = new FluidAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('fluid', OTHER_POOL, USDC, USDT), 1000n * 10n ** 6n, {});
+
+    expect(quote).toEqual({ outputAmount: 999800000n, quoteSource: 'estimated' });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('quotes enhanced pools from a swapIn simulation', async () => {
+    const swapResult = new ethers.Interface(['error FluidDexSwapResult(uint256 amountOut)']);
+    const provider = new MockProvider().mock(USDE_USDT_POOL, FLUID_DEX_ABI, {
+      swapIn: ([, amountIn]) => { throw revertWith(swapResult.encodeErrorResult('FluidDexSwapResult', [amountIn * 9995n / 10n ** 16n])); }
+    });
+    const adapter = new FluidAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('fluid', USDE_USDT_POOL, USDe, USDT), 1000n * 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 999500000n, quoteSource: 'onchain_quoter' });
+    const [swap] = provider.callsTo('swapIn');
+    expect(swap.args[0]).toBe(false); // USDe is token1
+    expect(provider.callsTo('getCollateralReserves')).toHaveLength(0);
+    expect(adapter.describe(mockPool('fluid', USDE_USDT_POOL, USDe, USDT), 'sell', quote.quoteSource)).toBe('on_chain_swap_in_simulation');
+  });
+
+  it('falls back to the price impact model when the swap simulation fails', async () => {
+    const provider = new MockProvider().mock(USDE_USDT_POOL, FLUID_DEX_ABI, {
+      getPricesAndExchangePrices: () => { throw revertWith(pricesRevertData(1, 1.001, 0.999)); },
+      getCollateralReserves: () => [5_000_000n * 10n ** 18n, 10_000_000n * 10n ** 6n, 0n, 0n] // USDe reserves reported with 6 decimals
+    });
+    const adapter = new FluidAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('fluid', USDE_USDT_POOL, USDe, USDT), 1000n * 10n ** 18n, { context: provider.createContext(20000000) });
+
+    // Every read is pinned to the quote block
+    expect(provider.calls.map(call => call.blockTag)).toEqual(Array(provider.calls.length).fill(20000000));
+    expect(provider.callsTo('getCollateralReserves')).toHaveLength(1);
+    // 0.01% of the USDe reserves costs 0.005% impact, on top of the 0.01% fee
+    expect(quote.quoteSource).toBe('estimated');
+    expect(Number(ethers.formatUnits(quote.outputAmount, 6))).toBeCloseTo(1000 * Math.sqrt(1.001 * 0.999) * (1 - 0.00005) * 0.9999, 4);
+  });
+
+  it('falls back to an estimate when the pool reports no price data', async () => {
+    const provider = new MockProvider().mock(USDE_USDT_POOL, FLUID_DEX_ABI, {});
+    const adapter = new FluidAdapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('fluid', USDE_USDT_POOL, USDe, USDT), 1000n * 10n ** 18n, {});
+
+    expect(quote.quoteSource).toBe('estimated');
+    expect(Number(ethers.formatUnits(quote.outputAmount, 6))).toBeCloseTo(999.8, 4);
+  });
+});
@@ -0,0 +1,521 @@
+/**
+ * Fluid Adapter
+ * Quotes Fluid DEX pools from swapIn simulations, with a reserve-based price impact model and heuristic estimates as fallbacks
+ */
+
+import { ethers } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import type { QuoteSource } from '../onChainQuoteService';
+import { storeQuoteLog } from '../quoteLog';
+import { BaseDexAdapter, type AdapterQuoteRequest, type ExactInQuote } from './dexAdapter';
+
+// A pool whose reserve math has been confirmed, for this base/quote order only
+interface EnhancedPool {
+  base: string;
+  quote: string;
+  baseIsToken0: boolean;
+  reserveDecimals: { token0: number; token1: number }; // Scale getCollateralReserves reports each side in, not the token's decimals
+}
+
+// Pools with confirmed reserve math, by lowercase address
+const ENHANCED_POOLS: Record<string, EnhancedPool> = {
+  '0xf063bd202e45d6b2843102cb4ece339026645d4a': { base: 'USDe', quote: 'USDT', baseIsToken0: false, reserveDecimals: { token0: 18, token1: 6 } }
+};
+
+// Range prices read from getPricesAndExchangePrices, all with 27 decimals
+interface FluidPriceData {
+  centerPrice: bigint;
+  upperRange: bigint;
+  lowerRange: bigint;
+  geometricMean: bigint;
+}
+
+/**
+ * Revert data of a failed call, Fluid returns its read results this way
+ */
+function getRevertData(error: unknown): string | undefined {
+  const data = (error as { data?: unknown } | null)?.data;
+  return typeof data === 'string' ? data : undefined;
+}
+
+class FluidAdapter extends BaseDexAdapter {
+  readonly name = 'Fluid';
+  protected readonly dexes = ['fluid'];
+
+  /**
+   * Get Fluid DEX quote from a swapIn simulation, with the reserve-based price impact model and estimation as fallbacks
+   */
+  async quoteExactIn(pool: PoolInfo, inputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    // Fluid simulates swaps through revert data, so it is called directly rather than through Multicall3
+    const blockTag = context?.blockNumber;
+    const startTime = Date.now();
+
+    try {
+      // Only use enhanced quotes for pools whose reserve math has been confirmed
+      const enhanced = this.getEnhancedPool(pool);
+      if (enhanced) {
+        // The pool's own swap math first
+        try {
+          return await this.getFluidLiveQuote(pool, enhanced, inputAmount, startTime, blockTag);
+        } catch (liveQuoteError) {
+          console.warn('⚠️ Fluid live quote failed, trying price impact model:', liveQuoteError);
+
+          // Fallback to the heuristic price impact model on live reserves
+          try {
+            return await this.getFluidRealPriceImpactQuote(pool, enhanced, inputAmount, startTime, blockTag);
+          } catch (priceImpactError) {
+            console.warn('⚠️ Fluid price impact calculation failed, using estimation:', priceImpactError);
+            return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
+          }
+        }
+      }
+
+      // Fallback to estimation for other Fluid pools
+      return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
+
+    } catch (error) {
+      console.error('Fluid quote failed completely, using fallback:', error);
+      return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
+    }
+  }
+
+  /**
+   * Confirmed reserve math for the pool, null unless both address and token order match
+   */
+  private getEnhancedPool(pool: PoolInfo): EnhancedPool | null {
+    const enhanced = ENHANCED_POOLS[pool.address.toLowerCase()];
+    if (!enhanced || enhanced.base !== pool.tokens.base.symbol || enhanced.quote !== pool.tokens.quote.symbol) return null;
+    return enhanced;
+  }
+
+  /**
+   * Get real price impact Fluid DEX quote using reserve data and concentrated liquidity math
+   */
+  private async getFluidRealPriceImpactQuote(pool: PoolInfo, enhanced: EnhancedPool, inputAmount: bigint, startTime: number, blockTag?: number): Promise<ExactInQuote> {
+    const FLUID_POOL_ABI = [
+      {
+        "inputs": [
+          {"internalType": "uint256", "name": "geometricMean_", "type": "uint256"},
+          {"internalType": "uint256", "name": "upperRange_", "type": "uint256"},
+          {"internalType": "uint256", "name": "lowerRange_", "type": "uint256"},
+          {"internalType": "uint256", "name": "token0SupplyExchangePrice_", "type": "uint256"},
+          {"internalType": "uint256", "name": "token1SupplyExchangePrice_", "type": "uint256"}
+        ],
+        "name": "getCollateralReserves",
+        "outputs": [
+          {"internalType": "struct IFluidDexT1.CollateralReserves", "name": "c_", "type": "tuple", "components": [
+            {"internalType": "uint256", "name": "token0RealReserves", "type": "uint256"},
+            {"internalType": "uint256", "name": "token1RealReserves", "type": "uint256"},
+            {"internalType": "uint256", "name": "token0ImaginaryReserves", "type": "uint256"},
+            {"internalType": "uint256", "name": "token1ImaginaryReserves", "type": "uint256"}
+          ]}
+        ],
+        "stateMutability": "view",
+        "type": "function"
+      },
+      {
+        "inputs": [],
+        "name": "getPricesAndExchangePrices", 
+        "outputs": [],
+        "stateMutability": "view",
+        "type": "function"
+      }
+    ];
+
+    const fluidContract = new ethers.Contract(pool.address, FLUID_POOL_ABI, this.provider);
+    
+    try {
+      // Step 1: Get price data including ranges and exchange prices
+      let priceData: FluidPriceData | null = null;
+      let token0SupplyExchangePrice = BigInt(0);
+      let token1SupplyExchangePrice = BigInt(0);
+      
+      try {
+        await fluidContract.getPricesAndExchangePrices.staticCall({ blockTag });
+      } catch (priceError) {
+        const revertData = getRevertData(priceError);
+        if (revertData && revertData.length > 10) {
+          const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+            ['uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256'],
+            '0x' + revertData.slice(10)
+          );
+          
+          priceData = {
+            centerPrice: decoded[1],
+            upperRange: decoded[2],
+            lowerRange: decoded[3],
+            geometricMean: this.calculateGeometricMean(decoded[2], decoded[3])
+          };
+          
+          // Extract exchange prices (token0SupplyExchangePrice, token1SupplyExchangePrice)
+          // Based on Fluid DEX documentation, these are typically at indices 4 and 5
+          token0SupplyExchangePrice = decoded[4] || BigInt(1e27); // Default 1.0 with 27 decimals
+          token1SupplyExchangePrice = decoded[5] || BigInt(1e27); // Default 1.0 with 27 decimals
+        }
+      }
+      
+      if (!priceData) {
+        throw new Error('Could not extract price data from Fluid pool');
+      }
+      
+      // Step 2: Get collateral reserves using the extracted price parameters
+      const reserves = await fluidContract.getCollateralReserves(
+        priceData.geometricMean,
+        priceData.upperRange,
+        priceData.lowerRange,
+        token0SupplyExchangePrice,
+        token1SupplyExchangePrice,
+        { blockTag } // Same block as the prices above
+      );
+      
+      // Extract reserve values from the returned struct
+      const token0Reserves = reserves.token0RealReserves;
+      const token1Reserves = reserves.token1RealReserves;
+      const baseReserves = enhanced.baseIsToken0
+        ? ethers.formatUnits(token0Reserves, enhanced.reserveDecimals.token0)
+        : ethers.formatUnits(token1Reserves, enhanced.reserveDecimals.token1);
+
+      // Step 3: Calculate real price impact using concentrated liquidity math
+      const outputAmount = this.calculateFluidPriceImpact(pool, inputAmount, Number(baseReserves), priceData);
+      
+      // Log the successful calculation
+      const executionTime = Date.now() - startTime;
+      const outputFormatted = ethers.formatUnits(outputAmount, pool.tokens.quote.decimals);
+      const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
+      
+      this.logFluidQuote(pool, {
+        method: 'direct_simulation',
+        timestamp: startTime,
+        inputAmount: inputFormatted,
+        outputAmount: outputFormatted,
+        exchangeRate: Number(outputFormatted) / Number(inputFormatted),
+        executionTime,
+        priceData: {
+          centerPrice: ethers.formatUnits(priceData.centerPrice, 27),
+          upperRange: ethers.formatUnits(priceData.upperRange, 27),
+          lowerRange: ethers.formatUnits(priceData.lowerRange, 27),
+          geometricMean: ethers.formatUnits(priceData.geometricMean, 27)
+        },
+        reserves: {
+          token0: ethers.formatUnits(token0Reserves, enhanced.reserveDecimals.token0),
+          token1: ethers.formatUnits(token1Reserves, enhanced.reserveDecimals.token1)
+        }
+      });
+
+      // Reserves are live but the impact curve is a heuristic model, not the pool's swap math
+      return { outputAmount, quoteSource: 'estimated' };
+      
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      this.logFluidQuote(pool, {
+        method: 'direct_simulation',
+        timestamp: startTime,
+        inputAmount: ethers.formatUnits(inputAmount, pool.tokens.base.decimals),
+        outputAmount: '0',
+        exchangeRate: 0,
+        executionTime,
+        errors: [error instanceof Error ? error.message : String(error)]
+      });
+      
+      throw error;
+    }
+  }
+
+  /**
+   * Calculate geometric mean of upper and lower price ranges
+   */
+  private calculateGeometricMean(upperRange: bigint, lowerRange: bigint): bigint {
+    // Convert to numbers for calculation, then back to bigint
+    const upper = Number(ethers.formatUnits(upperRange, 27));
+    const lower = Number(ethers.formatUnits(lowerRange, 27));
+    const geometricMean = Math.sqrt(upper * lower);
+    return ethers.parseUnits(geometricMean.toString(), 27);
+  }
+
+  /**
+   * Calculate price impact using concentrated liquidity mathematics
+   */
+  private calculateFluidPriceImpact(
+    pool: PoolInfo,
+    inputAmount: bigint,
+    baseReserves: number,
+    priceData: FluidPriceData
+  ): bigint {
+    const inputFloat = Number(ethers.formatUnits(inputAmount, pool.tokens.base.decimals));
+    const upperRangeFloat = Number(ethers.formatUnits(priceData.upperRange, 27));
+    const lowerRangeFloat = Number(ethers.formatUnits(priceData.lowerRange, 27));
+    const geometricMeanFloat = Number(ethers.formatUnits(priceData.geometricMean, 27));
+
+    // Calculate swap size relative to pool liquidity
+    const swapSizeRatio = inputFloat / baseReserves;
+
+    // Use concentrated liquidity price impact formula
+    // For small swaps, use linear approximation around center price
+    // For larger swaps, use quadratic approximation accounting for range bounds
+
+    let priceImpact: number;
+    let effectivePrice: number;
+
+    if (swapSizeRatio < 0.01) { // < 1% of pool
+      // Linear price impact for small swaps
+      priceImpact = swapSizeRatio * 0.5; // 0.5% impact per 1% of pool
+      effectivePrice = geometricMeanFloat * (1 - priceImpact);
+    } else {
+      // Quadratic price impact for larger swaps with range bounds
+      const rangeUtilization = Math.min(swapSizeRatio * 2, 0.8); // Cap at 80% range utilization
+      priceImpact = swapSizeRatio * (1 + swapSizeRatio * 10); // Quadratic growth
+      priceImpact = Math.min(priceImpact, 0.15); // Cap at 15% maximum impact
+
+      // Adjust price based on range position
+      const rangePosition = (geometricMeanFloat - lowerRangeFloat) / (upperRangeFloat - lowerRangeFloat);
+      const rangeAdjustment = rangePosition * rangeUtilization * 0.1;
+
+      effectivePrice = geometricMeanFloat * (1 - priceImpact + rangeAdjustment);
+    }
+
+    // Calculate output amount
+    const baseOutputAmount = inputFloat * effectivePrice;
+
+    // Apply Fluid DEX fee (0.01% = 0.0001)
+    const fluidFee = 0.0001;
+    const finalOutputAmount = baseOutputAmount * (1 - fluidFee);
+
+    return BigInt(Math.floor(finalOutputAmount * (10 ** pool.tokens.quote.decimals)));
+  }
+
+  /**
+   * Get live Fluid DEX quote by simulating swapIn, the pool reverts with the amount out instead of swapping
+   */
+  private async getFluidLiveQuote(pool: PoolInfo, enhanced: EnhancedPool, inputAmount: bigint, startTime: number, blockTag?: number): Promise<ExactInQuote> {
+    const FLUID_POOL_ABI = [
+      {
+        "inputs": [
+          {"internalType": "bool", "name": "swap0to1_", "type": "bool"},
+          {"internalType": "uint256", "name": "amountIn_", "type": "uint256"},
+          {"internalType": "uint256", "name": "amountOutMin_", "type": "uint256"},
+          {"internalType": "address", "name": "to_", "type": "address"}
+        ],
+        "name": "swapIn",
+        "outputs": [{"internalType": "uint256", "name": "amountOut_", "type": "uint256"}],
+        "stateMutability": "payable",
+        "type": "function"
+      }
+    ];
+
+    // FluidDexSwapResult error ABI for decoding simulation results
+    const SWAP_RESULT_ERROR_ABI = [
+      {
+        "inputs": [{"internalType": "uint256", "name": "amountOut", "type": "uint256"}],
+        "name": "FluidDexSwapResult",
+        "type": "error"
+      }
+    ];
+
+    const fluidContract = new ethers.Contract(pool.address, FLUID_POOL_ABI, this.provider);
+    const errorInterface = new ethers.Interface(SWAP_RESULT_ERROR_ABI);
+
+    // Simulate the swap to ADDRESS_DEAD, nothing is transferred
+    const ADDRESS_DEAD = '0x000000000000000000000000000000000000dEaD';
+    let amountOut: bigint | null = null;
+
+    try {
+      await fluidContract.swapIn.staticCall(
+        enhanced.baseIsToken0,
+        inputAmount,
+        0n, // amountOutMin
+        ADDRESS_DEAD,
+        { blockTag }
+      );
+    } catch (swapError) {
+      const swapRevertData = getRevertData(swapError);
+      try {
+        const decodedError = swapRevertData ? errorInterface.parseError(swapRevertData) : null;
+        if (decodedError?.name === 'FluidDexSwapResult') {
+          amountOut = decodedError.args.amountOut;
+        }
+      } catch (decodeError) {
+        console.warn('Could not decode swap error:', decodeError instanceof Error ? decodeError.message : String(decodeError));
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
+
+    if (amountOut === null) {
+      this.logFluidQuote(pool, {
+        method: 'live_price_calculation',
+        timestamp: startTime,
+        inputAmount: inputFormatted,
+        outputAmount: '0',
+        exchangeRate: 0,
+        executionTime,
+        errors: ['swapIn simulation returned no FluidDexSwapResult']
+      });
+      throw new Error('Live quote calculation failed');
+    }
+
+    const outputFormatted = ethers.formatUnits(amountOut, pool.tokens.quote.decimals);
+    this.logFluidQuote(pool, {
+      method: 'live_price_calculation',
+      timestamp: startTime,
+      inputAmount: inputFormatted,
+      outputAmount: outputFormatted,
+      exchangeRate: Number(outputFormatted) / Number(inputFormatted),
+      executionTime
+    });
+
+    return { outputAmount: amountOut, quoteSource: 'onchain_quoter' };
+  }
+
+  /**
+   * Get estimated Fluid DEX quote using enhanced fee-adjusted calculation with logging
+   */
+  private async getFluidEstimatedQuote(pool: PoolInfo, inputAmount: bigint, startTime: number): Promise<ExactInQuote> {
+    const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
+
+    try {
+      // For stablecoin pairs like USDe/USDT, use decimal-adjusted 1:1 with fee
+      const stablecoins = ['USDC', 'USDT', 'DAI', 'USDe'];
+      const isStablecoinPair = stablecoins.includes(pool.tokens.base.symbol) && stablecoins.includes(pool.tokens.quote.symbol);
+      
+      let estimatedOut: bigint;
+      
+      if (isStablecoinPair) {
+        // Enhanced fee calculation: 0.01% base + 0.01% slippage estimate = 0.02% total
+        const baseFee = 0.0001; // 0.01% Fluid fee
+        const slippageEstimate = 0.0001; // 0.01% slippage estimate
+        const totalFeeRate = 1 - (baseFee + slippageEstimate);
+        const feeAdjustedAmount = BigInt(Math.floor(Number(inputAmount) * totalFeeRate));
+        
+        // Adjust for decimal differences 
+        const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
+        
+        if (decimalDiff > 0) {
+          estimatedOut = feeAdjustedAmount * BigInt(10 ** decimalDiff);
+        } else if (decimalDiff < 0) {
+          estimatedOut = feeAdjustedAmount / BigInt(10 ** Math.abs(decimalDiff));
+        } else {
+          estimatedOut = feeAdjustedAmount;
+        }
+      } else {
+        // For non-stablecoin pairs, use price-based estimation with enhanced slippage modeling
+        const fallbackPrices: Record<string, number> = {
+          'WETH': 4700, 'ETH': 4700, 'USDT': 1, 'USDC': 1, 'WBTC': 115000,
+          'UNI': 18, 'LINK': 25, 'USDe': 1, 'DAI': 1
+        };
+        
+        const basePrice = fallbackPrices[pool.tokens.base.symbol] || 1;
+        const quotePrice = fallbackPrices[pool.tokens.quote.symbol] || 1;
+        const priceRatio = basePrice / quotePrice;
+        
+        // Enhanced slippage modeling based on swap size
+        const inputAmountFloat = Number(inputAmount) / (10 ** pool.tokens.base.decimals);
+        const swapSizeUSD = inputAmountFloat * basePrice;
+        
+        // Dynamic slippage based on swap size
+        let slippageRate = 0.0001; // 0.01% base
+        if (swapSizeUSD > 100000) slippageRate = 0.001; // 0.1% for >$100k
+        if (swapSizeUSD > 1000000) slippageRate = 0.005; // 0.5% for >$1M
+        
+        const baseFee = 0.0001; // 0.01% Fluid fee
+        const totalFeeRate = 1 - (baseFee + slippageRate);
+        
+        const outputAmountFloat = inputAmountFloat * priceRatio * totalFeeRate;
+        estimatedOut = BigInt(Math.floor(outputAmountFloat * (10 ** pool.tokens.quote.decimals)));
+      }
+      
+      // Log the estimation
+      const executionTime = Date.now() - startTime;
+      const outputFormatted = ethers.formatUnits(estimatedOut, pool.tokens.quote.decimals);
+      
+      this.logFluidQuote(pool, {
+        method: 'estimation_fallback',
+        timestamp: startTime,
+        inputAmount: inputFormatted,
+        outputAmount: outputFormatted,
+        exchangeRate: Number(outputFormatted) / Number(inputFormatted),
+        executionTime
+      });
+      
+      return { outputAmount: estimatedOut, quoteSource: 'estimated' };
+      
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      this.logFluidQuote(pool, {
+        method: 'estimation_fallback',
+        timestamp: startTime,
+        inputAmount: inputFormatted,
+        outputAmount: '0',
+        exchangeRate: 0,
+        executionTime,
+        errors: [error instanceof Error ? error.message : String(error)]
+      });
+      
+      // Ultimate fallback - simple 1:1 with basic fee
+      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
+      const basicFeeRate = 0.9998;
+      let basicAmount = BigInt(Math.floor(Number(inputAmount) * basicFeeRate));
+      
+      if (decimalDiff > 0) {
+        basicAmount = basicAmount * BigInt(10 ** decimalDiff);
+      } else if (decimalDiff < 0) {
+        basicAmount = basicAmount / BigInt(10 ** Math.abs(decimalDiff));
+      }
+      return { outputAmount: basicAmount, quoteSource: 'estimated' };
+    }
+  }
+
+  /**
+   * Record a Fluid quote attempt in the quote log
+   */
+  private logFluidQuote(pool: PoolInfo, metrics: {
+    method: 'direct_simulation' | 'live_price_calculation' | 'estimation_fallback';
+    timestamp: number;
+    inputAmount: string;
+    outputAmount: string;
+    exchangeRate: number;
+    executionTime: number;
+    priceData?: {
+      centerPrice: string;
+      upperRange: string;
+      lowerRange: string;
+      geometricMean: string;
+    };
+    reserves?: {
+      token0: string;
+      token1: string;
+    };
+    errors?: string[];
+  }): void {
+    // Store in global logging system for VS Code access
+    storeQuoteLog({
+      poolType: 'fluid',
+      method: metrics.method,
+      timestamp: new Date().toISOString(),
+      inputAmount: metrics.inputAmount,
+      outputAmount: metrics.outputAmount,
+      exchangeRate: metrics.exchangeRate,
+      executionTime: metrics.executionTime,
+      metadata: {
+        poolAddress: pool.address,
+        poolName: pool.name,
+        tokenPair: `${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`,
+        priceData: metrics.priceData,
+        reserves: metrics.reserves,
+        errors: metrics.errors
+      }
+    });
+  }
+
+  describe(_pool: PoolInfo, _side: TradeSide, quoteSource: QuoteSource): string {
+    // Estimated quotes are refined per attempt by the Fluid quote log
+    return quoteSource === 'onchain_quoter' ? 'on_chain_swap_in_simulation' : 'enhanced_price_impact';
+  }
+
+  estimateGas(): bigint {
+    return 150000n;
+  }
+}
+
+export default FluidAdapter;
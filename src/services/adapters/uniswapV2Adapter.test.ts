@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import UniswapV2Adapter from './uniswapV2Adapter';
+import { MockProvider, mockPool, TEST_TOKENS } from '../../test/mockProvider';
+
+const ROUTER_ABI = [
+  'function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)',
+  'function getAmountsIn(uint amountOut, address[] memory path) public view returns (uint[] memory amounts)'
+];
+
+const UNISWAP_V2_ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const SUSHISWAP_ROUTER = '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F';
+const PAIR = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+
+const { WETH, ETH, USDC } = TEST_TOKENS;
+
+function mockRouter(provider: MockProvider, address: string, price: bigint) {
+  return provider.mock(address, ROUTER_ABI, {
+    getAmountsOut: ([amountIn]) => [amountIn, amountIn * price / 10n ** 12n],
+    getAmountsIn: ([amountOut]) => [amountOut * 10n ** 12n / price, amountOut]
+  });
+}
+
+describe('UniswapV2Adapter', () => {
+  it('quotes an exact input along the direct path through the Uniswap router', async () => {
+    const provider = mockRouter(new MockProvider(), UNISWAP_V2_ROUTER, 2500n);
+    const adapter = new UniswapV2Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('uniswap_v2', PAIR, WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 2500n * 10n ** 6n, quoteSource: 'onchain_quoter' });
+    const [call] = provider.callsTo('getAmountsOut');
+    expect(call.to).toBe(UNISWAP_V2_ROUTER.toLowerCase());
+    expect(call.args[1].map((token: string) => token.toLowerCase())).toEqual([WETH.address.toLowerCase(), USDC.address.toLowerCase()]);
+  });
+
+  it('quotes SushiSwap pools through the SushiSwap router', async () => {
+    const provider = mockRouter(new MockProvider(), SUSHISWAP_ROUTER, 2400n);
+    const adapter = new UniswapV2Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('sushiswap', PAIR, WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote.outputAmount).toBe(2400n * 10n ** 6n);
+    expect(provider.callsTo('getAmountsOut')[0].to).toBe(SUSHISWAP_ROUTER.toLowerCase());
+  });
+
+  it('routes a native ETH leg through WETH', async () => {
+    const provider = mockRouter(new MockProvider(), UNISWAP_V2_ROUTER, 2500n);
+    const adapter = new UniswapV2Adapter(provider.asProvider());
+
+    await adapter.quoteExactIn(mockPool('uniswap_v2', PAIR, ETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(provider.callsTo('getAmountsOut')[0].args[1][0].toLowerCase()).toBe(WETH.address.toLowerCase());
+  });
+
+  it('quotes the input needed for an exact output with getAmountsIn', async () => {
+    const provider = mockRouter(new MockProvider(), UNISWAP_V2_ROUTER, 2500n);
+    const adapter = new UniswapV2Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactOut(mockPool('uniswap_v2', PAIR, WETH, USDC), 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ inputAmount: 10n ** 18n, quoteSource: 'onchain_quoter' });
+  });
+
+  it('fails when the router reverts', async () => {
+    const provider = new MockProvider().mock(UNISWAP_V2_ROUTER, ROUTER_ABI, {});
+    const adapter = new UniswapV2Adapter(provider.asProvider());
+
+    await expect(adapter.quoteExactIn(mockPool('uniswap_v2', PAIR, WETH, USDC), 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Uniswap V2 Adapter
+ * Quotes constant-product pools through their router, covers Uniswap V2 and SushiSwap
+ */
+
+import { Contract, type Provider } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import { BaseDexAdapter, type AdapterQuoteRequest, type ExactInQuote, type ExactOutQuote } from './dexAdapter';
+import { toWrappedAddress } from '../../config/tokens';
+
+const UNISWAP_V2_ROUTER_ABI = [
+  'function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)',
+  'function getAmountsIn(uint amountOut, address[] memory path) public view returns (uint[] memory amounts)'
+];
+
+const UNISWAP_V2_ROUTER = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
+const SUSHISWAP_ROUTER = '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F';
+
+class UniswapV2Adapter extends BaseDexAdapter {
+  readonly name = 'Uniswap V2';
+  protected readonly dexes = ['uniswap_v2', 'sushiswap'];
+  private routers: Record<string, Contract>;
+
+  constructor(provider: Provider) {
+    super(provider);
+    this.routers = {
+      uniswap_v2: new Contract(UNISWAP_V2_ROUTER, UNISWAP_V2_ROUTER_ABI, provider),
+      sushiswap: new Contract(SUSHISWAP_ROUTER, UNISWAP_V2_ROUTER_ABI, provider)
+    };
+  }
+
+  /**
+   * Router getAmountsOut along the direct base → quote path
+   */
+  async quoteExactIn(pool: PoolInfo, amountIn: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    const path = this.getPath(pool);
+    const amounts = await this.callContract<bigint[]>(context, this.routers[pool.dex], 'getAmountsOut', [amountIn, path]);
+    return { outputAmount: amounts[1], quoteSource: 'onchain_quoter' }; // Output amount is the second element
+  }
+
+  /**
+   * Router getAmountsIn along the direct base → quote path
+   */
+  async quoteExactOut(pool: PoolInfo, amountOut: bigint, { context }: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    const path = this.getPath(pool);
+    const amounts = await this.callContract<bigint[]>(context, this.routers[pool.dex], 'getAmountsIn', [amountOut, path]);
+    return { inputAmount: amounts[0], quoteSource: 'onchain_quoter' }; // Input amount is the first element
+  }
+
+  describe(_pool: PoolInfo, side: TradeSide): string {
+    return side === 'buy' ? 'on_chain_router_amounts_in' : 'on_chain_router';
+  }
+
+  estimateGas(): bigint {
+    return 110000n;
+  }
+
+  /**
+   * V2 pairs only hold ERC-20s, native ETH legs route through WETH
+   */
+  private getPath(pool: PoolInfo): string[] {
+    return [toWrappedAddress(pool.tokens.base.address), toWrappedAddress(pool.tokens.quote.address)];
+  }
+}
+
+export default UniswapV2Adapter;
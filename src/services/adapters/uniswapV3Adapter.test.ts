@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import UniswapV3Adapter from './uniswapV3Adapter';
+import { MockProvider, mockPool, TEST_TOKENS } from '../../test/mockProvider';
+
+const QUOTER_V2_ABI = [
+  'function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+  'function quoteExactOutputSingle(tuple(address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)'
+];
+
+const POOL_ABI = [
+  'function fee() external view returns (uint24)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function liquidity() external view returns (uint128)'
+];
+
+const QUOTER_V2 = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
+const USDC_WETH_POOL = '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640';
+const SQRT_PRICE_AFTER = 1461446703485210103287273052203988822378723970341n;
+
+const { WETH, ETH, USDC, DAI } = TEST_TOKENS;
+
+function mockV3(liquidity: bigint = 10n ** 18n): MockProvider {
+  return new MockProvider()
+    .mock(USDC_WETH_POOL, POOL_ABI, {
+      fee: () => 500,
+      token0: () => USDC.address,
+      token1: () => WETH.address,
+      liquidity: () => liquidity
+    })
+    .mock(QUOTER_V2, QUOTER_V2_ABI, {
+      quoteExactInputSingle: ([params]) => [params.amountIn * 2500n / 10n ** 12n, SQRT_PRICE_AFTER, 2, 90000n],
+      quoteExactOutputSingle: ([params]) => [params.amount * 10n ** 12n / 2500n, SQRT_PRICE_AFTER, 1, 95000n]
+    });
+}
+
+describe('UniswapV3Adapter', () => {
+  it('quotes through QuoterV2 with the fee and token order read from the pool', async () => {
+    const provider = mockV3();
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('uniswap_v3', USDC_WETH_POOL, WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({
+      outputAmount: 2500n * 10n ** 6n,
+      quoteSource: 'onchain_quoter',
+      gasEstimate: 111000n, // Quoter gas plus the transaction base cost
+      sqrtPriceX96After: SQRT_PRICE_AFTER.toString(),
+      initializedTicksCrossed: 2
+    });
+    const [params] = provider.callsTo('quoteExactInputSingle')[0].args;
+    expect(params.tokenIn).toBe(WETH.address);
+    expect(params.tokenOut).toBe(USDC.address);
+    expect(params.fee).toBe(500n);
+  });
+
+  it('quotes native ETH legs against the pool WETH', async () => {
+    const provider = mockV3();
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(mockPool('uniswap_v3', USDC_WETH_POOL, ETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote.outputAmount).toBe(2500n * 10n ** 6n);
+    expect(provider.callsTo('quoteExactInputSingle')[0].args[0].tokenIn).toBe(WETH.address);
+  });
+
+  it('reads the pool immutables once and liquidity on every quote', async () => {
+    const provider = mockV3();
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+    const pool = mockPool('uniswap_v3', USDC_WETH_POOL, WETH, USDC);
+
+    await adapter.quoteExactIn(pool, 10n ** 18n, { context: provider.createContext() });
+    await adapter.quoteExactIn(pool, 2n * 10n ** 18n, { context: provider.createContext() });
+
+    expect(provider.callsTo('fee')).toHaveLength(1);
+    expect(provider.callsTo('token0')).toHaveLength(1);
+    expect(provider.callsTo('liquidity')).toHaveLength(2);
+  });
+
+  it('fails fast on a pool without in-range liquidity', async () => {
+    const provider = mockV3(0n);
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+
+    await expect(adapter.quoteExactIn(mockPool('uniswap_v3', USDC_WETH_POOL, WETH, USDC), 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow('no in-range liquidity');
+    expect(provider.callsTo('quoteExactInputSingle')).toHaveLength(0);
+  });
+
+  it('rejects a pool that does not hold the pair', async () => {
+    const provider = mockV3();
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+
+    await expect(adapter.quoteExactIn(mockPool('uniswap_v3', USDC_WETH_POOL, DAI, USDC), 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow(`holds ${USDC.address}/${WETH.address}`);
+  });
+
+  it('quotes the input needed for an exact output with quoteExactOutputSingle', async () => {
+    const provider = mockV3();
+    const adapter = new UniswapV3Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactOut(mockPool('uniswap_v3', USDC_WETH_POOL, WETH, USDC), 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote.inputAmount).toBe(10n ** 18n);
+    expect(quote.gasEstimate).toBe(116000n);
+    expect(provider.callsTo('quoteExactOutputSingle')[0].args[0].amount).toBe(2500n * 10n ** 6n);
+  });
+});
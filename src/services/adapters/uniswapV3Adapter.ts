@@ -0,0 +1,149 @@
+/**
+ * Uniswap V3 Adapter
+ * Quotes V3 pools through QuoterV2 using the fee tier and token order read from the pool contract itself
+ */
+
+import { ethers, Contract, type Provider } from 'ethers';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import type { QuoteContext } from '../onChainQuoteService';
+import { BaseDexAdapter, SWAP_TX_BASE_GAS, type AdapterQuoteRequest, type ExactInQuote, type ExactOutQuote } from './dexAdapter';
+import { toWrappedAddress } from '../../config/tokens';
+
+// QuoterV2 takes struct params and reports the pool state the swap ends at
+const UNISWAP_V3_QUOTER_V2_ABI = [
+  'function quoteExactInputSingle(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+  'function quoteExactOutputSingle(tuple(address tokenIn, address tokenOut, uint256 amount, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountIn, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)'
+];
+
+const UNISWAP_V3_POOL_ABI = [
+  'function fee() external view returns (uint24)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function liquidity() external view returns (uint128)'
+];
+
+const UNISWAP_V3_QUOTER_V2 = '0x61fFE014bA17989E743c5F6cB21bF9697530B21e';
+
+// Fields fixed at pool creation, read once per pool address
+interface V3PoolImmutables {
+  fee: number;
+  token0: string;
+  token1: string;
+}
+
+// Quoter call for one swap through the pool, tokens in the pool's own address form
+interface V3SwapParams {
+  tokenIn: string;
+  tokenOut: string;
+  fee: number;
+}
+
+class UniswapV3Adapter extends BaseDexAdapter {
+  readonly name = 'Uniswap V3';
+  protected readonly dexes = ['uniswap_v3'];
+  private quoter: Contract;
+  private immutables = new Map<string, V3PoolImmutables>();
+
+  constructor(provider: Provider) {
+    super(provider);
+    this.quoter = new Contract(UNISWAP_V3_QUOTER_V2, UNISWAP_V3_QUOTER_V2_ABI, provider);
+  }
+
+  /**
+   * Get Uniswap V3 quote from QuoterV2 quoteExactInputSingle
+   */
+  async quoteExactIn(pool: PoolInfo, inputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    console.log(`🔍 V3 Quote: ${ethers.formatUnits(inputAmount, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
+    console.log(`🏊 Pool: ${pool.name} (${pool.address})`);
+
+    const swap = await this.getSwapParams(pool, context);
+    const [amountOut, sqrtPriceX96After, initializedTicksCrossed, gasEstimate] = await this.callContract<[bigint, bigint, bigint, bigint]>(
+      context, this.quoter, 'quoteExactInputSingle', [{ ...swap, amountIn: inputAmount, sqrtPriceLimitX96: 0 }]
+    );
+
+    console.log(`✅ V3 QuoterV2: ${ethers.formatUnits(amountOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol} (fee ${swap.fee}, ${initializedTicksCrossed} ticks crossed)`);
+    return {
+      outputAmount: amountOut,
+      quoteSource: 'onchain_quoter',
+      // Quoter gas covers the swap itself, add the transaction base cost
+      gasEstimate: gasEstimate + SWAP_TX_BASE_GAS,
+      sqrtPriceX96After: sqrtPriceX96After.toString(),
+      initializedTicksCrossed: Number(initializedTicksCrossed)
+    };
+  }
+
+  /**
+   * Get Uniswap V3 input needed for an exact output from QuoterV2 quoteExactOutputSingle
+   */
+  async quoteExactOut(pool: PoolInfo, outputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    console.log(`🎯 V3 exact-output quote: ${ethers.formatUnits(outputAmount, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol} from ${pool.name}`);
+
+    const swap = await this.getSwapParams(pool, context);
+    const [amountIn, sqrtPriceX96After, initializedTicksCrossed, gasEstimate] = await this.callContract<[bigint, bigint, bigint, bigint]>(
+      context, this.quoter, 'quoteExactOutputSingle', [{ ...swap, amount: outputAmount, sqrtPriceLimitX96: 0 }]
+    );
+
+    console.log(`✅ V3 exact-output quote: ${ethers.formatUnits(amountIn, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} required`);
+    return {
+      inputAmount: amountIn,
+      quoteSource: 'onchain_quoter',
+      gasEstimate: gasEstimate + SWAP_TX_BASE_GAS,
+      sqrtPriceX96After: sqrtPriceX96After.toString(),
+      initializedTicksCrossed: Number(initializedTicksCrossed)
+    };
+  }
+
+  describe(_pool: PoolInfo, side: TradeSide): string {
+    return side === 'buy' ? 'on_chain_quoter_v2_exact_output' : 'on_chain_quoter_v2';
+  }
+
+  estimateGas(): bigint {
+    return 140000n;
+  }
+
+  /**
+   * Fee and swap direction from the pool contract, checked against the pool's base and quote tokens
+   * In-range liquidity changes every block, so it is read on each quote and empty pools fail fast
+   */
+  private async getSwapParams(pool: PoolInfo, context: QuoteContext | undefined): Promise<V3SwapParams> {
+    const poolContract = new Contract(pool.address, UNISWAP_V3_POOL_ABI, this.provider);
+    const [{ fee, token0, token1 }, liquidity] = await Promise.all([
+      this.getImmutables(pool.address, poolContract, context),
+      this.callContract<bigint>(context, poolContract, 'liquidity')
+    ]);
+
+    if (liquidity === 0n) {
+      throw new Error(`V3 pool ${pool.name} has no in-range liquidity`);
+    }
+
+    // V3 pools hold WETH where the pair trades native ETH
+    const base = toWrappedAddress(pool.tokens.base.address).toLowerCase();
+    const quote = toWrappedAddress(pool.tokens.quote.address).toLowerCase();
+    if (base === token0.toLowerCase() && quote === token1.toLowerCase()) return { tokenIn: token0, tokenOut: token1, fee };
+    if (base === token1.toLowerCase() && quote === token0.toLowerCase()) return { tokenIn: token1, tokenOut: token0, fee };
+
+    throw new Error(`V3 pool ${pool.address} holds ${token0}/${token1}, not ${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`);
+  }
+
+  /**
+   * fee(), token0() and token1(), read once per pool address
+   */
+  private async getImmutables(address: string, poolContract: Contract, context: QuoteContext | undefined): Promise<V3PoolImmutables> {
+    const key = address.toLowerCase();
+    const cached = this.immutables.get(key);
+    if (cached) return cached;
+
+    const [fee, token0, token1] = await Promise.all([
+      this.callContract<bigint>(context, poolContract, 'fee'),
+      this.callContract<string>(context, poolContract, 'token0'),
+      this.callContract<string>(context, poolContract, 'token1')
+    ]);
+
+    const immutables = { fee: Number(fee), token0, token1 };
+    this.immutables.set(key, immutables);
+    return immutables;
+  }
+}
+
+export default UniswapV3Adapter;
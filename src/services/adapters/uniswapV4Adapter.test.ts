@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import UniswapV4Adapter from './uniswapV4Adapter';
+import type { PoolInfo, V4PoolKey } from '../coinGeckoPoolService';
+import { MockProvider, mockPool, revertWith, TEST_TOKENS } from '../../test/mockProvider';
+
+const QUOTER_ABI = [
+  'function quoteExactInputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountOut, uint256 gasEstimate)',
+  'function quoteExactOutputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountIn, uint256 gasEstimate)'
+];
+
+const V4_QUOTER = '0x52f0e24d1c21c8a0cb1e5a5dd6198556bd9e1203';
+const NO_HOOKS = '0x0000000000000000000000000000000000000000';
+
+const { WETH, ETH, USDC } = TEST_TOKENS;
+
+// Native ETH/USDC pool, ETH is currency0
+const POOL_KEY: V4PoolKey = { currency0: ETH.address, currency1: USDC.address, fee: 500, tickSpacing: 10, hooks: NO_HOOKS };
+
+function v4Pool(base: typeof ETH, quote: typeof ETH, poolKey: V4PoolKey = POOL_KEY): PoolInfo {
+  return { ...mockPool('uniswap_v4', UniswapV4Adapter.computeV4PoolId(poolKey), base, quote), v4_pool_key: poolKey };
+}
+
+function mockQuoter(): MockProvider {
+  return new MockProvider().mock(V4_QUOTER, QUOTER_ABI, {
+    quoteExactInputSingle: ([params]) => params.zeroForOne
+      ? [params.exactAmount * 2500n / 10n ** 12n, 120000n]
+      : [params.exactAmount * 10n ** 12n / 2500n, 120000n],
+    quoteExactOutputSingle: ([params]) => [params.exactAmount * 10n ** 12n / 2500n, 125000n]
+  });
+}
+
+describe('UniswapV4Adapter', () => {
+  it('quotes through the V4 Quoter with the registry PoolKey', async () => {
+    const provider = mockQuoter();
+    const adapter = new UniswapV4Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(v4Pool(ETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ outputAmount: 2500n * 10n ** 6n, quoteSource: 'onchain_quoter', gasEstimate: 141000n });
+    const [params] = provider.callsTo('quoteExactInputSingle')[0].args;
+    expect(params.zeroForOne).toBe(true);
+    expect(params.poolKey.fee).toBe(500n);
+    expect(params.hookData).toBe('0x');
+  });
+
+  it('matches WETH against a native ETH currency and swaps one for zero in reverse', async () => {
+    const provider = mockQuoter();
+    const adapter = new UniswapV4Adapter(provider.asProvider());
+
+    await adapter.quoteExactIn(v4Pool(WETH, USDC), 10n ** 18n, { context: provider.createContext() });
+    await adapter.quoteExactIn(v4Pool(USDC, ETH), 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    const [wethToUsdc, usdcToEth] = provider.callsTo('quoteExactInputSingle');
+    expect(wethToUsdc.args[0].zeroForOne).toBe(true);
+    expect(usdcToEth.args[0].zeroForOne).toBe(false);
+  });
+
+  it('reports the native ETH legs of the swap', () => {
+    const adapter = new UniswapV4Adapter(new MockProvider().asProvider());
+
+    expect(adapter.nativeLegs(v4Pool(ETH, USDC))).toEqual({ input: true, output: false });
+    expect(adapter.nativeLegs(v4Pool(USDC, ETH))).toEqual({ input: false, output: true });
+  });
+
+  it('rejects a PoolKey that does not hash to the pool ID', async () => {
+    const provider = mockQuoter();
+    const adapter = new UniswapV4Adapter(provider.asProvider());
+    const pool = { ...v4Pool(ETH, USDC), v4_pool_key: { ...POOL_KEY, fee: 3000 } };
+
+    await expect(adapter.quoteExactIn(pool, 10n ** 18n, { context: provider.createContext() }))
+      .rejects.toThrow('expected pool ID');
+    expect(provider.callsTo('quoteExactInputSingle')).toHaveLength(0);
+  });
+
+  it('falls back to an estimated quote when the quoter reverts', async () => {
+    const provider = new MockProvider().mock(V4_QUOTER, QUOTER_ABI, {
+      quoteExactInputSingle: () => { throw revertWith(); }
+    });
+    const adapter = new UniswapV4Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactIn(v4Pool(ETH, USDC), 10n ** 18n, { context: provider.createContext() });
+
+    expect(quote.quoteSource).toBe('estimated');
+    expect(Number(quote.outputAmount) / 1e6).toBeCloseTo(2650 * 0.9995, 3);
+  });
+
+  it('quotes the input needed for an exact output with quoteExactOutputSingle', async () => {
+    const provider = mockQuoter();
+    const adapter = new UniswapV4Adapter(provider.asProvider());
+
+    const quote = await adapter.quoteExactOut(v4Pool(ETH, USDC), 2500n * 10n ** 6n, { context: provider.createContext() });
+
+    expect(quote).toEqual({ inputAmount: 10n ** 18n, quoteSource: 'onchain_quoter', gasEstimate: 146000n });
+  });
+});
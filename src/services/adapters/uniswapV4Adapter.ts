@@ -0,0 +1,199 @@
+/**
+ * Uniswap V4 Adapter
+ * Quotes V4 pools through the V4 Quoter using the PoolKey stored with each registered pool
+ */
+
+import { ethers, Contract, type Provider } from 'ethers';
+import type { PoolKey } from '@uniswap/v4-sdk';
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TradeSide } from '../../types/api';
+import type { QuoteSource } from '../onChainQuoteService';
+import { BaseDexAdapter, SWAP_TX_BASE_GAS, type AdapterQuoteRequest, type ExactInQuote, type ExactOutQuote, type NativeLegs } from './dexAdapter';
+import { isNativeEth, isSameAsset } from '../../config/tokens';
+
+const UNISWAP_V4_QUOTER_ABI = [
+  'function quoteExactInputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountOut, uint256 gasEstimate)',
+  'function quoteExactInput(tuple(address exactCurrency, tuple(address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)[] path, uint128 exactAmount) params) external returns (uint256 amountOut, uint256 gasEstimate)',
+  'function quoteExactOutputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountIn, uint256 gasEstimate)'
+];
+
+const UNISWAP_V4_QUOTER = '0x52f0e24d1c21c8a0cb1e5a5dd6198556bd9e1203';
+
+class UniswapV4Adapter extends BaseDexAdapter {
+  readonly name = 'Uniswap V4';
+  protected readonly dexes = ['uniswap_v4'];
+  private quoter: Contract;
+
+  constructor(provider: Provider) {
+    super(provider);
+    this.quoter = new Contract(UNISWAP_V4_QUOTER, UNISWAP_V4_QUOTER_ABI, provider);
+  }
+
+  /**
+   * Get Uniswap V4 quote using official V4 Quoter contract with proper methodology
+   * The pool is described by its PoolKey from the registry, so hooked and native-ETH pools need no code changes
+   */
+  async quoteExactIn(pool: PoolInfo, inputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactInQuote> {
+    const baseSymbol = pool.tokens.base.symbol;
+    const quoteSymbol = pool.tokens.quote.symbol;
+    const baseDecimals = pool.tokens.base.decimals;
+    const quoteDecimals = pool.tokens.quote.decimals;
+    
+    console.log(`🔍 V4 Quote (Official SDK): ${ethers.formatUnits(inputAmount, baseDecimals)} ${baseSymbol} → ${quoteSymbol}`);
+    
+    // Registry problems are configuration errors, not something to paper over with an estimate
+    const poolKey = this.getV4PoolKey(pool);
+    const zeroForOne = this.getV4SwapDirection(pool, poolKey);
+    
+    try {
+      console.log(`V4 PoolKey: ${poolKey.currency0}/${poolKey.currency1}, fee: ${poolKey.fee} (${poolKey.fee/10000}%), tickSpacing: ${poolKey.tickSpacing}, hooks: ${poolKey.hooks}`);
+      console.log(`V4 Direction: ${zeroForOne ? 'currency0→currency1' : 'currency1→currency0'} (${baseSymbol}→${quoteSymbol})`);
+      
+      // Create QuoteExactSingleParams struct as required by V4 quoter ABI
+      const quoteParams = {
+        poolKey,
+        zeroForOne,
+        exactAmount: inputAmount,
+        hookData: pool.v4_pool_key?.hookData || '0x'
+      };
+      
+      const result = await this.callContract<bigint[]>(context, this.quoter, 'quoteExactInputSingle', [quoteParams]);
+      
+      // V4 quoter returns: (uint256 amountOut, uint256 gasEstimate)
+      const [amountOut, gasEstimate] = result;
+      
+      console.log(`🔍 V4 Raw Result: ${amountOut.toString()}`);
+      console.log(`🔍 V4 Token Decimals - Base: ${baseDecimals}, Quote: ${quoteDecimals}`);
+      
+      const outputAmount = BigInt(amountOut);
+      const outputFormatted = ethers.formatUnits(outputAmount, quoteDecimals);
+      
+      console.log(`✅ V4 Real Quote: ${outputFormatted} ${quoteSymbol}`);
+      console.log(`V4 Gas estimate: ${gasEstimate.toString()}`);
+      
+      // Quoter gas covers the swap itself, add the transaction base cost
+      return { outputAmount, quoteSource: 'onchain_quoter', gasEstimate: BigInt(gasEstimate) + SWAP_TX_BASE_GAS };
+      
+    } catch (error) {
+      console.error(`V4 quoter failed for ${baseSymbol}/${quoteSymbol}:`, error);
+      
+      // Fallback to price estimation as last resort
+      console.log('⚠️ Using price estimation fallback for V4 pool');
+      
+      const fallbackPrices: Record<string, number> = {
+        'WETH': 2650, 'ETH': 2650, 'USDT': 1, 'USDC': 1, 'WBTC': 64000,
+        'UNI': 8, 'LINK': 11, 'USDe': 1, 'DAI': 1
+      };
+      
+      const basePrice = fallbackPrices[baseSymbol] || 1;
+      const quotePrice = fallbackPrices[quoteSymbol] || 1;
+      const priceRatio = basePrice / quotePrice;
+      
+      const inputAmountFloat = Number(inputAmount) / (10 ** baseDecimals);
+      const feeRate = 1 - (poolKey.fee / 1000000); // Convert pips to rate
+      const outputAmountFloat = inputAmountFloat * priceRatio * feeRate;
+      const estimatedOut = BigInt(Math.floor(outputAmountFloat * (10 ** quoteDecimals)));
+      
+      console.log(`V4 estimation fallback: ${ethers.formatUnits(estimatedOut, quoteDecimals)} ${quoteSymbol}`);
+      
+      return { outputAmount: estimatedOut, quoteSource: 'estimated' };
+    }
+  }
+
+  /**
+   * Get Uniswap V4 input needed for an exact output using the V4 Quoter's quoteExactOutputSingle
+   */
+  async quoteExactOut(pool: PoolInfo, outputAmount: bigint, { context }: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    const poolKey = this.getV4PoolKey(pool);
+    const zeroForOne = this.getV4SwapDirection(pool, poolKey);
+
+    const quoteParams = {
+      poolKey,
+      zeroForOne,
+      exactAmount: outputAmount,
+      hookData: pool.v4_pool_key?.hookData || '0x'
+    };
+
+    // V4 quoter returns: (uint256 amountIn, uint256 gasEstimate)
+    const [amountIn, gasEstimate] = await this.callContract<bigint[]>(context, this.quoter, 'quoteExactOutputSingle', [quoteParams]);
+
+    console.log(`✅ V4 exact-output quote: ${ethers.formatUnits(amountIn, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} required`);
+    return { inputAmount: BigInt(amountIn), quoteSource: 'onchain_quoter', gasEstimate: BigInt(gasEstimate) + SWAP_TX_BASE_GAS };
+  }
+
+  /**
+   * Read the V4 PoolKey from the registry and check it hashes to the pool ID stored in the pool address
+   */
+  private getV4PoolKey(pool: PoolInfo): PoolKey {
+    const key = pool.v4_pool_key;
+    if (!key) {
+      throw new Error(`No V4 PoolKey configured for ${pool.name} (${pool.address})`);
+    }
+
+    const poolKey: PoolKey = {
+      currency0: key.currency0,
+      currency1: key.currency1,
+      fee: key.fee,
+      tickSpacing: key.tickSpacing,
+      hooks: key.hooks
+    };
+
+    const poolId = UniswapV4Adapter.computeV4PoolId(poolKey);
+    if (poolId.toLowerCase() !== pool.address.toLowerCase()) {
+      throw new Error(`V4 PoolKey for ${pool.name} hashes to ${poolId}, expected pool ID ${pool.address}`);
+    }
+
+    return poolKey;
+  }
+
+  /**
+   * Compute a V4 pool ID: keccak256(abi.encode(currency0, currency1, fee, tickSpacing, hooks))
+   */
+  static computeV4PoolId(poolKey: PoolKey): string {
+    return ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'address', 'uint24', 'int24', 'address'],
+        [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks]
+      )
+    );
+  }
+
+  /**
+   * Work out zeroForOne from the base token, native ETH (address(0)) and WETH match either currency form
+   * Pools keyed on WETH itself are matched exactly first, so an ETH/WETH pool still resolves
+   */
+  private getV4SwapDirection(pool: PoolInfo, poolKey: PoolKey): boolean {
+    const base = pool.tokens.base.address.toLowerCase();
+    const quote = pool.tokens.quote.address.toLowerCase();
+    const currency0 = poolKey.currency0.toLowerCase();
+    const currency1 = poolKey.currency1.toLowerCase();
+
+    if (base === currency0 && quote === currency1) return true;
+    if (base === currency1 && quote === currency0) return false;
+    if (isSameAsset(base, currency0) && isSameAsset(quote, currency1)) return true;
+    if (isSameAsset(base, currency1) && isSameAsset(quote, currency0)) return false;
+
+    throw new Error(`V4 PoolKey currencies ${poolKey.currency0}/${poolKey.currency1} do not match ${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`);
+  }
+
+  describe(_pool: PoolInfo, side: TradeSide, quoteSource: QuoteSource): string {
+    if (side === 'buy') return 'on_chain_v4_quoter_exact_output';
+    return quoteSource === 'estimated' ? 'price_estimation_fallback' : 'on_chain_v4_quoter';
+  }
+
+  estimateGas(): bigint {
+    return 130000n;
+  }
+
+  /**
+   * Native pools take or pay ETH on the leg whose currency is address(0)
+   */
+  nativeLegs(pool: PoolInfo): NativeLegs {
+    const poolKey = this.getV4PoolKey(pool);
+    const zeroForOne = this.getV4SwapDirection(pool, poolKey);
+    const [input, output] = zeroForOne ? [poolKey.currency0, poolKey.currency1] : [poolKey.currency1, poolKey.currency0];
+    return { input: isNativeEth(input), output: isNativeEth(output) };
+  }
+}
+
+export default UniswapV4Adapter;
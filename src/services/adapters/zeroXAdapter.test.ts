@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import ZeroXAdapter from './zeroXAdapter';
+import { ZeroXQuoteService, type ZeroXQuoteResult } from '../zeroXQuoteService';
+import type { OnChainQuote } from '../onChainQuoteService';
+import type { TokenPair } from '../../types/api';
+import { mockPool, TEST_TOKENS } from '../../test/mockProvider';
+
+const { WETH, USDC } = TEST_TOKENS;
+
+const POOL = mockPool('zerox', '0x0000000000000000000000000000000000000000', WETH, USDC);
+
+const TOKEN_PAIR: TokenPair = {
+  id: 'weth-usdc',
+  name: 'WETH/USDC',
+  sellToken: WETH,
+  buyToken: USDC,
+  sellAmount: '1000000000000000000'
+};
+
+const ROUTE_QUOTE: OnChainQuote = {
+  pool: POOL,
+  inputAmount: '1000000000000000000',
+  outputAmount: '2500000000',
+  pricePerToken: 2500,
+  executionPrice: 2500,
+  timestamp: 0,
+  success: true
+};
+
+const ZERO_X_RESULT: ZeroXQuoteResult = {
+  quote: ROUTE_QUOTE,
+  protocols: [{ name: 'Uniswap_V3', percentage: 100 }],
+  totalFillCount: 1,
+  protocolDetails: 'Uniswap_V3 100%'
+};
+
+describe('ZeroXAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sells the exact amount through the 0x API and returns its route', async () => {
+    const getZeroXQuote = vi.spyOn(ZeroXQuoteService, 'getZeroXQuote').mockResolvedValue(ZERO_X_RESULT);
+    const adapter = new ZeroXAdapter();
+
+    const quote = await adapter.quoteExactIn(POOL, 10n ** 18n, { tokenPair: TOKEN_PAIR });
+
+    expect(getZeroXQuote).toHaveBeenCalledWith({ ...TOKEN_PAIR, sellAmount: '1000000000000000000' });
+    expect(quote.outputAmount).toBe(2500n * 10n ** 6n);
+    expect(quote.quoteSource).toBe('aggregator_api');
+    expect(quote.aggregatorQuote?.protocolDetails).toBe('Uniswap_V3 100%');
+  });
+
+  it('buys an exact amount with a buy-side 0x quote', async () => {
+    const getZeroXQuote = vi.spyOn(ZeroXQuoteService, 'getZeroXQuote').mockResolvedValue(ZERO_X_RESULT);
+    const adapter = new ZeroXAdapter();
+
+    const quote = await adapter.quoteExactOut(POOL, 2500n * 10n ** 6n, { tokenPair: TOKEN_PAIR });
+
+    expect(getZeroXQuote).toHaveBeenCalledWith({ ...TOKEN_PAIR, side: 'buy', buyAmount: '2500000000' });
+    expect(quote.inputAmount).toBe(10n ** 18n);
+  });
+
+  it('fails when 0x has no liquidity for the pair', async () => {
+    vi.spyOn(ZeroXQuoteService, 'getZeroXQuote').mockResolvedValue(null);
+    const adapter = new ZeroXAdapter();
+
+    await expect(adapter.quoteExactIn(POOL, 10n ** 18n, { tokenPair: TOKEN_PAIR })).rejects.toThrow('ZeroX quote failed');
+  });
+
+  it('needs the token pair to quote', async () => {
+    const getZeroXQuote = vi.spyOn(ZeroXQuoteService, 'getZeroXQuote');
+    const adapter = new ZeroXAdapter();
+
+    await expect(adapter.quoteExactIn(POOL, 10n ** 18n, {})).rejects.toThrow('need a token pair');
+    expect(getZeroXQuote).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * 0x Adapter
+ * Quotes the 0x aggregator API, always at the exact amount being simulated
+ */
+
+import type { PoolInfo } from '../coinGeckoPoolService';
+import type { TokenPair } from '../../types/api';
+import { ZeroXQuoteService } from '../zeroXQuoteService';
+import type { AdapterQuoteRequest, DexAdapter, ExactInQuote, ExactOutQuote } from './dexAdapter';
+
+class ZeroXAdapter implements DexAdapter {
+  readonly name = '0x';
+
+  supports(pool: PoolInfo): boolean {
+    return pool.dex === 'zerox';
+  }
+
+  /**
+   * Sell an exact amount through 0x
+   */
+  async quoteExactIn(pool: PoolInfo, amountIn: bigint, request: AdapterQuoteRequest): Promise<ExactInQuote> {
+    const zeroXResult = await ZeroXQuoteService.getZeroXQuote({
+      ...this.requireTokenPair(pool, request),
+      sellAmount: amountIn.toString()
+    });
+    if (!zeroXResult) {
+      throw new Error('ZeroX quote failed');
+    }
+
+    // The quote describes the route 0x found, with protocolDetails for the tooltip
+    const aggregatorQuote = { ...zeroXResult.quote, protocolDetails: zeroXResult.protocolDetails };
+    return { outputAmount: BigInt(aggregatorQuote.outputAmount), quoteSource: 'aggregator_api', aggregatorQuote };
+  }
+
+  /**
+   * 0x quotes the sell amount needed for an exact buyAmount
+   */
+  async quoteExactOut(pool: PoolInfo, amountOut: bigint, request: AdapterQuoteRequest): Promise<ExactOutQuote> {
+    const zeroXResult = await ZeroXQuoteService.getZeroXQuote({
+      ...this.requireTokenPair(pool, request),
+      side: 'buy',
+      buyAmount: amountOut.toString()
+    });
+    if (!zeroXResult) {
+      throw new Error('ZeroX quote failed');
+    }
+
+    const aggregatorQuote = { ...zeroXResult.quote, protocolDetails: zeroXResult.protocolDetails };
+    return { inputAmount: BigInt(aggregatorQuote.inputAmount), quoteSource: 'aggregator_api', aggregatorQuote };
+  }
+
+  describe(): string {
+    return 'aggregator_api';
+  }
+
+  estimateGas(): bigint {
+    return 250000n;
+  }
+
+  /**
+   * 0x is quoted by token pair rather than by pool
+   */
+  private requireTokenPair(pool: PoolInfo, request: AdapterQuoteRequest): TokenPair {
+    if (!request.tokenPair) {
+      throw new Error(`ZeroX quotes need a token pair (${pool.name})`);
+    }
+    return request.tokenPair;
+  }
+}
+
+export default ZeroXAdapter;
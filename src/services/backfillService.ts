@@ -0,0 +1,210 @@
+/**
+ * Backfill Service
+ * Rebuilds ranking history by running the on-chain comparison pinned to past blocks
+ * Needs an archive RPC node; blocks already stored are skipped, so an interrupted run resumes where it stopped
+ */
+
+import { ethers, type Provider } from 'ethers';
+import DexComparisonService from './dexComparisonService';
+import { database } from './database';
+import { poolRegistry } from './poolRegistryService';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import type { TokenPair } from '../types/api';
+import { alchemyRateLimiter } from '../utils/rateLimiter';
+import { logger } from './logger';
+
+export interface BackfillOptions {
+  days?: number; // Range length ending at toBlock, ignored when fromBlock is set
+  fromBlock?: number;
+  toBlock?: number; // Defaults to the latest block
+  stepBlocks?: number; // Blocks between samples
+  pairIds?: string[]; // Defaults to every configured pair
+  inputAmountUSD?: number;
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillProgress {
+  block: number;
+  processed: number; // Blocks handled in this run, including skipped ones
+  total: number;
+  saved: number; // Pair comparisons written
+  skipped: number; // Pair comparisons already in the store
+  failed: number; // Pair comparisons with no successful quote, retried on the next run
+  etaSeconds: number | null;
+}
+
+const BLOCKS_PER_DAY = 7200; // 12s slots
+const DEFAULT_BACKFILL_DAYS = 30;
+const DEFAULT_STEP_BLOCKS = 300; // ~1 hour
+
+class BackfillService {
+  private provider: Provider;
+  private comparisonService: DexComparisonService;
+  private stopRequested = false;
+
+  constructor(alchemyUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(alchemyUrl);
+    this.comparisonService = new DexComparisonService(alchemyUrl, poolRegistry);
+  }
+
+  /**
+   * Walk the block range and store a comparison for every pair at every sampled block
+   */
+  async run(options: BackfillOptions = {}): Promise<BackfillProgress> {
+    this.stopRequested = false;
+
+    const pairs = this.resolvePairs(options.pairIds);
+    const blocks = await this.resolveBlocks(options);
+    const inputAmountUSD = options.inputAmountUSD ?? 10000;
+
+    const progress: BackfillProgress = {
+      block: blocks[0] ?? 0,
+      processed: 0,
+      total: blocks.length,
+      saved: 0,
+      skipped: 0,
+      failed: 0,
+      etaSeconds: null
+    };
+
+    if (blocks.length === 0) {
+      logger.warn('BackfillService', 'Block range is empty, nothing to backfill');
+      return progress;
+    }
+
+    // Resume: anything already stored for a pair and block is not quoted again
+    const stored = new Map(pairs.map(pair => [
+      pair.id,
+      database.getBackfilledBlocks(pair.id, blocks[0], blocks[blocks.length - 1])
+    ]));
+
+    console.log(`🕰️ Backfilling ${pairs.length} pairs over ${blocks.length} blocks (${blocks[0]} → ${blocks[blocks.length - 1]})`);
+    const startTime = Date.now();
+    let quotedBlocks = 0;
+
+    for (const block of blocks) {
+      if (this.stopRequested) {
+        console.log(`⏹️ Backfill stopped at block ${block}, re-run to resume`);
+        break;
+      }
+
+      progress.block = block;
+      const pending = pairs.filter(pair => !stored.get(pair.id)?.has(block));
+      progress.skipped += pairs.length - pending.length;
+
+      if (pending.length > 0) {
+        try {
+          const { saved, failed } = await this.backfillBlock(block, pending, inputAmountUSD);
+          progress.saved += saved;
+          progress.failed += failed;
+        } catch (error) {
+          console.error(`❌ Backfill failed at block ${block}:`, error);
+          progress.failed += pending.length;
+        }
+        quotedBlocks++;
+      }
+
+      progress.processed++;
+      // ETA from blocks that needed quoting, skipped blocks cost almost nothing
+      const remaining = blocks.length - progress.processed;
+      progress.etaSeconds = quotedBlocks > 0
+        ? Math.round(((Date.now() - startTime) / quotedBlocks) * remaining / 1000)
+        : null;
+      this.reportProgress(progress, options.onProgress);
+    }
+
+    console.log(`✅ Backfill finished: ${progress.saved} saved, ${progress.skipped} already stored, ${progress.failed} failed`);
+    return progress;
+  }
+
+  /**
+   * Ask a running backfill to stop after the current block
+   */
+  stop() {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Compare every pending pair at one block and write the results with the block's own timestamp
+   */
+  private async backfillBlock(
+    block: number,
+    pairs: TokenPair[],
+    inputAmountUSD: number
+  ): Promise<{ saved: number; failed: number }> {
+    const blockInfo = await alchemyRateLimiter.execute(() => this.provider.getBlock(block));
+    if (!blockInfo) {
+      throw new Error(`Block ${block} not found`);
+    }
+    const timestamp = blockInfo.timestamp * 1000;
+
+    const results = await this.comparisonService.compareMultiplePairs(pairs, inputAmountUSD, {
+      blockTag: block,
+      batchAcrossPairs: true,
+      sizeLadderUSD: [], // Rankings only, the size ladder would multiply archive calls
+      eligibility: false // Swap-log scans per pool and block would dwarf the quotes themselves
+    });
+
+    let saved = 0;
+    let failed = 0;
+    for (const result of results) {
+      if (result.successfulQuotes === 0) {
+        failed++;
+        continue;
+      }
+      if (database.saveComparison(result, { source: 'backfill', timestamp }) !== null) {
+        saved++;
+      } else {
+        failed++;
+      }
+    }
+
+    return { saved, failed };
+  }
+
+  /**
+   * Sample blocks on a grid aligned to the step, so a restarted run lands on the same blocks
+   */
+  private async resolveBlocks(options: BackfillOptions): Promise<number[]> {
+    const step = options.stepBlocks ?? DEFAULT_STEP_BLOCKS;
+    if (step <= 0) {
+      throw new Error(`Invalid backfill step ${step}`);
+    }
+
+    const toBlock = options.toBlock ?? await alchemyRateLimiter.execute(() => this.provider.getBlockNumber());
+    const fromBlock = options.fromBlock ?? toBlock - (options.days ?? DEFAULT_BACKFILL_DAYS) * BLOCKS_PER_DAY;
+
+    const blocks: number[] = [];
+    for (let block = Math.ceil(fromBlock / step) * step; block <= toBlock; block += step) {
+      blocks.push(block);
+    }
+    return blocks;
+  }
+
+  /**
+   * Look up configured pairs by ID, all pairs when none are given
+   */
+  private resolvePairs(pairIds?: string[]): TokenPair[] {
+    if (!pairIds || pairIds.length === 0) return TOKEN_PAIRS;
+
+    return pairIds.map(id => {
+      const pair = TOKEN_PAIRS.find(p => p.id === id);
+      if (!pair) {
+        throw new Error(`Pair with ID ${id} not found`);
+      }
+      return pair;
+    });
+  }
+
+  /**
+   * Log progress and forward it to the caller
+   */
+  private reportProgress(progress: BackfillProgress, onProgress?: (progress: BackfillProgress) => void) {
+    const percent = ((progress.processed / progress.total) * 100).toFixed(1);
+    const eta = progress.etaSeconds !== null ? `, ~${Math.ceil(progress.etaSeconds / 60)} min left` : '';
+    console.log(`📊 Backfill ${progress.processed}/${progress.total} (${percent}%) at block ${progress.block}: ${progress.saved} saved, ${progress.skipped} skipped, ${progress.failed} failed${eta}`);
+    onProgress?.(progress);
+  }
+}
+
+export default BackfillService;
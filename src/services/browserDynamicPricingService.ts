@@ -66,6 +66,9 @@ class BrowserDynamicPricingService {
    * Get current token price in USD with proper error handling
    */
   async getTokenPrice(symbol: string): Promise<TokenPrice> {
+    // Native ETH has no token contract and trades at the WETH price
+    if (symbol === 'ETH') return this.getTokenPrice('WETH');
+
     await this.ensurePricesLoaded();
     
     const address = this.TOKEN_ADDRESSES[symbol];
@@ -7,6 +7,16 @@
 import axios, { type AxiosResponse } from 'axios';
 import type { TokenPair } from '../types/api';
 
+// Uniswap V4 PoolKey - the pool ID is keccak256(abi.encode(currency0, currency1, fee, tickSpacing, hooks))
+export interface V4PoolKey {
+  currency0: string; // address(0) for native ETH
+  currency1: string;
+  fee: number;
+  tickSpacing: number;
+  hooks: string;
+  hookData?: string; // Passed to the hook on every quote, defaults to '0x'
+}
+
 export interface PoolInfo {
   address: string;
   name: string;
@@ -27,6 +37,9 @@ export interface PoolInfo {
   fee_tier?: string;
   volume_24h?: number;
   liquidity_usd?: number;
+  pool_id?: string; // Balancer V2 bytes32 pool ID (weighted, stable and composable-stable pools)
+  v4_pool_key?: V4PoolKey; // Uniswap V4 pools, address holds the 32-byte pool ID
+  venue?: string; // Stable venue id where dex holds a per-run display label, 'zerox' for 0x routes
 }
 
 export interface CoinGeckoPoolResponse {
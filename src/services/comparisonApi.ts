@@ -0,0 +1,156 @@
+/**
+ * Comparison API Client
+ * Browser-side reader for the server's comparison engine, the browser never quotes on-chain itself
+ */
+
+import type { ApiEnvelope, TradeSide } from '../types/api';
+import type { EngineEvent, EngineSnapshot } from './comparisonEngine';
+import type { DexComparisonResult } from './dexComparisonService';
+import type { CustomPairRequest, CustomTokenPair } from './customPairService';
+import type { WatchedPairRow } from './database';
+import type { PairCompetitiveGap } from './dataCollector';
+
+export interface ComparisonStreamHandlers {
+  onSnapshot: (snapshot: EngineSnapshot) => void;
+  onEvent: (event: EngineEvent) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// Watch-list changes need the server's admin token, kept in this browser only
+const ADMIN_TOKEN_KEY = 'adminToken';
+
+export function getAdminToken(): string {
+  return localStorage.getItem(ADMIN_TOKEN_KEY) ?? '';
+}
+
+export function setAdminToken(token: string): void {
+  if (token) {
+    localStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+}
+
+function adminHeaders(): Record<string, string> {
+  const token = getAdminToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Unwrap the server's { success, data | error } envelope
+ */
+async function readEnvelope<T>(response: Response): Promise<T> {
+  let envelope: ApiEnvelope<T>;
+  try {
+    envelope = await response.json();
+  } catch {
+    throw new Error(`Comparison API error: ${response.status}`);
+  }
+
+  if (!envelope.success) {
+    throw new Error(envelope.error);
+  }
+  return envelope.data;
+}
+
+/**
+ * Latest cached results and engine progress for one side
+ */
+export async function fetchLiveComparisons(side: TradeSide): Promise<EngineSnapshot> {
+  const response = await fetch(`/api/comparisons/live?side=${side}`);
+  return readEnvelope<EngineSnapshot>(response);
+}
+
+/**
+ * Ask the engine for a fresh cycle, false if it is already running or ran moments ago
+ */
+export async function requestComparisonRefresh(): Promise<boolean> {
+  const response = await fetch('/api/comparisons/refresh', { method: 'POST' });
+  const { accepted } = await readEnvelope<{ accepted: boolean }>(response);
+  return accepted;
+}
+
+/**
+ * Stored Uniswap vs best competitor gaps of one pair over the last hours, with their stats
+ */
+export async function fetchCompetitiveGap(pairId: string, side: TradeSide, hours: number): Promise<PairCompetitiveGap> {
+  const response = await fetch(`/api/pairs/${encodeURIComponent(pairId)}/competitive-gap?side=${side}&hours=${hours}`);
+  return readEnvelope<PairCompetitiveGap>(response);
+}
+
+/**
+ * POST a JSON body and unwrap the envelope
+ */
+async function postJson<T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  return readEnvelope<T>(response);
+}
+
+/**
+ * One-off comparison of any two ERC-20s at a USD size
+ */
+export async function compareCustomPair(request: CustomPairRequest): Promise<DexComparisonResult> {
+  return postJson<DexComparisonResult>('/api/custom-pairs/compare', request);
+}
+
+export async function fetchWatchedPairs(): Promise<WatchedPairRow[]> {
+  const response = await fetch('/api/watched-pairs');
+  return readEnvelope<WatchedPairRow[]>(response);
+}
+
+/**
+ * Have the engine quote a custom pair every cycle
+ */
+export async function watchPair(request: CustomPairRequest): Promise<CustomTokenPair> {
+  return postJson<CustomTokenPair>('/api/watched-pairs', request, adminHeaders());
+}
+
+export async function unwatchPair(pairId: string): Promise<void> {
+  const response = await fetch(`/api/watched-pairs/${encodeURIComponent(pairId)}`, { method: 'DELETE', headers: adminHeaders() });
+  await readEnvelope<{ removed: string }>(response);
+}
+
+/**
+ * Follow the engine over Server-Sent Events, returns the function that closes the stream
+ * EventSource reconnects on its own and sends Last-Event-ID, so the server replays whatever was missed
+ */
+export function subscribeToComparisons(side: TradeSide, handlers: ComparisonStreamHandlers): () => void {
+  const source = new EventSource(`/api/comparisons/stream?side=${side}`);
+
+  source.addEventListener('snapshot', (message) => {
+    handlers.onSnapshot(JSON.parse((message as MessageEvent<string>).data));
+  });
+  source.onmessage = (message) => {
+    handlers.onEvent(JSON.parse(message.data));
+  };
+  source.onopen = () => handlers.onConnectionChange?.(true);
+  source.onerror = () => handlers.onConnectionChange?.(false);
+
+  return () => source.close();
+}
+
+/**
+ * Fold one engine event into the snapshot of the side being displayed
+ */
+export function applyEngineEvent(snapshot: EngineSnapshot, event: EngineEvent): EngineSnapshot {
+  switch (event.type) {
+    case 'cycle_started':
+      return { ...snapshot, running: true, health: event.health };
+    case 'side_started':
+      return event.side === snapshot.side ? { ...snapshot, pairs: event.pairs } : snapshot;
+    case 'progress':
+      return { ...snapshot, running: true, progress: event.progress };
+    case 'result':
+      return event.side === snapshot.side
+        ? { ...snapshot, results: { ...snapshot.results, [event.pairId]: event.result } }
+        : snapshot;
+    case 'side_completed':
+      return event.side === snapshot.side ? { ...snapshot, updatedAt: event.updatedAt } : snapshot;
+    case 'cycle_finished':
+      return { ...snapshot, running: false, progress: null, nextRunAt: event.nextRunAt };
+  }
+}
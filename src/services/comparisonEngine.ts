@@ -0,0 +1,370 @@
+/**
+ * Comparison Engine
+ * Runs the on-chain comparison for every pair on the server, on a schedule, and caches the latest results
+ * Browsers read the cache over the API, so the RPC key and the quoting load stay on the server
+ * Runs of configured pairs are also stored, so the history and gap views come from the same cycle
+ */
+
+import DexComparisonService, { type DexComparisonResult } from './dexComparisonService';
+import CustomPairService, { type CustomPairRequest, type CustomTokenPair } from './customPairService';
+import { dynamicTokenPairService } from '../config/dynamicTokenPairs';
+import { TOKEN_PAIRS } from '../config/tokenPairs';
+import { getAlchemyUrlFromEnv } from '../config/rpc';
+import { database, HISTORY_RETENTION_DAYS, type WatchedPairRow } from './database';
+import { poolRegistry } from './poolRegistryService';
+import type { TokenPair, TradeSide } from '../types/api';
+import { logger } from './logger';
+
+export interface EngineHealth {
+  coinGeckoApi: boolean;
+  alchemyRpc: boolean;
+  timestamp: number;
+}
+
+export interface EngineProgress {
+  side: TradeSide;
+  pairId: string;
+  pairName: string;
+  processed: number; // Pairs finished in the current cycle
+  total: number;
+}
+
+export interface EngineSnapshot {
+  side: TradeSide;
+  pairs: TokenPair[]; // Pairs in display order, including ones without a result yet
+  results: Record<string, DexComparisonResult>;
+  updatedAt: number | null; // When the last full cycle for this side finished
+  running: boolean;
+  progress: EngineProgress | null;
+  nextRunAt: number | null;
+  health: EngineHealth | null;
+}
+
+export interface EngineStatus {
+  isRunning: boolean; // Scheduled, whether or not a cycle is in progress
+  cycleInProgress: boolean;
+  refreshInterval: number; // ms between scheduled cycles
+  lastCycleStartedAt: number | null;
+  nextRunAt: number | null; // Set once a scheduled cycle finishes
+}
+
+// Pushed to subscribers as the engine works, see comparisonStream for the wire format
+export type EngineEventPayload =
+  | { type: 'cycle_started'; health: EngineHealth | null }
+  | { type: 'side_started'; side: TradeSide; pairs: TokenPair[] }
+  | { type: 'progress'; progress: EngineProgress }
+  | { type: 'result'; side: TradeSide; pairId: string; result: DexComparisonResult }
+  | { type: 'side_completed'; side: TradeSide; updatedAt: number }
+  | { type: 'cycle_finished'; nextRunAt: number | null };
+
+export type EngineEvent = EngineEventPayload & {
+  id: number; // Increases by one per event, resumed streams send the last id they saw
+  timestamp: number;
+};
+
+export type EngineListener = (event: EngineEvent) => void;
+
+const TARGET_USD = 10000; // All pairs target $10K
+const DYNAMIC_PAIR_IDS = ['weth-usdt', 'eth-usdt', 'uni-weth', 'weth-usdc']; // Sized from live prices, stablecoin pairs keep their fixed amounts
+const SIDES: TradeSide[] = ['sell', 'buy'];
+const MAX_EVENT_HISTORY = 200; // A full cycle of both sides is ~20 events, enough to replay a few missed cycles
+const CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // Purge at most once a day
+
+class ComparisonEngine {
+  private readonly REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+  private readonly MIN_MANUAL_REFRESH_GAP = 60 * 1000; // Manual refreshes can't run more than once a minute
+  private comparisonService: DexComparisonService | null = null;
+  private customPairService: CustomPairService | null = null;
+  private intervalId: NodeJS.Timeout | null = null;
+  private nextRunAt: number | null = null;
+  private currentCycle: Promise<void> | null = null;
+  private lastCycleStart = 0;
+  private lastCleanup = 0;
+  private progress: EngineProgress | null = null;
+  private health: EngineHealth | null = null;
+  private pairs: Record<TradeSide, TokenPair[]> = { sell: [], buy: [] };
+  private results: Record<TradeSide, Record<string, DexComparisonResult>> = { sell: {}, buy: {} };
+  private updatedAt: Record<TradeSide, number | null> = { sell: null, buy: null };
+  private listeners = new Set<EngineListener>();
+  private eventHistory: EngineEvent[] = [];
+  private lastEventId = 0;
+
+  // Created on first use so importing the engine doesn't need RPC configuration
+  private getComparisonService(): DexComparisonService {
+    if (!this.comparisonService) {
+      this.comparisonService = new DexComparisonService(this.requireAlchemyUrl(), poolRegistry);
+    }
+    return this.comparisonService;
+  }
+
+  private getCustomPairService(): CustomPairService {
+    if (!this.customPairService) {
+      this.customPairService = new CustomPairService(this.requireAlchemyUrl());
+    }
+    return this.customPairService;
+  }
+
+  private requireAlchemyUrl(): string {
+    const alchemyUrl = getAlchemyUrlFromEnv();
+    if (!alchemyUrl) {
+      throw new Error('Set ALCHEMY_URL or ALCHEMY_API_KEY to run on-chain comparisons');
+    }
+    return alchemyUrl;
+  }
+
+  /**
+   * Run a cycle now and then every REFRESH_INTERVAL
+   */
+  start() {
+    if (this.intervalId) {
+      console.log('Comparison engine is already running');
+      return;
+    }
+
+    this.intervalId = setInterval(() => {
+      this.runCycle();
+    }, this.REFRESH_INTERVAL);
+    console.log(`⚙️ Comparison engine started - refreshing every ${this.REFRESH_INTERVAL / 60000} minutes`);
+
+    this.runCycle();
+  }
+
+  stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.nextRunAt = null;
+    console.log('Comparison engine stopped');
+  }
+
+  /**
+   * Start a cycle unless one is already running or one started less than a minute ago
+   * Returns false when the request was ignored
+   */
+  requestRefresh(): boolean {
+    if (this.currentCycle || Date.now() - this.lastCycleStart < this.MIN_MANUAL_REFRESH_GAP) {
+      return false;
+    }
+    this.runCycle();
+    return true;
+  }
+
+  /**
+   * Latest cached results for one side, plus the engine's progress
+   */
+  getSnapshot(side: TradeSide): EngineSnapshot {
+    return {
+      side,
+      pairs: this.pairs[side],
+      results: this.results[side],
+      updatedAt: this.updatedAt[side],
+      running: this.currentCycle !== null,
+      progress: this.progress,
+      nextRunAt: this.nextRunAt,
+      health: this.health
+    };
+  }
+
+  /**
+   * Whether the schedule is running and when it last ran and runs next
+   */
+  getStatus(): EngineStatus {
+    return {
+      isRunning: this.intervalId !== null,
+      cycleInProgress: this.currentCycle !== null,
+      refreshInterval: this.REFRESH_INTERVAL,
+      lastCycleStartedAt: this.lastCycleStart || null,
+      nextRunAt: this.nextRunAt
+    };
+  }
+
+  /**
+   * One-off comparison of a user-defined pair, outside the cycle and not cached
+   */
+  async compareCustomPair(request: CustomPairRequest): Promise<DexComparisonResult> {
+    const customPairs = this.getCustomPairService();
+    const pair = await customPairs.buildPair(request);
+    const pools = await customPairs.findPools(pair);
+    return this.getComparisonService().compareTokenPair(pair, pair.sizeUSD, { pools });
+  }
+
+  /**
+   * Add a user-defined pair to every following cycle
+   */
+  async watchPair(request: CustomPairRequest): Promise<CustomTokenPair> {
+    const customPairs = this.getCustomPairService();
+    const pair = await customPairs.buildPair(request);
+    if (!customPairs.watchPair(pair)) {
+      throw new Error(`Could not save watched pair ${pair.name}`);
+    }
+    logger.info('ComparisonEngine', `Now watching ${pair.name} at $${pair.sizeUSD.toLocaleString()}`);
+    return pair;
+  }
+
+  getWatchedPairs(): WatchedPairRow[] {
+    return database.getWatchedPairs();
+  }
+
+  /**
+   * Stop quoting a watched pair and drop its cached results
+   */
+  unwatchPair(pairId: string): boolean {
+    const removed = this.getCustomPairService().unwatchPair(pairId);
+    if (removed) {
+      SIDES.forEach(side => {
+        const results = { ...this.results[side] };
+        delete results[pairId];
+        this.results[side] = results;
+        this.pairs[side] = this.pairs[side].filter(pair => pair.id !== pairId);
+      });
+    }
+    return removed;
+  }
+
+  /**
+   * Receive every event from now on, returns the unsubscribe function
+   */
+  subscribe(listener: EngineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Id of the most recent event, 0 before the first one
+   */
+  getLastEventId(): number {
+    return this.lastEventId;
+  }
+
+  /**
+   * Events after the given id, or null when some of them have already been dropped
+   * (or the id is from before a restart) and the caller needs a full snapshot instead
+   */
+  getEventsSince(eventId: number): EngineEvent[] | null {
+    if (eventId > this.lastEventId) return null;
+
+    const oldestId = this.eventHistory[0]?.id ?? this.lastEventId + 1;
+    if (eventId < oldestId - 1) return null;
+
+    return this.eventHistory.filter(event => event.id > eventId);
+  }
+
+  private emit(payload: EngineEventPayload) {
+    const event = { ...payload, id: ++this.lastEventId, timestamp: Date.now() } as EngineEvent;
+
+    this.eventHistory.push(event);
+    if (this.eventHistory.length > MAX_EVENT_HISTORY) {
+      this.eventHistory.shift();
+    }
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('ComparisonEngine', 'Event listener failed', error);
+      }
+    });
+  }
+
+  /**
+   * Compare every pair for both sides, replacing each cached result as soon as it is ready
+   */
+  private runCycle(): Promise<void> {
+    if (this.currentCycle) return this.currentCycle;
+
+    this.lastCycleStart = Date.now();
+    this.currentCycle = this.executeCycle()
+      .catch(error => {
+        logger.error('ComparisonEngine', 'Comparison cycle failed', error);
+      })
+      .finally(() => {
+        this.currentCycle = null;
+        this.progress = null;
+        this.nextRunAt = this.intervalId ? this.lastCycleStart + this.REFRESH_INTERVAL : null;
+        this.emit({ type: 'cycle_finished', nextRunAt: this.nextRunAt });
+      });
+    return this.currentCycle;
+  }
+
+  private async executeCycle(): Promise<void> {
+    const service = this.getComparisonService();
+    this.health = await service.healthCheck();
+    this.emit({ type: 'cycle_started', health: this.health });
+
+    const basePairs = await this.loadPairs();
+    const watchedPairs = await this.getCustomPairService().getWatchedPairs();
+    const customPairs = new Map<string, CustomTokenPair>(watchedPairs.map(pair => [pair.id, pair]));
+    basePairs.push(...watchedPairs);
+
+    for (const side of SIDES) {
+      const pairs = side === 'buy'
+        ? basePairs.map(pair => ({
+            ...pair,
+            side,
+            buyAmount: pair.buyAmount ?? TOKEN_PAIRS.find(p => p.id === pair.id)?.buyAmount
+          }))
+        : basePairs;
+      this.pairs[side] = pairs;
+      this.emit({ type: 'side_started', side, pairs });
+
+      for (let i = 0; i < pairs.length; i++) {
+        const pair = pairs[i];
+        this.progress = { side, pairId: pair.id, pairName: pair.name, processed: i, total: pairs.length };
+        this.emit({ type: 'progress', progress: this.progress });
+
+        // compareTokenPair never throws, a failed pair comes back with no successful quotes
+        const customPair = customPairs.get(pair.id);
+        const result = customPair
+          ? await service.compareTokenPair(pair, customPair.sizeUSD, { pools: await this.getCustomPairService().findPools(pair) })
+          : await service.compareTokenPair(pair, TARGET_USD);
+        this.results[side] = { ...this.results[side], [pair.id]: result };
+        this.emit({ type: 'result', side, pairId: pair.id, result });
+
+        // Watched pairs are only cached, their history would outlive the watch
+        if (!customPair && result.successfulQuotes > 0) {
+          database.saveComparison(result);
+        }
+      }
+
+      const updatedAt = Date.now();
+      this.updatedAt[side] = updatedAt;
+      this.emit({ type: 'side_completed', side, updatedAt });
+      logger.info('ComparisonEngine', `Refreshed ${pairs.length} ${side} comparisons`);
+    }
+
+    if (Date.now() - this.lastCleanup > CLEANUP_INTERVAL) {
+      this.lastCleanup = Date.now();
+      database.cleanup(HISTORY_RETENTION_DAYS);
+    }
+  }
+
+  /**
+   * Configured pairs, with sell amounts from live prices where the pair uses dynamic pricing
+   */
+  private async loadPairs(): Promise<TokenPair[]> {
+    const pairs: TokenPair[] = [];
+
+    for (const pair of TOKEN_PAIRS) {
+      if (!DYNAMIC_PAIR_IDS.includes(pair.id)) {
+        pairs.push(pair);
+        continue;
+      }
+
+      try {
+        const dynamicPair = await dynamicTokenPairService.getTokenPair(pair.id);
+        pairs.push(dynamicPair ? { ...pair, sellAmount: dynamicPair.sellAmount } : pair);
+      } catch (error) {
+        logger.warn('ComparisonEngine', `Dynamic pricing failed for ${pair.name}, using configured amount`, error);
+        pairs.push(pair);
+      }
+    }
+
+    return pairs;
+  }
+}
+
+// Singleton instance
+export const comparisonEngine = new ComparisonEngine();
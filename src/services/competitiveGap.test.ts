@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getCompetitiveGap, summarizeCompetitiveGaps, type CompetitiveGapPoint } from './competitiveGap';
+import { rankQuotes } from './quoteRanking';
+import type { OnChainQuote } from './onChainQuoteService';
+import type { PoolInfo } from './coinGeckoPoolService';
+import { mockPool, TEST_TOKENS } from '../test/mockProvider';
+
+const { WETH, USDC } = TEST_TOKENS;
+
+const UNISWAP_POOL = mockPool('uniswap_v3', '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640', WETH, USDC);
+
+// 0x route as the aggregator reports it, dex is the run's route label
+function zeroXPool(label: string): PoolInfo {
+  return { ...mockPool(label, 'zeroX-aggregator-weth-usdc', WETH, USDC), name: label, venue: 'zerox' };
+}
+
+// 1 WETH sold for the given USDC
+function quoteAt(pool: PoolInfo, usdcOut: number): OnChainQuote {
+  return {
+    pool,
+    inputAmount: '1000000000000000000',
+    outputAmount: String(usdcOut * 1e6),
+    pricePerToken: usdcOut,
+    executionPrice: usdcOut,
+    timestamp: 0,
+    success: true,
+    quoteSource: pool.venue === 'zerox' ? 'aggregator_api' : 'onchain_quoter'
+  };
+}
+
+function lossTo(label: string, uniswapOut: number, zeroXOut: number, runId: number): CompetitiveGapPoint {
+  const simulation = rankQuotes([quoteAt(UNISWAP_POOL, uniswapOut), quoteAt(zeroXPool(label), zeroXOut)], {}, 'sell');
+  const gap = getCompetitiveGap(simulation);
+  if (!gap) throw new Error('Expected a gap');
+  return { ...gap, runId, timestamp: runId, blockNumber: null };
+}
+
+describe('competitiveGap', () => {
+  it('stores 0x by its venue id and keeps the route label for display', () => {
+    const gap = lossTo('🔀 Ekubo+Uniswap_V3 via Matcha', 2490, 2500, 1);
+
+    expect(gap.competitorDex).toBe('zerox');
+    expect(gap.competitorName).toBe('🔀 Ekubo+Uniswap_V3 via Matcha');
+    expect(gap.gapBps).toBeCloseTo(-40, 6);
+  });
+
+  it('counts 0x wins under one venue whatever route each run took', () => {
+    const stats = summarizeCompetitiveGaps([
+      lossTo('🔀 Uniswap_V3 via Matcha', 2490, 2500, 1),
+      lossTo('🔀 Ekubo+Uniswap_V3 via Matcha', 2495, 2500, 2)
+    ]);
+
+    expect(stats.competitorWins).toEqual([{ dex: 'zerox', wins: 2, medianGapBps: expect.closeTo(-30, 6) }]);
+  });
+});
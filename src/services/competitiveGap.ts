@@ -0,0 +1,112 @@
+/**
+ * Competitive Gap
+ * How far Uniswap's best pool is ahead of or behind the best non-Uniswap venue in one comparison run,
+ * and the win rate, losing margins and winning competitors across a series of runs
+ */
+
+import type { PoolRanking, SwapSimulation } from './onChainQuoteService';
+import { median } from '../utils/stats';
+
+export const UNISWAP_DEXES = ['uniswap_v2', 'uniswap_v3', 'uniswap_v4'];
+
+export interface CompetitiveGap {
+  gapBps: number; // Positive when Uniswap's best pool beats the best competitor, negative when it trails
+  uniswapDex: string;
+  uniswapPool: string;
+  uniswapAmount: string; // Ranked amount in base units: output for 'sell', input for 'buy', net of gas when netOfGas
+  competitorDex: string; // Stable venue id, 'zerox' for 0x routes
+  competitorName: string; // Display name, the route label for 0x
+  competitorPool: string;
+  competitorAmount: string;
+  netOfGas: boolean;
+}
+
+// One run's gap as stored, with the run it came from
+export interface CompetitiveGapPoint extends CompetitiveGap {
+  runId: number;
+  timestamp: number;
+  blockNumber: number | null;
+}
+
+export interface CompetitorWins {
+  dex: string; // Venue id, as in competitorDex
+  wins: number; // Runs where this venue beat Uniswap's best pool
+  medianGapBps: number; // Median gap in those runs, negative
+}
+
+export interface CompetitiveGapStats {
+  runs: number;
+  uniswapWins: number;
+  winRate: number | null; // Share of runs Uniswap won, 0-1, null without runs
+  medianGapWhenLosingBps: number | null;
+  worstLoss: CompetitiveGapPoint | null; // Most negative gap
+  competitorWins: CompetitorWins[]; // Most wins first
+}
+
+/**
+ * Gap between the top-ranked Uniswap pool and the top-ranked other venue, null unless both were ranked
+ * Rankings already leave out rejected quotes and, unless opted in, estimated ones
+ */
+export function getCompetitiveGap(simulation: SwapSimulation): CompetitiveGap | null {
+  const uniswap = simulation.rankings.find(ranking => UNISWAP_DEXES.includes(ranking.pool.dex));
+  const competitor = simulation.rankings.find(ranking => !UNISWAP_DEXES.includes(ranking.pool.dex));
+  if (!uniswap || !competitor) return null;
+
+  const uniswapAmount = getRankedAmount(uniswap, simulation);
+  const competitorAmount = getRankedAmount(competitor, simulation);
+  const competitorValue = parseFloat(competitorAmount);
+  if (!(competitorValue > 0)) return null;
+
+  // Sell side wants more output, buy side less input
+  const difference = simulation.side === 'buy'
+    ? competitorValue - parseFloat(uniswapAmount)
+    : parseFloat(uniswapAmount) - competitorValue;
+
+  return {
+    gapBps: (difference / competitorValue) * 10000,
+    uniswapDex: uniswap.pool.dex,
+    uniswapPool: uniswap.pool.address,
+    uniswapAmount,
+    competitorDex: competitor.pool.venue ?? competitor.pool.dex,
+    competitorName: competitor.pool.name,
+    competitorPool: competitor.pool.address,
+    competitorAmount,
+    netOfGas: simulation.gasAdjusted
+  };
+}
+
+/**
+ * Win rate, median losing gap, worst loss and per-competitor wins over a series of runs
+ * A tie counts as a Uniswap win, as it is as good as any competitor
+ */
+export function summarizeCompetitiveGaps(points: CompetitiveGapPoint[]): CompetitiveGapStats {
+  const losses = points.filter(point => point.gapBps < 0);
+  const worstLoss = losses.reduce<CompetitiveGapPoint | null>(
+    (worst, point) => (!worst || point.gapBps < worst.gapBps ? point : worst),
+    null
+  );
+
+  const lossesByDex = new Map<string, number[]>();
+  losses.forEach(point => {
+    lossesByDex.set(point.competitorDex, [...(lossesByDex.get(point.competitorDex) ?? []), point.gapBps]);
+  });
+
+  return {
+    runs: points.length,
+    uniswapWins: points.length - losses.length,
+    winRate: points.length > 0 ? (points.length - losses.length) / points.length : null,
+    medianGapWhenLosingBps: losses.length > 0 ? median(losses.map(point => point.gapBps)) : null,
+    worstLoss,
+    competitorWins: Array.from(lossesByDex.entries())
+      .map(([dex, gaps]) => ({ dex, wins: gaps.length, medianGapBps: median(gaps) }))
+      .sort((a, b) => b.wins - a.wins)
+  };
+}
+
+function getRankedAmount(ranking: PoolRanking, simulation: SwapSimulation): string {
+  const { quote } = ranking;
+  if (simulation.side === 'buy') {
+    return (simulation.gasAdjusted ? quote.netInputAmount : undefined) ?? quote.inputAmount;
+  }
+  return (simulation.gasAdjusted ? quote.netOutputAmount : undefined) ?? quote.outputAmount;
+}
@@ -0,0 +1,190 @@
+/**
+ * Custom Pair Service
+ * Builds comparable token pairs from any two ERC-20 addresses and a USD size, and manages watched pairs
+ * Token metadata is read on-chain, candidate pools come from CoinGecko plus direct factory lookups
+ */
+
+import { ethers, Contract, type Provider } from 'ethers';
+import CoinGeckoPoolService, { type PoolInfo } from './coinGeckoPoolService';
+import OnChainPoolDiscoveryService from './onChainPoolDiscoveryService';
+import DynamicPricingService from './dynamicPricingService';
+import { database, type WatchedPairRow } from './database';
+import type { TokenPair } from '../types/api';
+import { alchemyRateLimiter } from '../utils/rateLimiter';
+import { logger } from './logger';
+
+export interface CustomPairRequest {
+  sellToken: string; // ERC-20 address
+  buyToken: string;
+  sizeUSD: number;
+}
+
+export interface CustomTokenPair extends TokenPair {
+  sizeUSD: number;
+}
+
+type TokenInfo = TokenPair['sellToken'];
+
+const ERC20_METADATA_ABI = [
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+// MKR and a few other early tokens return bytes32 symbols
+const BYTES32_SYMBOL_ABI = ['function symbol() view returns (bytes32)'];
+
+const POOL_CACHE_TTL = 6 * 60 * 60 * 1000; // Pools rarely change, rediscover every 6 hours
+
+class CustomPairService {
+  private provider: Provider;
+  private coinGeckoPoolService: CoinGeckoPoolService;
+  private discoveryService: OnChainPoolDiscoveryService;
+  private pricingService: DynamicPricingService;
+  private tokenCache = new Map<string, TokenInfo>();
+  private poolCache = new Map<string, { pools: PoolInfo[]; fetchedAt: number }>();
+
+  constructor(alchemyUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(alchemyUrl);
+    this.coinGeckoPoolService = new CoinGeckoPoolService();
+    this.discoveryService = new OnChainPoolDiscoveryService(alchemyUrl);
+    this.pricingService = new DynamicPricingService();
+  }
+
+  /**
+   * Read both tokens on-chain and size the pair from live USD prices
+   */
+  async buildPair(request: CustomPairRequest): Promise<CustomTokenPair> {
+    const [sellToken, buyToken] = await Promise.all([
+      this.resolveToken(request.sellToken),
+      this.resolveToken(request.buyToken)
+    ]);
+    return this.sizePair(sellToken, buyToken, request.sizeUSD);
+  }
+
+  /**
+   * Candidate pools from CoinGecko and the factories, deduplicated by address
+   */
+  async findPools(pair: TokenPair): Promise<PoolInfo[]> {
+    const cached = this.poolCache.get(pair.id);
+    if (cached && Date.now() - cached.fetchedAt < POOL_CACHE_TTL) {
+      return cached.pools;
+    }
+
+    const [coinGeckoPools, factoryPools] = await Promise.all([
+      this.coinGeckoPoolService.findPoolsForPair(pair),
+      this.discoveryService.findPoolsForPair(pair).catch(error => {
+        logger.warn('CustomPairService', `Factory lookups failed for ${pair.name}`, error);
+        return [] as PoolInfo[];
+      })
+    ]);
+
+    const pools = new Map<string, PoolInfo>();
+    // Factory records are oriented to the pair, so they win over CoinGecko's for the same address
+    [...factoryPools, ...coinGeckoPools].forEach(pool => {
+      const key = pool.address.toLowerCase();
+      if (!pools.has(key)) pools.set(key, pool);
+    });
+
+    const result = Array.from(pools.values());
+    this.poolCache.set(pair.id, { pools: result, fetchedAt: Date.now() });
+    logger.info('CustomPairService', `${result.length} candidate pools for ${pair.name} (${factoryPools.length} from factories, ${coinGeckoPools.length} from CoinGecko)`);
+    return result;
+  }
+
+  /**
+   * Watched pairs as quotable token pairs, re-sized from current prices
+   * A pair whose prices can't be loaded is skipped for this cycle
+   */
+  async getWatchedPairs(): Promise<CustomTokenPair[]> {
+    const pairs: CustomTokenPair[] = [];
+
+    for (const row of database.getWatchedPairs()) {
+      const sellToken = { address: row.sell_token_address, symbol: row.sell_token_symbol, decimals: row.sell_token_decimals };
+      const buyToken = { address: row.buy_token_address, symbol: row.buy_token_symbol, decimals: row.buy_token_decimals };
+      try {
+        pairs.push(await this.sizePair(sellToken, buyToken, row.size_usd));
+      } catch (error) {
+        logger.warn('CustomPairService', `Skipping watched pair ${row.name}`, error);
+      }
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Persist a custom pair so the comparison engine quotes it every cycle
+   */
+  watchPair(pair: CustomTokenPair): boolean {
+    const row: WatchedPairRow = {
+      id: pair.id,
+      name: pair.name,
+      sell_token_address: pair.sellToken.address,
+      sell_token_symbol: pair.sellToken.symbol,
+      sell_token_decimals: pair.sellToken.decimals,
+      buy_token_address: pair.buyToken.address,
+      buy_token_symbol: pair.buyToken.symbol,
+      buy_token_decimals: pair.buyToken.decimals,
+      size_usd: pair.sizeUSD,
+      created_at: Date.now()
+    };
+    return database.saveWatchedPair(row);
+  }
+
+  unwatchPair(pairId: string): boolean {
+    this.poolCache.delete(pairId);
+    return database.deleteWatchedPair(pairId);
+  }
+
+  /**
+   * Sell and buy amounts worth sizeUSD each, so both exact-input and exact-output modes work
+   */
+  private async sizePair(sellToken: TokenInfo, buyToken: TokenInfo, sizeUSD: number): Promise<CustomTokenPair> {
+    const [sellPrice, buyPrice] = await Promise.all([
+      this.pricingService.getTokenPriceByAddress(sellToken.symbol, sellToken.address),
+      this.pricingService.getTokenPriceByAddress(buyToken.symbol, buyToken.address)
+    ]);
+
+    const toAmount = (token: TokenInfo, priceUSD: number) =>
+      ethers.parseUnits((sizeUSD / priceUSD).toFixed(token.decimals), token.decimals).toString();
+
+    return {
+      id: `custom-${sellToken.address.toLowerCase()}-${buyToken.address.toLowerCase()}`,
+      name: `${sellToken.symbol} → ${buyToken.symbol}`,
+      sellToken,
+      buyToken,
+      sellAmount: toAmount(sellToken, sellPrice.price_usd),
+      buyAmount: toAmount(buyToken, buyPrice.price_usd),
+      sizeUSD
+    };
+  }
+
+  /**
+   * Symbol and decimals of an ERC-20, read on-chain
+   */
+  private async resolveToken(address: string): Promise<TokenInfo> {
+    const checksummed = ethers.getAddress(address);
+    const cached = this.tokenCache.get(checksummed);
+    if (cached) return cached;
+
+    const code = await alchemyRateLimiter.execute(() => this.provider.getCode(checksummed));
+    if (code === '0x') {
+      throw new Error(`${checksummed} is not a contract`);
+    }
+
+    const token = new Contract(checksummed, ERC20_METADATA_ABI, this.provider);
+    const decimals = Number(await alchemyRateLimiter.execute(() => token.decimals()));
+
+    let symbol: string;
+    try {
+      symbol = await alchemyRateLimiter.execute(() => token.symbol());
+    } catch {
+      const legacyToken = new Contract(checksummed, BYTES32_SYMBOL_ABI, this.provider);
+      symbol = ethers.decodeBytes32String(await alchemyRateLimiter.execute(() => legacyToken.symbol()));
+    }
+
+    const info = { address: checksummed, symbol, decimals };
+    this.tokenCache.set(checksummed, info);
+    return info;
+  }
+}
+
+export default CustomPairService;
@@ -1,162 +1,111 @@
-import { zeroXApi } from './zeroXApi';
+import DexComparisonService, { type DexComparisonResult } from './dexComparisonService';
 import { database } from './database';
+import { poolRegistry } from './poolRegistryService';
 import { TOKEN_PAIRS } from '../config/tokenPairs';
-import type { PairQuote } from '../types/api';
+import { getAlchemyUrlFromEnv } from '../config/rpc';
+import { summarizeCompetitiveGaps, type CompetitiveGapPoint, type CompetitiveGapStats } from './competitiveGap';
+import type { TradeSide } from '../types/api';
+
+export interface PairCompetitiveGap {
+  pairId: string;
+  pairName: string;
+  gaps: CompetitiveGapPoint[];
+  stats: CompetitiveGapStats;
+}
 
+// Scheduled runs are quoted and stored by the comparison engine, the collector runs single pairs on request and reads the stored history
 class DataCollectorService {
-  private isRunning = false;
-  private intervalId: NodeJS.Timeout | null = null;
-  private readonly COLLECTION_INTERVAL = 30 * 60 * 1000; // 30 minutes
-  private readonly API_DELAY = 2000; // 2 seconds between API calls (VPS-friendly)
-
-  async start() {
-    if (this.isRunning) {
-      console.log('Data collector is already running');
-      return;
-    }
-
-    this.isRunning = true;
-    console.log('Starting data collector service...');
-
-    // Collect data immediately
-    await this.collectAllPairsData();
-
-    // Schedule regular collections
-    this.intervalId = setInterval(async () => {
-      await this.collectAllPairsData();
-    }, this.COLLECTION_INTERVAL);
-
-    console.log(`Data collector started - collecting every ${this.COLLECTION_INTERVAL / 60000} minutes`);
-  }
-
-  stop() {
-    if (!this.isRunning) {
-      console.log('Data collector is not running');
-      return;
-    }
-
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
-
-    this.isRunning = false;
-    console.log('Data collector stopped');
-  }
-
-  private async collectAllPairsData(): Promise<void> {
-    console.log(`[${new Date().toISOString()}] Starting data collection cycle...`);
-    
-    const results: { pair: string; success: boolean; rankings: number }[] = [];
-    let totalApiCalls = 0;
-    
-    for (let i = 0; i < TOKEN_PAIRS.length; i++) {
-      const pair = TOKEN_PAIRS[i];
-      
-      try {
-        console.log(`Collecting data for ${pair.name} (${i + 1}/${TOKEN_PAIRS.length})`);
-        
-        const quote = await zeroXApi.getPairQuote(pair);
-        totalApiCalls++;
-        
-        if (quote) {
-          // Save to database
-          database.saveQuote(quote);
-          
-          results.push({
-            pair: pair.name,
-            success: true,
-            rankings: quote.rankings.length
-          });
-          
-          console.log(`✅ ${pair.name}: ${quote.rankings.length} protocols ranked`);
-        } else {
-          results.push({
-            pair: pair.name,
-            success: false,
-            rankings: 0
-          });
-          
-          console.log(`❌ ${pair.name}: No data available`);
-        }
-        
-        // Add delay between API calls to be VPS-friendly
-        if (i < TOKEN_PAIRS.length - 1) {
-          console.log(`Waiting ${this.API_DELAY}ms before next API call...`);
-          await this.delay(this.API_DELAY);
-        }
-        
-      } catch (error) {
-        console.error(`Error collecting data for ${pair.name}:`, error);
-        results.push({
-          pair: pair.name,
-          success: false,
-          rankings: 0
-        });
+  private readonly INPUT_AMOUNT_USD = 10000; // Same trade size as the dashboard
+  private comparisonService: DexComparisonService | null = null;
+
+  // Created on first use so importing the collector doesn't need RPC configuration
+  private getComparisonService(): DexComparisonService {
+    if (!this.comparisonService) {
+      const alchemyUrl = getAlchemyUrlFromEnv();
+      if (!alchemyUrl) {
+        throw new Error('Set ALCHEMY_URL or ALCHEMY_API_KEY to collect on-chain comparisons');
       }
+      this.comparisonService = new DexComparisonService(alchemyUrl, poolRegistry);
     }
-
-    // Summary
-    const successful = results.filter(r => r.success).length;
-    const totalRankings = results.reduce((sum, r) => sum + r.rankings, 0);
-    
-    console.log(`[${new Date().toISOString()}] Collection cycle complete:`);
-    console.log(`  📊 ${successful}/${TOKEN_PAIRS.length} pairs successful`);
-    console.log(`  🏆 ${totalRankings} total protocol rankings collected`);
-    console.log(`  📡 ${totalApiCalls} API calls made`);
-    console.log(`  ⏳ Next collection in ${this.COLLECTION_INTERVAL / 60000} minutes`);
-
-    // Cleanup old data (keep 7 days)
-    if (Math.random() < 0.1) { // 10% chance to run cleanup
-      console.log('Running database cleanup...');
-      database.cleanup(7);
-    }
+    return this.comparisonService;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  // Rankings only, the price impact ladder is a dashboard view
+  private async comparePair(pair: typeof TOKEN_PAIRS[number]): Promise<DexComparisonResult> {
+    return this.getComparisonService().compareTokenPair(pair, this.INPUT_AMOUNT_USD, { sizeLadderUSD: [] });
   }
 
   // Manual data collection (for testing or immediate updates)
-  async collectSinglePair(pairId: string): Promise<PairQuote | null> {
+  async collectSinglePair(pairId: string): Promise<DexComparisonResult | null> {
     const pair = TOKEN_PAIRS.find(p => p.id === pairId);
     if (!pair) {
       throw new Error(`Pair with ID ${pairId} not found`);
     }
 
     console.log(`Manual collection for ${pair.name}`);
-    const quote = await zeroXApi.getPairQuote(pair);
+    const result = await this.comparePair(pair);
     
-    if (quote) {
-      database.saveQuote(quote);
+    if (result.successfulQuotes > 0) {
+      database.saveComparison(result);
       console.log(`✅ Manual collection completed for ${pair.name}`);
-    } else {
-      console.log(`❌ No data available for ${pair.name}`);
+      return result;
     }
 
-    return quote;
+    console.log(`❌ No data available for ${pair.name}`);
+    return null;
   }
 
-  // Get collection status
-  getStatus() {
+  // Get historical data for a specific pair, aggregator quotes and on-chain runs merged in time order
+  async getHistoricalData(pairId: string, hours = 24) {
+    return [
+      ...database.getHistoricalData(pairId, hours),
+      ...database.getComparisonRankHistory(pairId, hours)
+    ].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Get protocol historical ranks from both sources
+  async getProtocolHistory(pairId: string, protocol: string, hours = 24) {
+    const onChainRanks = database.getComparisonRankHistory(pairId, hours).flatMap(entry => {
+      const ranking = entry.rankings.find(r => r.protocol === protocol);
+      return ranking ? [{ timestamp: entry.timestamp, rank: ranking.rank, effective_rate: ranking.effectiveRate }] : [];
+    });
+    const aggregatorRanks = database.getProtocolHistoricalRanks(pairId, protocol, hours).map(row => ({
+      timestamp: row.timestamp,
+      rank: row.rank,
+      effective_rate: row.effective_rate
+    }));
+    return [...aggregatorRanks, ...onChainRanks].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Get the Uniswap vs best competitor gap of every run of a pair, with win rate and losing margins
+  async getCompetitiveGap(pairId: string, hours = 24, side: TradeSide = 'sell'): Promise<PairCompetitiveGap> {
+    const pair = TOKEN_PAIRS.find(p => p.id === pairId);
+    const gaps = database.getCompetitiveGaps(pairId, hours, side);
+    return { pairId, pairName: pair?.name ?? pairId, gaps, stats: summarizeCompetitiveGaps(gaps) };
+  }
+
+  // Get gap stats of every pair and of all their runs together, without the per-run series
+  async getCompetitiveGapOverview(hours = 24, side: TradeSide = 'sell') {
+    const pairs = await Promise.all(TOKEN_PAIRS.map(pair => this.getCompetitiveGap(pair.id, hours, side)));
     return {
-      isRunning: this.isRunning,
-      collectionInterval: this.COLLECTION_INTERVAL,
-      apiDelay: this.API_DELAY,
-      nextCollection: this.intervalId ? 
-        new Date(Date.now() + this.COLLECTION_INTERVAL).toISOString() : 
-        null
+      overall: summarizeCompetitiveGaps(pairs.flatMap(pair => pair.gaps)),
+      pairs: pairs.map(({ pairId, pairName, stats }) => ({ pairId, pairName, stats }))
     };
   }
 
-  // Get historical data for a specific pair
-  async getHistoricalData(pairId: string, hours = 24) {
-    return database.getHistoricalData(pairId, hours);
+  // Get the most recent stored comparison of every pair
+  async getLatestComparisons() {
+    return database.getLatestComparisons();
   }
 
-  // Get protocol historical ranks
-  async getProtocolHistory(pairId: string, protocol: string, hours = 24) {
-    return database.getProtocolHistoricalRanks(pairId, protocol, hours);
+  // Get on-chain comparison runs for a pair
+  async getComparisonRuns(pairId: string, hours = 24) {
+    return database.getComparisonRuns(pairId, hours);
+  }
+
+  // Get one pool's quotes across runs
+  async getPoolQuoteHistory(pairId: string, poolAddress: string, hours = 24) {
+    return database.getPoolQuoteHistory(pairId, poolAddress, hours);
   }
 }
 
@@ -1,46 +1,155 @@
 import Database from 'better-sqlite3';
-import type { HistoricalData, PairQuote } from '../types/api';
+import { ethers } from 'ethers';
+import type { HistoricalData, PairQuote, TradeSide } from '../types/api';
+import type { DexComparisonResult } from './dexComparisonService';
+import type { CompetitiveGapPoint } from './competitiveGap';
+import MigrationRunner from './migrations/migrationRunner';
+import { QUOTES_DB_MIGRATIONS } from './migrations/quotesDbMigrations';
+
+// 'live' runs come from the comparison engine and are purged by cleanup, 'backfill' runs are rebuilt from archive blocks
+export type ComparisonRunSource = 'live' | 'backfill';
+
+// Live history is kept as long as the longest window the history and gap views offer
+export const HISTORY_RETENTION_DAYS = 30;
+
+export interface SaveComparisonOptions {
+  source?: ComparisonRunSource;
+  timestamp?: number; // Overrides result.timestamp, backfill stores the block's own time
+}
+
+export interface ComparisonRunRow {
+  id: number;
+  timestamp: number;
+  pair_id: string;
+  pair_name: string;
+  side: string;
+  block_number: number | null;
+  input_amount_usd: number;
+  total_pools_found: number;
+  successful_quotes: number;
+  best_protocol: string | null;
+  gas_adjusted: number;
+  include_estimated: number;
+  source: ComparisonRunSource;
+}
+
+export interface PoolQuoteRow {
+  run_id: number;
+  timestamp: number;
+  block_number: number | null;
+  pool_address: string;
+  pool_name: string;
+  dex: string;
+  fee_tier: string | null;
+  input_amount: string;
+  output_amount: string;
+  net_amount: string | null;
+  gas_estimate: string | null;
+  effective_price: number | null;
+  rank: number | null;
+  price_advantage: number | null;
+  quote_source: string | null;
+  success: number;
+  error: string | null;
+  validation_severity: string | null;
+  validation_reason: string | null;
+}
+
+export interface CompetitiveGapRow {
+  run_id: number;
+  timestamp: number;
+  block_number: number | null;
+  gap_bps: number;
+  uniswap_dex: string;
+  uniswap_pool: string;
+  uniswap_amount: string;
+  competitor_dex: string;
+  competitor_name: string;
+  competitor_pool: string;
+  competitor_amount: string;
+  net_of_gas: number;
+}
+
+export interface ProtocolSummaryRow {
+  run_id: number;
+  protocol: string;
+  pool_count: number;
+  best_rank: number | null;
+  avg_rank: number | null;
+  quote_source: string | null;
+  estimated_quotes: number;
+}
+
+export interface WatchedPairRow {
+  id: string;
+  name: string;
+  sell_token_address: string;
+  sell_token_symbol: string;
+  sell_token_decimals: number;
+  buy_token_address: string;
+  buy_token_symbol: string;
+  buy_token_decimals: number;
+  size_usd: number;
+  created_at: number;
+}
+
+// Discovered pools wait as 'pending' and only enter rankings once 'approved'
+export type PoolReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PoolRegistryRow {
+  pair_id: string;
+  address: string;
+  name: string;
+  dex: string;
+  fee_tier: string | null;
+  pool_id: string | null;
+  v4_pool_key: string | null; // JSON V4PoolKey
+  tokens: string; // JSON { base, quote }
+  volume_24h: number | null;
+  liquidity_usd: number | null;
+  status: PoolReviewStatus;
+  enabled: number;
+  source: string; // 'seed', 'onchain' or 'coingecko'
+  first_seen: number;
+  last_seen: number;
+  reviewed_at: number | null;
+}
+
+export interface PoolDiscoveryRunRow {
+  id: number;
+  timestamp: number;
+  pair_id: string;
+  source: string;
+  added: number;
+  removed: number;
+  liquidity_changed: number;
+  diff: string; // JSON PoolRegistryDiff
+}
+
+// A registry pool found again by a discovery run
+export interface PoolSighting {
+  address: string;
+  liquidity_usd: number | null;
+}
+
+export interface PoolLiquiditySnapshotRow {
+  timestamp: number;
+  liquidity_usd: number;
+}
+
+// A stored run with its children, as served by the API
+export interface StoredComparison {
+  run: ComparisonRunRow;
+  protocols: ProtocolSummaryRow[];
+  quotes: PoolQuoteRow[];
+}
 
 class DatabaseService {
   private db: Database.Database;
 
   constructor(dbPath: string = './quotes.db') {
     this.db = new Database(dbPath);
-    this.initTables();
-  }
-
-  private initTables() {
-    // Create historical data table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS historical_quotes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        pair_id TEXT NOT NULL,
-        pair_name TEXT NOT NULL,
-        total_buy_amount TEXT NOT NULL,
-        min_buy_amount TEXT NOT NULL,
-        rankings TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        INDEX idx_timestamp (timestamp),
-        INDEX idx_pair_id (pair_id)
-      )
-    `);
-
-    // Create protocol rankings table for easier querying
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS protocol_rankings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        pair_id TEXT NOT NULL,
-        protocol TEXT NOT NULL,
-        rank INTEGER NOT NULL,
-        effective_rate REAL NOT NULL,
-        total_proportion INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        INDEX idx_timestamp_pair (timestamp, pair_id),
-        INDEX idx_protocol (protocol)
-      )
-    `);
+    new MigrationRunner(this.db, 'quotes', QUOTES_DB_MIGRATIONS).migrate();
   }
 
   saveQuote(quote: PairQuote) {
@@ -83,6 +192,509 @@ class DatabaseService {
     }
   }
 
+  /**
+   * Save a full on-chain comparison: the run, every pool quote and the protocol summaries, in one transaction
+   */
+  saveComparison(result: DexComparisonResult, options: SaveComparisonOptions = {}): number | null {
+    const timestamp = options.timestamp ?? result.timestamp;
+    const { pair, simulation } = result;
+
+    const insertRun = this.db.prepare(`
+      INSERT INTO comparison_runs (
+        timestamp, pair_id, pair_name, side, block_number, input_amount_usd,
+        total_pools_found, successful_quotes, best_protocol, gas_adjusted, include_estimated, source
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertPoolQuote = this.db.prepare(`
+      INSERT INTO pool_quotes (
+        run_id, pool_address, pool_name, dex, fee_tier, input_amount, output_amount, net_amount,
+        gas_estimate, effective_price, rank, price_advantage, quote_source, success, error, block_number,
+        validation_severity, validation_reason
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertSummary = this.db.prepare(`
+      INSERT INTO protocol_summaries (run_id, protocol, pool_count, best_rank, avg_rank, quote_source, estimated_quotes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertGap = this.db.prepare(`
+      INSERT INTO competitive_gaps (
+        run_id, gap_bps, uniswap_dex, uniswap_pool, uniswap_amount,
+        competitor_dex, competitor_name, competitor_pool, competitor_amount, net_of_gas
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const rankingByPool = new Map(simulation.rankings.map(ranking => [`${ranking.pool.dex}:${ranking.pool.address}`, ranking]));
+    const isExactOutput = simulation.side === 'buy';
+
+    const save = this.db.transaction(() => {
+      const run = insertRun.run(
+        timestamp,
+        pair.id,
+        pair.name,
+        simulation.side,
+        result.blockNumber,
+        result.inputAmountUSD,
+        result.totalPoolsFound,
+        result.successfulQuotes,
+        result.bestProtocol,
+        simulation.gasAdjusted ? 1 : 0,
+        result.includeEstimated ? 1 : 0,
+        options.source ?? 'live'
+      );
+      const runId = Number(run.lastInsertRowid);
+
+      simulation.quotes.forEach(quote => {
+        const ranking = rankingByPool.get(`${quote.pool.dex}:${quote.pool.address}`);
+        const input = parseFloat(ethers.formatUnits(quote.inputAmount, pair.sellToken.decimals));
+        const output = parseFloat(ethers.formatUnits(quote.outputAmount, pair.buyToken.decimals));
+        insertPoolQuote.run(
+          runId,
+          quote.pool.address,
+          quote.pool.name,
+          quote.pool.dex,
+          quote.pool.fee_tier ?? null,
+          quote.inputAmount,
+          quote.outputAmount,
+          (isExactOutput ? quote.netInputAmount : quote.netOutputAmount) ?? null,
+          quote.gasEstimate ?? null,
+          quote.success && input > 0 ? output / input : null,
+          ranking?.rank ?? null,
+          ranking?.priceAdvantage ?? null,
+          quote.quoteSource ?? null,
+          quote.success ? 1 : 0,
+          quote.error ?? null,
+          quote.blockNumber ?? null,
+          quote.validation?.severity ?? null,
+          quote.validation?.reason ?? null
+        );
+      });
+
+      result.protocolSummary.forEach(summary => {
+        insertSummary.run(
+          runId,
+          summary.protocol,
+          summary.poolCount,
+          summary.bestRank,
+          summary.avgRank,
+          summary.quoteSource,
+          summary.estimatedQuotes
+        );
+      });
+
+      if (result.competitiveGap) {
+        const gap = result.competitiveGap;
+        insertGap.run(
+          runId,
+          gap.gapBps,
+          gap.uniswapDex,
+          gap.uniswapPool,
+          gap.uniswapAmount,
+          gap.competitorDex,
+          gap.competitorName,
+          gap.competitorPool,
+          gap.competitorAmount,
+          gap.netOfGas ? 1 : 0
+        );
+      }
+
+      return runId;
+    });
+
+    try {
+      const runId = save();
+      console.log(`Saved comparison run ${runId} for ${pair.name} at block ${result.blockNumber ?? 'unknown'}`);
+      return runId;
+    } catch (error) {
+      console.error('Error saving comparison to database:', error);
+      return null;
+    }
+  }
+
+  getComparisonRuns(pairId: string, hoursBack: number = 24): ComparisonRunRow[] {
+    const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
+
+    const query = this.db.prepare(`
+      SELECT id, timestamp, pair_id, pair_name, side, block_number, input_amount_usd, total_pools_found,
+             successful_quotes, best_protocol, gas_adjusted, include_estimated, source
+      FROM comparison_runs
+      WHERE pair_id = ? AND timestamp >= ?
+      ORDER BY timestamp ASC
+    `);
+
+    try {
+      return query.all(pairId, cutoffTime) as ComparisonRunRow[];
+    } catch (error) {
+      console.error('Error fetching comparison runs:', error);
+      return [];
+    }
+  }
+
+  getPoolQuoteHistory(pairId: string, poolAddress: string, hoursBack: number = 24): PoolQuoteRow[] {
+    const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
+
+    const query = this.db.prepare(`
+      SELECT q.run_id, r.timestamp, q.block_number, q.pool_address, q.pool_name, q.dex, q.fee_tier,
+             q.input_amount, q.output_amount, q.net_amount, q.gas_estimate, q.effective_price,
+             q.rank, q.price_advantage, q.quote_source, q.success, q.error, q.validation_severity, q.validation_reason
+      FROM pool_quotes q
+      JOIN comparison_runs r ON r.id = q.run_id
+      WHERE r.pair_id = ? AND lower(q.pool_address) = lower(?) AND r.timestamp >= ?
+      ORDER BY r.timestamp ASC
+    `);
+
+    try {
+      return query.all(pairId, poolAddress, cutoffTime) as PoolQuoteRow[];
+    } catch (error) {
+      console.error('Error fetching pool quote history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Uniswap vs best competitor gap of every run of a pair and side, oldest first
+   */
+  getCompetitiveGaps(pairId: string, hoursBack: number = 24, side: TradeSide = 'sell'): CompetitiveGapPoint[] {
+    const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
+
+    const query = this.db.prepare(`
+      SELECT g.run_id, r.timestamp, r.block_number, g.gap_bps, g.uniswap_dex, g.uniswap_pool, g.uniswap_amount,
+             g.competitor_dex, g.competitor_name, g.competitor_pool, g.competitor_amount, g.net_of_gas
+      FROM competitive_gaps g
+      JOIN comparison_runs r ON r.id = g.run_id
+      WHERE r.pair_id = ? AND r.side = ? AND r.timestamp >= ?
+      ORDER BY r.timestamp ASC
+    `);
+
+    try {
+      const rows = query.all(pairId, side, cutoffTime) as CompetitiveGapRow[];
+      return rows.map(row => ({
+        runId: row.run_id,
+        timestamp: row.timestamp,
+        blockNumber: row.block_number,
+        gapBps: row.gap_bps,
+        uniswapDex: row.uniswap_dex,
+        uniswapPool: row.uniswap_pool,
+        uniswapAmount: row.uniswap_amount,
+        competitorDex: row.competitor_dex,
+        competitorName: row.competitor_name,
+        competitorPool: row.competitor_pool,
+        competitorAmount: row.competitor_amount,
+        netOfGas: row.net_of_gas === 1
+      }));
+    } catch (error) {
+      console.error('Error fetching competitive gaps:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Most recent live run of every pair, with its protocol summaries and pool quotes
+   */
+  getLatestComparisons(): StoredComparison[] {
+    const runsQuery = this.db.prepare(`
+      SELECT id, timestamp, pair_id, pair_name, side, block_number, input_amount_usd, total_pools_found,
+             successful_quotes, best_protocol, gas_adjusted, include_estimated, source
+      FROM comparison_runs
+      WHERE id IN (SELECT MAX(id) FROM comparison_runs WHERE source = 'live' GROUP BY pair_id)
+      ORDER BY pair_id ASC
+    `);
+
+    const protocolsQuery = this.db.prepare(`
+      SELECT run_id, protocol, pool_count, best_rank, avg_rank, quote_source, estimated_quotes
+      FROM protocol_summaries
+      WHERE run_id = ?
+      ORDER BY best_rank IS NULL, best_rank ASC
+    `);
+
+    const quotesQuery = this.db.prepare(`
+      SELECT q.run_id, r.timestamp, q.block_number, q.pool_address, q.pool_name, q.dex, q.fee_tier,
+             q.input_amount, q.output_amount, q.net_amount, q.gas_estimate, q.effective_price,
+             q.rank, q.price_advantage, q.quote_source, q.success, q.error, q.validation_severity, q.validation_reason
+      FROM pool_quotes q
+      JOIN comparison_runs r ON r.id = q.run_id
+      WHERE q.run_id = ?
+      ORDER BY q.rank IS NULL, q.rank ASC
+    `);
+
+    try {
+      const runs = runsQuery.all() as ComparisonRunRow[];
+      return runs.map(run => ({
+        run,
+        protocols: protocolsQuery.all(run.id) as ProtocolSummaryRow[],
+        quotes: quotesQuery.all(run.id) as PoolQuoteRow[]
+      }));
+    } catch (error) {
+      console.error('Error fetching latest comparisons:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Protocol rankings per stored run, in the same shape as the aggregator history so charts can mix both
+   */
+  getComparisonRankHistory(pairId: string, hoursBack: number = 24): HistoricalData[] {
+    const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
+
+    const query = this.db.prepare(`
+      SELECT r.id AS run_id, r.timestamp, s.protocol, s.best_rank,
+             (SELECT MAX(q.effective_price) FROM pool_quotes q
+              WHERE q.run_id = r.id AND q.dex = s.protocol AND q.rank = s.best_rank) AS effective_rate
+      FROM comparison_runs r
+      JOIN protocol_summaries s ON s.run_id = r.id
+      WHERE r.pair_id = ? AND r.timestamp >= ? AND s.best_rank IS NOT NULL
+      ORDER BY r.timestamp ASC, s.best_rank ASC
+    `);
+
+    try {
+      const rows = query.all(pairId, cutoffTime) as Array<{
+        run_id: number;
+        timestamp: number;
+        protocol: string;
+        best_rank: number;
+        effective_rate: number | null;
+      }>;
+
+      // Rows arrive ordered by best pool rank, so protocol rank is the position within the run
+      const history = new Map<number, HistoricalData>();
+      rows.forEach(row => {
+        let entry = history.get(row.run_id);
+        if (!entry) {
+          entry = { timestamp: row.timestamp, pairId, rankings: [] };
+          history.set(row.run_id, entry);
+        }
+        entry.rankings.push({
+          protocol: row.protocol,
+          rank: entry.rankings.length + 1,
+          effectiveRate: row.effective_rate ?? 0,
+          totalProportion: 0 // Single-pool quotes don't split the trade
+        });
+      });
+      return Array.from(history.values());
+    } catch (error) {
+      console.error('Error fetching comparison rank history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Blocks in a range that already have a backfilled run for a pair, so a restarted backfill can skip them
+   */
+  getBackfilledBlocks(pairId: string, fromBlock: number, toBlock: number): Set<number> {
+    const query = this.db.prepare(`
+      SELECT DISTINCT block_number
+      FROM comparison_runs
+      WHERE pair_id = ? AND source = 'backfill' AND block_number BETWEEN ? AND ?
+    `);
+
+    try {
+      const rows = query.all(pairId, fromBlock, toBlock) as Array<{ block_number: number }>;
+      return new Set(rows.map(row => row.block_number));
+    } catch (error) {
+      console.error('Error fetching backfilled blocks:', error);
+      return new Set();
+    }
+  }
+
+  getWatchedPairs(): WatchedPairRow[] {
+    const query = this.db.prepare(`
+      SELECT id, name, sell_token_address, sell_token_symbol, sell_token_decimals,
+             buy_token_address, buy_token_symbol, buy_token_decimals, size_usd, created_at
+      FROM watched_pairs
+      ORDER BY created_at ASC
+    `);
+
+    try {
+      return query.all() as WatchedPairRow[];
+    } catch (error) {
+      console.error('Error fetching watched pairs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add a watched pair, or update its size if it is already watched
+   */
+  saveWatchedPair(pair: WatchedPairRow): boolean {
+    const upsert = this.db.prepare(`
+      INSERT INTO watched_pairs (
+        id, name, sell_token_address, sell_token_symbol, sell_token_decimals,
+        buy_token_address, buy_token_symbol, buy_token_decimals, size_usd, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET size_usd = excluded.size_usd
+    `);
+
+    try {
+      upsert.run(
+        pair.id,
+        pair.name,
+        pair.sell_token_address,
+        pair.sell_token_symbol,
+        pair.sell_token_decimals,
+        pair.buy_token_address,
+        pair.buy_token_symbol,
+        pair.buy_token_decimals,
+        pair.size_usd,
+        pair.created_at
+      );
+      return true;
+    } catch (error) {
+      console.error('Error saving watched pair:', error);
+      return false;
+    }
+  }
+
+  deleteWatchedPair(id: string): boolean {
+    try {
+      return this.db.prepare('DELETE FROM watched_pairs WHERE id = ?').run(id).changes > 0;
+    } catch (error) {
+      console.error('Error deleting watched pair:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Insert seed pools that are not in the registry yet, reviewed or rejected pools are left alone
+   */
+  seedPoolRegistry(rows: PoolRegistryRow[]): number {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO pool_registry (
+        pair_id, address, name, dex, fee_tier, pool_id, v4_pool_key, tokens, volume_24h, liquidity_usd,
+        status, enabled, source, first_seen, last_seen, reviewed_at
+      )
+      VALUES (@pair_id, @address, @name, @dex, @fee_tier, @pool_id, @v4_pool_key, @tokens, @volume_24h, @liquidity_usd,
+              @status, @enabled, @source, @first_seen, @last_seen, @reviewed_at)
+    `);
+
+    try {
+      return this.db.transaction(() => rows.reduce((inserted, row) => inserted + insert.run(row).changes, 0))();
+    } catch (error) {
+      console.error('Error seeding pool registry:', error);
+      return 0;
+    }
+  }
+
+  getRegistryPools(pairId?: string, status?: PoolReviewStatus): PoolRegistryRow[] {
+    const query = this.db.prepare(`
+      SELECT pair_id, address, name, dex, fee_tier, pool_id, v4_pool_key, tokens, volume_24h, liquidity_usd,
+             status, enabled, source, first_seen, last_seen, reviewed_at
+      FROM pool_registry
+      WHERE (@pairId IS NULL OR pair_id = @pairId) AND (@status IS NULL OR status = @status)
+      ORDER BY pair_id ASC, liquidity_usd DESC
+    `);
+
+    try {
+      return query.all({ pairId: pairId ?? null, status: status ?? null }) as PoolRegistryRow[];
+    } catch (error) {
+      console.error('Error fetching registry pools:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store one discovery run: new pools as pending, last-seen and liquidity for pools found again, and the diff
+   */
+  recordPoolDiscovery(run: Omit<PoolDiscoveryRunRow, 'id'>, added: PoolRegistryRow[], sightings: PoolSighting[]): number | null {
+    const insertPool = this.db.prepare(`
+      INSERT OR IGNORE INTO pool_registry (
+        pair_id, address, name, dex, fee_tier, pool_id, v4_pool_key, tokens, volume_24h, liquidity_usd,
+        status, enabled, source, first_seen, last_seen, reviewed_at
+      )
+      VALUES (@pair_id, @address, @name, @dex, @fee_tier, @pool_id, @v4_pool_key, @tokens, @volume_24h, @liquidity_usd,
+              @status, @enabled, @source, @first_seen, @last_seen, @reviewed_at)
+    `);
+    const markSeen = this.db.prepare(`
+      UPDATE pool_registry SET last_seen = ?, liquidity_usd = COALESCE(?, liquidity_usd)
+      WHERE pair_id = ? AND address = ?
+    `);
+    const insertSnapshot = this.db.prepare(`
+      INSERT INTO pool_liquidity_snapshots (pair_id, address, timestamp, liquidity_usd) VALUES (?, ?, ?, ?)
+    `);
+    const insertRun = this.db.prepare(`
+      INSERT INTO pool_discovery_runs (timestamp, pair_id, source, added, removed, liquidity_changed, diff)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    try {
+      return this.db.transaction(() => {
+        added.forEach(row => insertPool.run(row));
+
+        const seen = [...sightings, ...added.map(row => ({ address: row.address, liquidity_usd: row.liquidity_usd }))];
+        seen.forEach(sighting => {
+          markSeen.run(run.timestamp, sighting.liquidity_usd, run.pair_id, sighting.address);
+          if (sighting.liquidity_usd !== null) {
+            insertSnapshot.run(run.pair_id, sighting.address, run.timestamp, sighting.liquidity_usd);
+          }
+        });
+
+        return Number(insertRun.run(
+          run.timestamp, run.pair_id, run.source, run.added, run.removed, run.liquidity_changed, run.diff
+        ).lastInsertRowid);
+      })();
+    } catch (error) {
+      console.error('Error recording pool discovery:', error);
+      return null;
+    }
+  }
+
+  setRegistryPoolStatus(pairId: string, address: string, status: PoolReviewStatus): boolean {
+    try {
+      return this.db.prepare('UPDATE pool_registry SET status = ?, reviewed_at = ? WHERE pair_id = ? AND address = ?')
+        .run(status, Date.now(), pairId, address).changes > 0;
+    } catch (error) {
+      console.error('Error updating pool review status:', error);
+      return false;
+    }
+  }
+
+  setRegistryPoolEnabled(pairId: string, address: string, enabled: boolean): boolean {
+    try {
+      return this.db.prepare('UPDATE pool_registry SET enabled = ? WHERE pair_id = ? AND address = ?')
+        .run(enabled ? 1 : 0, pairId, address).changes > 0;
+    } catch (error) {
+      console.error('Error updating pool enabled flag:', error);
+      return false;
+    }
+  }
+
+  getPoolDiscoveryRuns(pairId?: string, limit: number = 20): PoolDiscoveryRunRow[] {
+    const query = this.db.prepare(`
+      SELECT id, timestamp, pair_id, source, added, removed, liquidity_changed, diff
+      FROM pool_discovery_runs
+      WHERE (@pairId IS NULL OR pair_id = @pairId)
+      ORDER BY timestamp DESC, id DESC
+      LIMIT @limit
+    `);
+
+    try {
+      return query.all({ pairId: pairId ?? null, limit }) as PoolDiscoveryRunRow[];
+    } catch (error) {
+      console.error('Error fetching pool discovery runs:', error);
+      return [];
+    }
+  }
+
+  getPoolLiquiditySnapshots(pairId: string, address: string): PoolLiquiditySnapshotRow[] {
+    const query = this.db.prepare(`
+      SELECT timestamp, liquidity_usd FROM pool_liquidity_snapshots
+      WHERE pair_id = ? AND address = ?
+      ORDER BY timestamp ASC
+    `);
+
+    try {
+      return query.all(pairId, address) as PoolLiquiditySnapshotRow[];
+    } catch (error) {
+      console.error('Error fetching pool liquidity snapshots:', error);
+      return [];
+    }
+  }
+
   getHistoricalData(pairId: string, hoursBack: number = 24): HistoricalData[] {
     const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
     
@@ -110,7 +722,7 @@ class DatabaseService {
     }
   }
 
-  getProtocolHistoricalRanks(pairId: string, protocol: string, hoursBack: number = 24) {
+  getProtocolHistoricalRanks(pairId: string, protocol: string, hoursBack: number = 24): Array<{ timestamp: number; rank: number; effective_rate: number }> {
     const cutoffTime = Date.now() - (hoursBack * 60 * 60 * 1000);
     
     const query = this.db.prepare(`
@@ -121,14 +733,14 @@ class DatabaseService {
     `);
 
     try {
-      return query.all(pairId, protocol, cutoffTime);
+      return query.all(pairId, protocol, cutoffTime) as Array<{ timestamp: number; rank: number; effective_rate: number }>;
     } catch (error) {
       console.error('Error fetching protocol historical ranks:', error);
       return [];
     }
   }
 
-  cleanup(daysToKeep: number = 7) {
+  cleanup(daysToKeep: number = HISTORY_RETENTION_DAYS) {
     const cutoffTime = Date.now() - (daysToKeep * 24 * 60 * 60 * 1000);
     
     const deleteOld = this.db.prepare(`
@@ -139,11 +751,24 @@ class DatabaseService {
       DELETE FROM protocol_rankings WHERE timestamp < ?
     `);
 
+    // Backfilled runs are kept for long-range reports, child rows go with their run
+    const oldLiveRuns = `SELECT id FROM comparison_runs WHERE timestamp < ? AND source = 'live'`;
+    const deleteOldPoolQuotes = this.db.prepare(`DELETE FROM pool_quotes WHERE run_id IN (${oldLiveRuns})`);
+    const deleteOldSummaries = this.db.prepare(`DELETE FROM protocol_summaries WHERE run_id IN (${oldLiveRuns})`);
+    const deleteOldGaps = this.db.prepare(`DELETE FROM competitive_gaps WHERE run_id IN (${oldLiveRuns})`);
+    const deleteOldRuns = this.db.prepare(`DELETE FROM comparison_runs WHERE timestamp < ? AND source = 'live'`);
+
     try {
       const deletedQuotes = deleteOld.run(cutoffTime);
       const deletedRankings = deleteOldRankings.run(cutoffTime);
+      const deletedRuns = this.db.transaction(() => {
+        deleteOldPoolQuotes.run(cutoffTime);
+        deleteOldSummaries.run(cutoffTime);
+        deleteOldGaps.run(cutoffTime);
+        return deleteOldRuns.run(cutoffTime).changes;
+      })();
       
-      console.log(`Cleaned up ${deletedQuotes.changes} old quotes and ${deletedRankings.changes} old rankings`);
+      console.log(`Cleaned up ${deletedQuotes.changes} old quotes, ${deletedRankings.changes} old rankings and ${deletedRuns} old comparison runs`);
     } catch (error) {
       console.error('Error during cleanup:', error);
     }
@@ -7,7 +7,20 @@
 import { ethers } from 'ethers';
 import CoinGeckoPoolService, { type PoolInfo } from './coinGeckoPoolService';
 import HardcodedPoolService from './hardcodedPoolService';
-import OnChainQuoteService, { type SwapSimulation, type OnChainQuote, type PoolRanking } from './onChainQuoteService';
+import OnChainQuoteService, {
+  type SwapSimulation,
+  type OnChainQuote,
+  type PoolRanking,
+  type QuoteSource,
+  type RankingOptions,
+  type QuoteContext,
+  type PoolSizeCurve,
+  type SizeLadderStep,
+  type LocalSimulationMode
+} from './onChainQuoteService';
+import PoolEligibilityService, { type EligibilityCriteria, type PoolExclusion } from './poolEligibilityService';
+import { generateProtocolSummary, getBestProtocol, rankQuotes } from './quoteRanking';
+import { getCompetitiveGap, type CompetitiveGap } from './competitiveGap';
 import type { TokenPair } from '../types/api';
 import { alchemyRateLimiter } from '../utils/rateLimiter';
 import { logger } from './logger';
@@ -21,6 +34,11 @@ export interface DexComparisonResult {
   simulation: SwapSimulation;
   bestProtocol: string | null;
   protocolSummary: ProtocolSummary[];
+  includeEstimated: boolean; // Whether estimated quotes took part in rankings
+  sizeCurves: PoolSizeCurve[]; // Per-pool output and price impact across the size ladder
+  blockNumber: number | null; // Block every on-chain quote was read at, null if no block was resolved
+  excludedPools: PoolExclusion[]; // Pools left out of the rankings by the eligibility filters, with the reason
+  competitiveGap: CompetitiveGap | null; // Best Uniswap pool vs best other venue, null unless both were ranked
 }
 
 export interface ProtocolSummary {
@@ -29,64 +47,129 @@ export interface ProtocolSummary {
   bestRank: number | null;
   avgRank: number | null;
   bestQuote: OnChainQuote | null;
+  quoteSource: QuoteSource | null; // Source of bestQuote
+  estimatedQuotes: number; // Successful quotes that were estimated rather than quoted
 }
 
+export interface ComparisonOptions extends RankingOptions {
+  sizeLadderUSD?: number[]; // Input sizes for price impact curves, [] to skip
+  batchAcrossPairs?: boolean; // compareMultiplePairs: quote all pairs concurrently through one Multicall3 batcher
+  blockTag?: number | 'latest'; // Block to quote at, a past block needs an archive node
+  pools?: PoolInfo[]; // Candidate pools found by the caller, skips discovery
+  eligibility?: Partial<EligibilityCriteria> | false; // Overrides for the pool filters, false ranks every pool
+  localSimulation?: LocalSimulationMode; // How size ladders quote V3/V4 pools, 'local' by default
+}
+
+// Where the ranking set comes from: the hard-coded list by default, the reviewed SQLite registry on the server
+export interface PoolSource {
+  getPoolsForPair(tokenPair: TokenPair): PoolInfo[];
+}
+
+// $1K to $5M, the sizes analysts compare execution quality at
+export const DEFAULT_SIZE_LADDER_USD = [1000, 10000, 100000, 1000000, 5000000];
+
 class DexComparisonService {
   private poolService: CoinGeckoPoolService;
   private hardcodedPoolService: HardcodedPoolService;
+  private poolSource: PoolSource;
   private quoteService: OnChainQuoteService;
-  private ALCHEMY_URL = `https://eth-mainnet.g.alchemy.com/v2/${import.meta.env.VITE_ALCHEMY_API_KEY || 'YOUR_ALCHEMY_API_KEY_HERE'}`;
+  private eligibilityService: PoolEligibilityService;
+  private alchemyUrl: string;
 
-  constructor() {
+  // Server-side only: the RPC URL carries the API key and must never reach the browser bundle
+  constructor(alchemyUrl: string, poolSource?: PoolSource) {
+    this.alchemyUrl = alchemyUrl;
     this.poolService = new CoinGeckoPoolService();
     this.hardcodedPoolService = new HardcodedPoolService();
-    this.quoteService = new OnChainQuoteService(this.ALCHEMY_URL);
+    this.poolSource = poolSource ?? this.hardcodedPoolService;
+    this.quoteService = new OnChainQuoteService(alchemyUrl);
+    this.eligibilityService = new PoolEligibilityService(alchemyUrl);
   }
 
   /**
    * Complete DEX comparison for a single token pair
    * This replaces our previous 0x API integration
    */
-  async compareTokenPair(tokenPair: TokenPair, inputAmountUSD: number = 10000): Promise<DexComparisonResult> {
+  async compareTokenPair(
+    tokenPair: TokenPair,
+    inputAmountUSD: number = 10000,
+    options: ComparisonOptions = {},
+    context?: QuoteContext
+  ): Promise<DexComparisonResult> {
     logger.info('DexComparisonService', `Starting DEX comparison for ${tokenPair.name} with $${inputAmountUSD.toLocaleString()}`);
     
     const startTime = Date.now();
     
     try {
-      // Step 1: Discover pools - use hardcoded first, fallback to CoinGecko
+      // Step 0: Pin the run to one block so every quote in the result is comparable and reproducible
+      const quoteContext = context ?? await this.quoteService.createQuoteContext(options.blockTag);
+
+      // Step 1: Discover pools - caller's candidates, then the pool source, then CoinGecko
       logger.info('DexComparisonService', `Step 1: Discovering pools for ${tokenPair.name}`);
       
       let pools: PoolInfo[] = [];
       
-      // First try hardcoded pools for faster response
-      pools = this.hardcodedPoolService.getPoolsForPair(tokenPair);
+      // First try the registered pools for faster response
+      pools = options.pools ?? this.poolSource.getPoolsForPair(tokenPair);
       
       if (pools.length === 0) {
-        logger.info('DexComparisonService', `No hardcoded pools for ${tokenPair.name}, falling back to CoinGecko API`);
+        logger.info('DexComparisonService', `No registered pools for ${tokenPair.name}, falling back to CoinGecko API`);
         pools = await this.poolService.findPoolsForPair(tokenPair);
         
         if (pools.length === 0) {
-          logger.warn('DexComparisonService', `No pools found for ${tokenPair.name} in either hardcoded or CoinGecko`);
-          return this.createEmptyResult(tokenPair, inputAmountUSD, startTime);
+          logger.warn('DexComparisonService', `No pools found for ${tokenPair.name} in either the pool registry or CoinGecko`);
+          return this.createEmptyResult(tokenPair, inputAmountUSD, startTime, options, quoteContext.blockNumber);
         }
       } else {
-        logger.info('DexComparisonService', `Using ${pools.length} hardcoded pools for ${tokenPair.name} (API calls avoided)`);
+        logger.info('DexComparisonService', `Using ${pools.length} ${options.pools ? 'supplied' : 'registered'} pools for ${tokenPair.name} (API calls avoided)`);
+      }
+
+      // Aggregator APIs only quote the current block, so they can't take part in a pinned historical run
+      if (typeof options.blockTag === 'number') {
+        const pinnedPools = pools.filter(pool => pool.dex !== 'zerox');
+        if (pinnedPools.length < pools.length) {
+          logger.info('DexComparisonService', `Skipping aggregator quotes for historical block ${options.blockTag}`);
+        }
+        pools = pinnedPools;
+      }
+
+      // Step 1b: Drop pools no trader would route through - dust TVL, no in-range liquidity, no recent swaps
+      let excludedPools: PoolExclusion[] = [];
+      if (options.eligibility !== false) {
+        const eligibility = await this.eligibilityService.filterPools(pools, tokenPair, quoteContext, options.eligibility);
+        pools = eligibility.eligible;
+        excludedPools = eligibility.excluded;
       }
 
       logger.info('DexComparisonService', `Found ${pools.length} pools across ${this.countProtocols(pools)} protocols`);
       
-      // Step 2: Simulate swaps on-chain - use token pair's configured sellAmount
-      const sellAmountBigInt = BigInt(tokenPair.sellAmount);
-      const sellAmountFormatted = ethers.formatUnits(sellAmountBigInt, tokenPair.sellToken.decimals);
-      logger.info('DexComparisonService', `Step 2: Simulating ${sellAmountFormatted} ${tokenPair.sellToken.symbol} swaps`);
-      const simulation = await this.quoteService.simulateSwapsWithAmount(pools, sellAmountBigInt, tokenPair);
+      // Step 2: Simulate swaps on-chain - sellAmount for exact input, buyAmount for exact output
+      const side = tokenPair.side ?? 'sell';
+      if (side === 'buy' && !tokenPair.buyAmount) {
+        logger.warn('DexComparisonService', `No buyAmount configured for ${tokenPair.name}, cannot quote exact output`);
+        return this.createEmptyResult(tokenPair, inputAmountUSD, startTime, options, quoteContext.blockNumber);
+      }
+      const amountBigInt = BigInt(side === 'buy' ? tokenPair.buyAmount! : tokenPair.sellAmount);
+      const amountToken = side === 'buy' ? tokenPair.buyToken : tokenPair.sellToken;
+      const amountFormatted = ethers.formatUnits(amountBigInt, amountToken.decimals);
+      logger.info('DexComparisonService', `Step 2: Simulating ${side === 'buy' ? 'buys of' : 'sells of'} ${amountFormatted} ${amountToken.symbol}`);
+      const simulation = await this.quoteService.simulateSwapsWithAmount(pools, amountBigInt, tokenPair, options, quoteContext);
       
       const successfulQuotes = simulation.quotes.filter(q => q.success).length;
       logger.info('DexComparisonService', `Successfully quoted ${successfulQuotes}/${pools.length} pools`);
+
+      // Step 2b: Price impact curves - sizes are scaled from the pair's quoted amount, which is worth inputAmountUSD
+      const sizeLadderUSD = options.sizeLadderUSD ?? DEFAULT_SIZE_LADDER_USD;
+      let sizeCurves: PoolSizeCurve[] = [];
+      if (sizeLadderUSD.length > 0) {
+        logger.info('DexComparisonService', `Step 2b: Simulating ${sizeLadderUSD.length} trade sizes for ${tokenPair.name}`);
+        const ladder = this.buildSizeLadder(amountBigInt, inputAmountUSD, sizeLadderUSD);
+        sizeCurves = await this.quoteService.simulateSizeLadder(pools, ladder, tokenPair, quoteContext, options.localSimulation);
+      }
       
       // Step 3: Generate protocol summary
-      const protocolSummary = this.generateProtocolSummary(simulation);
-      const bestProtocol = protocolSummary.length > 0 ? protocolSummary[0].protocol : null;
+      const protocolSummary = generateProtocolSummary(simulation);
+      const bestProtocol = getBestProtocol(protocolSummary);
       
       const result: DexComparisonResult = {
         pair: tokenPair,
@@ -96,17 +179,23 @@ class DexComparisonService {
         successfulQuotes,
         simulation,
         bestProtocol,
-        protocolSummary
+        protocolSummary,
+        includeEstimated: !!options.includeEstimated,
+        sizeCurves,
+        blockNumber: quoteContext.blockNumber,
+        excludedPools,
+        competitiveGap: getCompetitiveGap(simulation)
       };
 
       const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(`🏁 Completed ${tokenPair.name} comparison in ${duration}s`);
+      const { calls, batches } = quoteContext.multicall.getStats();
+      console.log(`🏁 Completed ${tokenPair.name} comparison in ${duration}s (${calls} calls in ${batches} multicalls at block ${quoteContext.blockNumber})`);
       
       return result;
 
     } catch (error) {
       console.error(`❌ Error comparing ${tokenPair.name}:`, error);
-      return this.createEmptyResult(tokenPair, inputAmountUSD, startTime);
+      return this.createEmptyResult(tokenPair, inputAmountUSD, startTime, options);
     }
   }
 
@@ -115,15 +204,26 @@ class DexComparisonService {
    */
   async compareMultiplePairs(
     tokenPairs: TokenPair[], 
-    inputAmountUSD: number = 10000
+    inputAmountUSD: number = 10000,
+    options: ComparisonOptions = {}
   ): Promise<DexComparisonResult[]> {
     console.log(`🔄 Starting batch comparison of ${tokenPairs.length} token pairs`);
     
+    if (options.batchAcrossPairs) {
+      // Every pair shares one context, so their quotes go out in the same multicalls at the same block
+      const context = await this.quoteService.createQuoteContext(options.blockTag);
+      const results = await Promise.all(
+        tokenPairs.map(pair => this.compareTokenPair(pair, inputAmountUSD, options, context))
+      );
+      console.log(`✅ Completed batch comparison of ${tokenPairs.length} pairs at block ${context.blockNumber}`);
+      return results;
+    }
+    
     const results: DexComparisonResult[] = [];
     
     // Process pairs sequentially to avoid overwhelming APIs
     for (const pair of tokenPairs) {
-      const result = await this.compareTokenPair(pair, inputAmountUSD);
+      const result = await this.compareTokenPair(pair, inputAmountUSD, options);
       results.push(result);
       
       // Add delay between pairs
@@ -189,70 +289,17 @@ class DexComparisonService {
   }
 
   /**
-   * Generate protocol performance summary
-   */
-  private generateProtocolSummary(simulation: SwapSimulation): ProtocolSummary[] {
-    const protocolMap = new Map<string, {
-      quotes: OnChainQuote[];
-      rankings: PoolRanking[];
-    }>();
-
-    // Group by protocol
-    simulation.quotes.forEach(quote => {
-      const protocol = quote.pool.dex;
-      if (!protocolMap.has(protocol)) {
-        protocolMap.set(protocol, { quotes: [], rankings: [] });
-      }
-      protocolMap.get(protocol)!.quotes.push(quote);
-    });
-
-    simulation.rankings.forEach(ranking => {
-      const protocol = ranking.pool.dex;
-      if (protocolMap.has(protocol)) {
-        protocolMap.get(protocol)!.rankings.push(ranking);
-      }
-    });
-
-    // Generate summary for each protocol
-    const summaries: ProtocolSummary[] = [];
-    
-    protocolMap.forEach((data, protocol) => {
-      const successfulQuotes = data.quotes.filter(q => q.success);
-      const ranks = data.rankings.map(r => r.rank);
-      
-      summaries.push({
-        protocol: this.formatProtocolName(protocol),
-        poolCount: data.quotes.length,
-        bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
-        avgRank: ranks.length > 0 ? ranks.reduce((a, b) => a + b, 0) / ranks.length : null,
-        bestQuote: successfulQuotes.length > 0 
-          ? successfulQuotes.sort((a, b) => parseFloat(b.outputAmount) - parseFloat(a.outputAmount))[0]
-          : null
-      });
-    });
-
-    // Sort by best performance (lowest best rank)
-    return summaries.sort((a, b) => {
-      if (a.bestRank === null) return 1;
-      if (b.bestRank === null) return -1;
-      return a.bestRank - b.bestRank;
-    });
-  }
-
-  /**
-   * Format protocol names for display
+   * Convert USD sizes into token amounts using the pair's quoted amount as the price reference
    */
-  private formatProtocolName(protocol: string): string {
-    const formatMap: Record<string, string> = {
-      'uniswap_v2': 'Uniswap V2',
-      'uniswap_v3': 'Uniswap V3', 
-      'sushiswap': 'SushiSwap',
-      'curve': 'Curve Finance',
-      'balancer': 'Balancer',
-      'pancakeswap': 'PancakeSwap'
-    };
-    
-    return formatMap[protocol] || protocol.charAt(0).toUpperCase() + protocol.slice(1);
+  private buildSizeLadder(referenceAmount: bigint, inputAmountUSD: number, sizesUSD: number[]): SizeLadderStep[] {
+    // Work in cents so fractional USD sizes stay exact in bigint math
+    const referenceCents = BigInt(Math.round(inputAmountUSD * 100));
+    return sizesUSD
+      .filter(sizeUSD => sizeUSD > 0)
+      .map(sizeUSD => ({
+        sizeUSD,
+        amount: (referenceAmount * BigInt(Math.round(sizeUSD * 100))) / referenceCents
+      }));
   }
 
   /**
@@ -268,7 +315,9 @@ class DexComparisonService {
   private createEmptyResult(
     tokenPair: TokenPair, 
     inputAmountUSD: number, 
-    timestamp: number
+    timestamp: number,
+    options: ComparisonOptions = {},
+    blockNumber: number | null = null
   ): DexComparisonResult {
     return {
       pair: tokenPair,
@@ -276,13 +325,14 @@ class DexComparisonService {
       inputAmountUSD,
       totalPoolsFound: 0,
       successfulQuotes: 0,
-      simulation: {
-        quotes: [],
-        bestQuote: null,
-        rankings: []
-      },
+      simulation: rankQuotes([], options, tokenPair.side),
       bestProtocol: null,
-      protocolSummary: []
+      protocolSummary: [],
+      includeEstimated: !!options.includeEstimated,
+      sizeCurves: [],
+      blockNumber,
+      excludedPools: [],
+      competitiveGap: null
     };
   }
 
@@ -320,7 +370,7 @@ class DexComparisonService {
     try {
       // Test Alchemy RPC
       const response = await alchemyRateLimiter.execute(() =>
-        fetch(this.ALCHEMY_URL, {
+        fetch(this.alchemyUrl, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
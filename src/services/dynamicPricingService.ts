@@ -5,6 +5,7 @@
  */
 
 import { logger } from './logger';
+import { isNativeEth } from '../config/tokens';
 
 export interface TokenPrice {
   symbol: string;
@@ -31,7 +32,7 @@ class DynamicPricingService {
   // Your CoinGecko API configuration
   private readonly API_HEADERS = {
     'User-Agent': 'ZookCryptoAnalytics/1.0 (contact@zook.com)',
-    'x-cg-demo-api-key': import.meta.env.COINGECKO_API_KEY,
+    'x-cg-demo-api-key': import.meta.env?.COINGECKO_API_KEY ?? process.env.COINGECKO_API_KEY,
     'Accept': 'application/json',
     'Accept-Encoding': 'gzip'
   };
@@ -62,6 +63,9 @@ class DynamicPricingService {
    * Get current token price in USD with proper error handling
    */
   async getTokenPrice(symbol: string): Promise<TokenPrice> {
+    // Native ETH has no token contract and trades at the WETH price
+    if (symbol === 'ETH') return this.getTokenPrice('WETH');
+
     await this.ensurePricesLoaded();
     
     const address = this.TOKEN_ADDRESSES[symbol];
@@ -85,6 +89,19 @@ class DynamicPricingService {
     }
   }
 
+  /**
+   * Price any ERC-20 by contract address, for tokens outside the symbol mapping
+   */
+  async getTokenPriceByAddress(symbol: string, address: string): Promise<TokenPrice> {
+    if (isNativeEth(address)) return this.getTokenPrice('WETH');
+
+    const cached = this.priceCache.get(address);
+    if (cached && this.isCacheValid(cached.last_updated)) {
+      return cached;
+    }
+    return this.fetchFromTokenPriceAPI(symbol, address);
+  }
+
   /**
    * Calculate input amount for target USD value using dynamic pricing
    */
@@ -7,7 +7,8 @@
 import { ethers } from 'ethers';
 import CoinGeckoPoolService, { type PoolInfo } from './coinGeckoPoolService';
 import HardcodedPoolService from './hardcodedPoolService';
-import OnChainQuoteService, { type SwapSimulation, type OnChainQuote } from './onChainQuoteService';
+import OnChainQuoteService, { type SwapSimulation, type OnChainQuote, type QuoteSource } from './onChainQuoteService';
+import { getQuoteSource, rankQuotes } from './quoteRanking';
 import { dynamicTokenPairService, type DynamicTokenPair } from '../config/dynamicTokenPairs';
 import type { TokenPair } from '../types/api';
 import { logger } from './logger';
@@ -35,18 +36,18 @@ export interface ProtocolSummary {
   bestRank: number | null;
   avgRank: number | null;
   bestQuote: OnChainQuote | null;
+  quoteSource: QuoteSource | null; // Source of bestQuote
 }
 
 class EnhancedDexComparisonService {
   private poolService: CoinGeckoPoolService;
   private hardcodedPoolService: HardcodedPoolService;
   private quoteService: OnChainQuoteService;
-  private ALCHEMY_URL = 'https://eth-mainnet.g.alchemy.com/v2/QVvswhgDKgK5Xuf3Jkb1M';
 
-  constructor() {
+  constructor(alchemyUrl: string) {
     this.poolService = new CoinGeckoPoolService();
     this.hardcodedPoolService = new HardcodedPoolService();
-    this.quoteService = new OnChainQuoteService(this.ALCHEMY_URL);
+    this.quoteService = new OnChainQuoteService(alchemyUrl);
   }
 
   /**
@@ -104,7 +105,7 @@ class EnhancedDexComparisonService {
       
       // Step 4: Generate protocol summary
       const protocolSummary = this.generateProtocolSummary(simulation);
-      const bestProtocol = protocolSummary.length > 0 ? protocolSummary[0].protocol : null;
+      const bestProtocol = protocolSummary.length > 0 && protocolSummary[0].bestRank !== null ? protocolSummary[0].protocol : null;
       
       const result: EnhancedDexComparisonResult = {
         pair: dynamicPair,
@@ -208,7 +209,7 @@ class EnhancedDexComparisonService {
       
       // Generate summary
       const protocolSummary = this.generateProtocolSummary(simulation);
-      const bestProtocol = protocolSummary.length > 0 ? protocolSummary[0].protocol : null;
+      const bestProtocol = protocolSummary.length > 0 && protocolSummary[0].bestRank !== null ? protocolSummary[0].protocol : null;
       
       return {
         pair: dynamicPair,
@@ -262,11 +263,7 @@ class EnhancedDexComparisonService {
       inputAmountUSD: pair.targetUSD,
       totalPoolsFound: 0,
       successfulQuotes: 0,
-      simulation: {
-        quotes: [],
-        bestQuote: null,
-        rankings: []
-      },
+      simulation: rankQuotes([]),
       bestProtocol: null,
       protocolSummary: [],
       pricingInfo: {
@@ -334,7 +331,8 @@ class EnhancedDexComparisonService {
         poolCount: data.pools.length,
         bestRank: rankings.length > 0 ? Math.min(...rankings) : null,
         avgRank: rankings.length > 0 ? Math.round(rankings.reduce((a, b) => a + b, 0) / rankings.length) : null,
-        bestQuote: data.bestQuote
+        bestQuote: data.bestQuote,
+        quoteSource: data.bestQuote ? getQuoteSource(data.bestQuote) : null
       });
     }
 
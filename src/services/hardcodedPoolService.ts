@@ -4,7 +4,7 @@
  * Pools sourced from CoinGecko and manually curated for highest liquidity
  */
 
-import type { PoolInfo } from './coinGeckoPoolService';
+import type { PoolInfo, V4PoolKey } from './coinGeckoPoolService';
 import type { TokenPair } from '../types/api';
 import { logger } from './logger';
 
@@ -13,6 +13,8 @@ interface HardcodedPool {
   name: string;
   dex: string;
   fee_tier?: string;
+  pool_id?: string; // Balancer V2 Vault pool ID
+  v4_pool_key?: V4PoolKey; // Uniswap V4 PoolKey, must hash to the pool ID in address
   volume_24h: number;
   liquidity_usd: number;
   tokens: {
@@ -40,6 +42,13 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       name: 'ETH/USDT 0.05%',
       dex: 'uniswap_v4',
       fee_tier: '500',
+      v4_pool_key: {
+        currency0: '0x0000000000000000000000000000000000000000',
+        currency1: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        fee: 500,
+        tickSpacing: 10,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
       volume_24h: 36108572,
       liquidity_usd: 33065537,
       tokens: {
@@ -93,6 +102,17 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
         quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
       }
     },
+    {
+      address: '0xD51a44d3FaE010294C616388b506AcdA1bfAAE46',
+      name: 'WETH/USDT Curve Tricrypto2',
+      dex: 'curve',
+      volume_24h: 20000000,
+      liquidity_usd: 30000000,
+      tokens: {
+        base: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    },
     {
       address: 'zeroX-aggregator-weth-usdt',
       name: 'WETH/USDT Aggregator',
@@ -107,6 +127,76 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
     }
   ],
 
+  // Native ETH legs: V4 pools hold ETH itself, the ERC-20 venues are quoted through WETH and rank with a wrap step
+  'eth-usdt': [
+    {
+      address: '0x72331fcb696b0151904c03584b66dc8365bc63f8a144d89a773384e3a579ca73',
+      name: 'ETH/USDT 0.05%',
+      dex: 'uniswap_v4',
+      fee_tier: '500',
+      v4_pool_key: {
+        currency0: '0x0000000000000000000000000000000000000000',
+        currency1: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        fee: 500,
+        tickSpacing: 10,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
+      volume_24h: 36108572,
+      liquidity_usd: 33065537,
+      tokens: {
+        base: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    },
+    {
+      address: '0x11b815efB8f581194ae79006d24E0d814B7697F6',
+      name: 'WETH/USDT 0.05%',
+      dex: 'uniswap_v3',
+      fee_tier: '500',
+      volume_24h: 150000000,
+      liquidity_usd: 400000000,
+      tokens: {
+        base: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    },
+    {
+      address: '0x4e68Ccd3E89f51C3074ca5072bbAC773960dFa36',
+      name: 'WETH/USDT 0.30%',
+      dex: 'uniswap_v3',
+      fee_tier: '3000',
+      volume_24h: 80000000,
+      liquidity_usd: 200000000,
+      tokens: {
+        base: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    },
+    {
+      address: '0x0d4a11d5EEaaC28EC3F61d100daF4d40471f1852',
+      name: 'WETH/USDT',
+      dex: 'uniswap_v2',
+      volume_24h: 25000000,
+      liquidity_usd: 120000000,
+      tokens: {
+        base: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    },
+    {
+      address: 'zeroX-aggregator-eth-usdt',
+      name: 'ETH/USDT Aggregator',
+      dex: 'zerox',
+      fee_tier: 'variable',
+      volume_24h: 100000000, // High volume due to aggregation
+      liquidity_usd: 250000000, // Virtual liquidity representing aggregated sources
+      tokens: {
+        base: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+        quote: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 }
+      }
+    }
+  ],
+
   'wbtc-usdc': [
     {
       address: '0x99ac8ca7087fa4a2a1fb6357269965a2014abc35',
@@ -144,6 +234,17 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
         quote: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 }
       }
     },
+    {
+      address: '0x7F86Bf177Dd4F3494b841a37e810A34dD56c829B',
+      name: 'WBTC/USDC Curve TricryptoUSDC',
+      dex: 'curve',
+      volume_24h: 10000000,
+      liquidity_usd: 25000000,
+      tokens: {
+        base: { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', symbol: 'WBTC', decimals: 8 },
+        quote: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 }
+      }
+    },
     {
       address: '0x56534741cd8b152df6d48adf7ac51f75169a83b2',
       name: 'WBTC/USDT Fallback',
@@ -179,6 +280,13 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       name: 'UNI/ETH V4',
       dex: 'uniswap_v4',
       fee_tier: '3000',
+      v4_pool_key: {
+        currency0: '0x0000000000000000000000000000000000000000',
+        currency1: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
+        fee: 3000,
+        tickSpacing: 60,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
       volume_24h: 25000000,
       liquidity_usd: 85000000,
       tokens: {
@@ -217,6 +325,13 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       name: 'ETH/USDC 0.01%',
       dex: 'uniswap_v4',
       fee_tier: '100',
+      v4_pool_key: {
+        currency0: '0x0000000000000000000000000000000000000000',
+        currency1: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+        fee: 100,
+        tickSpacing: 1,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
       volume_24h: 73975834,
       liquidity_usd: 6901141,
       tokens: {
@@ -312,6 +427,7 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       address: '0x06df3b2bbb68adc8b0e302443692037ed9f91b42',
       name: 'USDC/DAI Balancer',
       dex: 'balancer',
+      pool_id: '0x06df3b2bbb68adc8b0e302443692037ed9f91b42000000000000000000000063', // staBAL3 stable pool
       volume_24h: 20000000,
       liquidity_usd: 150000000,
       tokens: {
@@ -347,10 +463,17 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       }
     },
     {
-      address: '0xaae9da4a878406eb1de54efac30e239fd56d54fb',
+      address: '0xaae9da4a878406eb1de54efac30e239fd56d54fb8051e59f6fee529bc9609b3b',
       name: 'USDe/USDT 0.0063%',
       dex: 'uniswap_v4',
       fee_tier: '63',
+      v4_pool_key: {
+        currency0: '0x4c9EDD5852cd905f086C759E8383e09bff1E68B3',
+        currency1: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        fee: 63,
+        tickSpacing: 1,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
       volume_24h: 72269924,
       liquidity_usd: 80000000,
       tokens: {
@@ -371,10 +494,17 @@ const HARDCODED_POOLS: Record<string, HardcodedPool[]> = {
       }
     },
     {
-      address: '0x9ebc4fcaab898b75c1d1f6f7a301621fb004a9f3',
-      name: 'USDe/USDT 0.003%',
+      address: '0x9ebc4fcaab898b75c1d1f6f7a301621fb004a9f302e1eb00218b2329e78ff579',
+      name: 'USDe/USDT 0.0029%',
       dex: 'uniswap_v4',
-      fee_tier: '30',
+      fee_tier: '29',
+      v4_pool_key: {
+        currency0: '0x4c9EDD5852cd905f086C759E8383e09bff1E68B3',
+        currency1: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+        fee: 29,
+        tickSpacing: 1,
+        hooks: '0x0000000000000000000000000000000000000000'
+      },
       volume_24h: 3229527,
       liquidity_usd: 25000000,
       tokens: {
@@ -429,7 +559,9 @@ class HardcodedPoolService {
       tokens: pool.tokens,
       fee_tier: pool.fee_tier,
       volume_24h: pool.volume_24h,
-      liquidity_usd: pool.liquidity_usd
+      liquidity_usd: pool.liquidity_usd,
+      pool_id: pool.pool_id,
+      v4_pool_key: pool.v4_pool_key
     }));
   }
 
@@ -449,7 +581,9 @@ class HardcodedPoolService {
         tokens: pool.tokens,
         fee_tier: pool.fee_tier,
         volume_24h: pool.volume_24h,
-        liquidity_usd: pool.liquidity_usd
+        liquidity_usd: pool.liquidity_usd,
+        pool_id: pool.pool_id,
+        v4_pool_key: pool.v4_pool_key
       }));
     });
 
@@ -0,0 +1,304 @@
+/**
+ * Local Pool Simulator
+ * Quotes Uniswap V3 and V4 pools in-process with the V3 SDK swap math, which V4 pools share, from one state snapshot per pool per block
+ * A snapshot holds slot0, in-range liquidity and every initialized tick within a few bitmap words of the current price,
+ * so any number of sizes costs the same handful of reads; swaps that run past the snapshot fail rather than guess
+ */
+
+import { Contract, type Provider } from 'ethers';
+import JSBI from 'jsbi';
+import type { BigintIsh } from '@uniswap/sdk-core';
+import { v3Swap, type TickDataProvider } from '@uniswap/v3-sdk';
+import type { PoolInfo } from './coinGeckoPoolService';
+import type { QuoteContext } from './onChainQuoteService';
+import { isSameAsset } from '../config/tokens';
+
+const UNISWAP_V3_POOL_ABI = [
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() external view returns (uint128)',
+  'function fee() external view returns (uint24)',
+  'function tickSpacing() external view returns (int24)',
+  'function token0() external view returns (address)',
+  'function token1() external view returns (address)',
+  'function tickBitmap(int16 wordPosition) external view returns (uint256)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'
+];
+
+const UNISWAP_V4_STATE_VIEW_ABI = [
+  'function getSlot0(bytes32 poolId) external view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)',
+  'function getLiquidity(bytes32 poolId) external view returns (uint128 liquidity)',
+  'function getTickBitmap(bytes32 poolId, int16 tick) external view returns (uint256 tickBitmap)',
+  'function getTickLiquidity(bytes32 poolId, int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet)'
+];
+
+const UNISWAP_V4_STATE_VIEW = '0x7ffe42c4a5deea5b0fec41c94c136cf115597227';
+
+// V4 hook permissions are flags in the low bits of the hook address, these let a hook change swap amounts
+const BEFORE_SWAP_FLAG = 1n << 7n;
+const AFTER_SWAP_FLAG = 1n << 6n;
+const BEFORE_SWAP_RETURNS_DELTA_FLAG = 1n << 3n;
+const AFTER_SWAP_RETURNS_DELTA_FLAG = 1n << 2n;
+const SWAP_HOOK_FLAGS = BEFORE_SWAP_FLAG | AFTER_SWAP_FLAG | BEFORE_SWAP_RETURNS_DELTA_FLAG | AFTER_SWAP_RETURNS_DELTA_FLAG;
+
+const WORDS_EACH_SIDE = 2; // Bitmap words read either side of the current one, 256 tick spacings each
+
+interface SnapshotTick {
+  index: number;
+  liquidityNet: bigint;
+}
+
+// Pool state at one block, everything the swap math needs
+export interface PoolSnapshot {
+  blockNumber: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number; // LP fee in pips, V4 dynamic-fee pools report the current one
+  tickSpacing: number;
+  ticks: SnapshotTick[]; // Initialized ticks in the covered words, ascending
+  words: { min: number; max: number }; // Bitmap words the ticks were read from
+  currency0: string;
+  currency1: string;
+}
+
+export interface LocalQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96After: string;
+  blockNumber: number;
+}
+
+/**
+ * Whether a V4 hook address has any permission that lets it change swap amounts
+ */
+function hasSwapHook(hooks: string): boolean {
+  return (BigInt(hooks) & SWAP_HOOK_FLAGS) !== 0n;
+}
+
+/**
+ * Serves the snapshot's ticks to the SDK, and refuses to walk into words it never read
+ */
+class SnapshotTickDataProvider implements TickDataProvider {
+  private ticks: SnapshotTick[];
+  private words: { min: number; max: number };
+
+  constructor(snapshot: PoolSnapshot) {
+    this.ticks = snapshot.ticks;
+    this.words = snapshot.words;
+  }
+
+  async getTick(tick: number): Promise<{ liquidityNet: BigintIsh }> {
+    const found = this.ticks.find(t => t.index === tick);
+    if (!found) {
+      throw new Error(`Tick ${tick} is not initialized in the snapshot`);
+    }
+    return { liquidityNet: found.liquidityNet.toString() };
+  }
+
+  async nextInitializedTickWithinOneWord(tick: number, lte: boolean, tickSpacing: number): Promise<[number, boolean]> {
+    const compressed = Math.floor(tick / tickSpacing);
+
+    if (lte) {
+      const word = compressed >> 8;
+      this.assertCovered(word);
+      const minimum = word * 256 * tickSpacing;
+      const next = [...this.ticks].reverse().find(t => t.index <= tick && t.index >= minimum);
+      return next ? [next.index, true] : [minimum, false];
+    }
+
+    const word = (compressed + 1) >> 8;
+    this.assertCovered(word);
+    const maximum = ((word + 1) * 256 - 1) * tickSpacing;
+    const next = this.ticks.find(t => t.index > tick && t.index <= maximum);
+    return next ? [next.index, true] : [maximum, false];
+  }
+
+  private assertCovered(word: number): void {
+    if (word < this.words.min || word > this.words.max) {
+      throw new Error(`Swap moves past the ${this.words.max - this.words.min + 1} tick bitmap words in the snapshot`);
+    }
+  }
+}
+
+class LocalPoolSimulator {
+  private provider: Provider;
+  private stateView: Contract;
+  private snapshots = new Map<string, { blockNumber: number; snapshot: Promise<PoolSnapshot> }>();
+
+  constructor(provider: Provider) {
+    this.provider = provider;
+    this.stateView = new Contract(UNISWAP_V4_STATE_VIEW, UNISWAP_V4_STATE_VIEW_ABI, provider);
+  }
+
+  /**
+   * V3 pools and V4 pools whose hooks cannot change swap amounts
+   */
+  supports(pool: PoolInfo): boolean {
+    if (pool.dex === 'uniswap_v3') return true;
+    return pool.dex === 'uniswap_v4' && !!pool.v4_pool_key && !hasSwapHook(pool.v4_pool_key.hooks);
+  }
+
+  /**
+   * Output for an exact input of the pool's base token
+   */
+  async quoteExactIn(pool: PoolInfo, amountIn: bigint, context: QuoteContext): Promise<LocalQuote> {
+    const snapshot = await this.getSnapshot(pool, context);
+    const { amount, sqrtPriceX96After } = await this.swap(pool, snapshot, amountIn);
+    return { amountIn, amountOut: -amount, sqrtPriceX96After, blockNumber: snapshot.blockNumber };
+  }
+
+  /**
+   * Base token input needed for an exact output of the quote token
+   */
+  async quoteExactOut(pool: PoolInfo, amountOut: bigint, context: QuoteContext): Promise<LocalQuote> {
+    const snapshot = await this.getSnapshot(pool, context);
+    const { amount, sqrtPriceX96After } = await this.swap(pool, snapshot, -amountOut);
+    return { amountIn: amount, amountOut, sqrtPriceX96After, blockNumber: snapshot.blockNumber };
+  }
+
+  /**
+   * Snapshot of the pool at the context's block, read once and shared by every quote at that block
+   */
+  getSnapshot(pool: PoolInfo, context: QuoteContext): Promise<PoolSnapshot> {
+    const key = pool.address.toLowerCase();
+    const cached = this.snapshots.get(key);
+    if (cached && cached.blockNumber === context.blockNumber) {
+      return cached.snapshot;
+    }
+
+    const snapshot = pool.dex === 'uniswap_v4' ? this.readV4Snapshot(pool, context) : this.readV3Snapshot(pool, context);
+    this.snapshots.set(key, { blockNumber: context.blockNumber, snapshot });
+    // A failed read is retried on the next quote instead of being served from the cache
+    snapshot.catch(() => {
+      if (this.snapshots.get(key)?.snapshot === snapshot) this.snapshots.delete(key);
+    });
+    return snapshot;
+  }
+
+  private async readV3Snapshot(pool: PoolInfo, context: QuoteContext): Promise<PoolSnapshot> {
+    const poolContract = new Contract(pool.address, UNISWAP_V3_POOL_ABI, this.provider);
+    const call = <T>(method: string, args: unknown[] = []) => context.multicall.call<T>(poolContract, method, args);
+
+    const [[sqrtPriceX96, tick], liquidity, fee, tickSpacing, token0, token1] = await Promise.all([
+      call<[bigint, bigint]>('slot0'),
+      call<bigint>('liquidity'),
+      call<bigint>('fee'),
+      call<bigint>('tickSpacing'),
+      call<string>('token0'),
+      call<string>('token1')
+    ]);
+
+    const spacing = Number(tickSpacing);
+    const { ticks, words } = await this.readTicks(
+      Number(tick),
+      spacing,
+      word => call<bigint>('tickBitmap', [word]),
+      async index => (await call<[bigint, bigint]>('ticks', [index]))[1]
+    );
+
+    return {
+      blockNumber: context.blockNumber,
+      sqrtPriceX96,
+      tick: Number(tick),
+      liquidity,
+      fee: Number(fee),
+      tickSpacing: spacing,
+      ticks,
+      words,
+      currency0: token0,
+      currency1: token1
+    };
+  }
+
+  private async readV4Snapshot(pool: PoolInfo, context: QuoteContext): Promise<PoolSnapshot> {
+    const key = pool.v4_pool_key;
+    if (!key) {
+      throw new Error(`No V4 PoolKey configured for ${pool.name} (${pool.address})`);
+    }
+    const call = <T>(method: string, args: unknown[]) => context.multicall.call<T>(this.stateView, method, [pool.address, ...args]);
+
+    const [[sqrtPriceX96, tick, , lpFee], liquidity] = await Promise.all([
+      call<[bigint, bigint, bigint, bigint]>('getSlot0', []),
+      call<bigint>('getLiquidity', [])
+    ]);
+
+    const { ticks, words } = await this.readTicks(
+      Number(tick),
+      key.tickSpacing,
+      word => call<bigint>('getTickBitmap', [word]),
+      async index => (await call<[bigint, bigint]>('getTickLiquidity', [index]))[1]
+    );
+
+    return {
+      blockNumber: context.blockNumber,
+      sqrtPriceX96,
+      tick: Number(tick),
+      liquidity,
+      fee: Number(lpFee), // Protocol fees are off on mainnet V4 pools, so the LP fee is the whole swap fee
+      tickSpacing: key.tickSpacing,
+      ticks,
+      words,
+      currency0: key.currency0,
+      currency1: key.currency1
+    };
+  }
+
+  /**
+   * Initialized ticks within WORDS_EACH_SIDE bitmap words of the current tick, with their liquidityNet
+   */
+  private async readTicks(
+    tick: number,
+    tickSpacing: number,
+    readWord: (word: number) => Promise<bigint>,
+    readLiquidityNet: (index: number) => Promise<bigint>
+  ): Promise<{ ticks: SnapshotTick[]; words: { min: number; max: number } }> {
+    const currentWord = Math.floor(tick / tickSpacing) >> 8;
+    const words = { min: currentWord - WORDS_EACH_SIDE, max: currentWord + WORDS_EACH_SIDE };
+    const wordPositions = Array.from({ length: words.max - words.min + 1 }, (_, i) => words.min + i);
+
+    const bitmaps = await Promise.all(wordPositions.map(readWord));
+    const indices = wordPositions.flatMap((word, i) => {
+      const bitmap = bitmaps[i];
+      const set: number[] = [];
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & 1n) set.push((word * 256 + bit) * tickSpacing);
+      }
+      return set;
+    });
+
+    const liquidityNets = await Promise.all(indices.map(readLiquidityNet));
+    return { ticks: indices.map((index, i) => ({ index, liquidityNet: liquidityNets[i] })), words };
+  }
+
+  /**
+   * Swap of the pool's base token for its quote token over the snapshot
+   * A positive amount is an exact input, a negative one an exact output; the returned amount is the other side, negative for output
+   */
+  private async swap(pool: PoolInfo, snapshot: PoolSnapshot, amount: bigint): Promise<{ amount: bigint; sqrtPriceX96After: string }> {
+    const result = await v3Swap(
+      JSBI.BigInt(snapshot.fee),
+      JSBI.BigInt(snapshot.sqrtPriceX96.toString()),
+      snapshot.tick,
+      JSBI.BigInt(snapshot.liquidity.toString()),
+      snapshot.tickSpacing,
+      new SnapshotTickDataProvider(snapshot),
+      this.isCurrency0(pool, snapshot),
+      JSBI.BigInt(amount.toString())
+    );
+    return { amount: BigInt(result.amountCalculated.toString()), sqrtPriceX96After: result.sqrtRatioX96.toString() };
+  }
+
+  /**
+   * Whether the base token is currency0, exact address first, then native ETH / WETH equivalence
+   */
+  private isCurrency0(pool: PoolInfo, snapshot: PoolSnapshot): boolean {
+    const base = pool.tokens.base.address.toLowerCase();
+    if (base === snapshot.currency0.toLowerCase()) return true;
+    if (base === snapshot.currency1.toLowerCase()) return false;
+    if (isSameAsset(base, snapshot.currency0)) return true;
+    if (isSameAsset(base, snapshot.currency1)) return false;
+    throw new Error(`Pool ${pool.address} holds ${snapshot.currency0}/${snapshot.currency1}, not ${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`);
+  }
+}
+
+export default LocalPoolSimulator;
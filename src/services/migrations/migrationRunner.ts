@@ -0,0 +1,116 @@
+/**
+ * Migration Runner
+ * Applies ordered schema migrations to a SQLite store and records the applied version in schema_version
+ * Each migration runs in its own transaction, so a failing migration leaves the store at the previous version
+ */
+
+import type Database from 'better-sqlite3';
+import { logger } from '../logger';
+
+export interface Migration {
+  version: number; // Strictly increasing, never reuse or renumber a released version
+  name: string;
+  up: string; // SQL, may contain several statements
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean; // Print the pending SQL without applying it
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  pending: Migration[]; // Applied, or would be applied on a dry run
+}
+
+class MigrationRunner {
+  private db: Database.Database;
+  private storeName: string;
+  private migrations: Migration[];
+
+  constructor(db: Database.Database, storeName: string, migrations: Migration[]) {
+    this.db = db;
+    this.storeName = storeName;
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = this.migrations.map(m => m.version);
+    if (new Set(versions).size !== versions.length) {
+      throw new Error(`Duplicate migration versions for ${storeName}: ${versions.join(', ')}`);
+    }
+  }
+
+  /**
+   * Highest applied version, 0 for a new store
+   */
+  getCurrentVersion(): number {
+    // Read-only so a dry run never touches the store
+    const table = this.db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'`).get();
+    if (!table) return 0;
+
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_version').get() as { version: number | null };
+    return row.version ?? 0;
+  }
+
+  /**
+   * Migrations newer than the store's current version
+   */
+  getPending(): Migration[] {
+    const currentVersion = this.getCurrentVersion();
+    return this.migrations.filter(m => m.version > currentVersion);
+  }
+
+  /**
+   * Apply every pending migration in order, or print them on a dry run
+   */
+  migrate(options: MigrationOptions = {}): MigrationResult {
+    const fromVersion = this.getCurrentVersion();
+    const pending = this.migrations.filter(m => m.version > fromVersion);
+
+    if (pending.length === 0) {
+      logger.debug('MigrationRunner', `${this.storeName} schema is up to date at version ${fromVersion}`);
+      return { fromVersion, toVersion: fromVersion, pending };
+    }
+
+    if (options.dryRun) {
+      console.log(`🧪 ${this.storeName}: ${pending.length} pending migration(s) from version ${fromVersion}`);
+      pending.forEach(migration => {
+        console.log(`-- ${migration.version}: ${migration.name}`);
+        console.log(migration.up.trim());
+      });
+      return { fromVersion, toVersion: fromVersion, pending };
+    }
+
+    this.ensureVersionTable();
+    const recordVersion = this.db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+
+    for (const migration of pending) {
+      const apply = this.db.transaction(() => {
+        this.db.exec(migration.up);
+        recordVersion.run(migration.version, migration.name, Date.now());
+      });
+
+      try {
+        apply();
+        logger.info('MigrationRunner', `${this.storeName}: applied migration ${migration.version} (${migration.name})`);
+      } catch (error) {
+        logger.error('MigrationRunner', `${this.storeName}: migration ${migration.version} (${migration.name}) failed`, error);
+        throw error;
+      }
+    }
+
+    const toVersion = pending[pending.length - 1].version;
+    return { fromVersion, toVersion, pending };
+  }
+
+  private ensureVersionTable() {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_version (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
+  }
+}
+
+export default MigrationRunner;
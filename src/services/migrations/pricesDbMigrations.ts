@@ -0,0 +1,26 @@
+/**
+ * Schema migrations for the token price cache (data/prices.db, PriceStorageService)
+ * Append new migrations with the next version number, never edit one that has shipped
+ */
+
+import type { Migration } from './migrationRunner';
+
+export const PRICES_DB_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'token_prices',
+    // IF NOT EXISTS adopts stores created before schema_version existed
+    up: `
+      CREATE TABLE IF NOT EXISTS token_prices (
+        symbol TEXT NOT NULL,
+        address TEXT NOT NULL,
+        price_usd REAL NOT NULL,
+        last_updated INTEGER NOT NULL,
+        source TEXT NOT NULL CHECK(source IN ('live', 'fallback')),
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (symbol, address)
+      );
+      CREATE INDEX IF NOT EXISTS idx_token_prices_updated ON token_prices (last_updated DESC);
+    `
+  }
+];
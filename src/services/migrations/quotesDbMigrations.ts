@@ -0,0 +1,203 @@
+/**
+ * Schema migrations for the quote history store (quotes.db, DatabaseService)
+ * Append new migrations with the next version number, never edit one that has shipped
+ */
+
+import type { Migration } from './migrationRunner';
+
+export const QUOTES_DB_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'quote_history',
+    up: `
+      CREATE TABLE IF NOT EXISTS historical_quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        pair_id TEXT NOT NULL,
+        pair_name TEXT NOT NULL,
+        total_buy_amount TEXT NOT NULL,
+        min_buy_amount TEXT NOT NULL,
+        rankings TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_historical_quotes_timestamp ON historical_quotes (timestamp);
+      CREATE INDEX IF NOT EXISTS idx_historical_quotes_pair_id ON historical_quotes (pair_id);
+
+      CREATE TABLE IF NOT EXISTS protocol_rankings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        pair_id TEXT NOT NULL,
+        protocol TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        effective_rate REAL NOT NULL,
+        total_proportion INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_protocol_rankings_timestamp_pair ON protocol_rankings (timestamp, pair_id);
+      CREATE INDEX IF NOT EXISTS idx_protocol_rankings_protocol ON protocol_rankings (protocol);
+    `
+  },
+  {
+    version: 2,
+    name: 'comparison_runs',
+    up: `
+      -- One row per on-chain comparison of a pair
+      CREATE TABLE IF NOT EXISTS comparison_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        pair_id TEXT NOT NULL,
+        pair_name TEXT NOT NULL,
+        side TEXT NOT NULL DEFAULT 'sell',
+        block_number INTEGER,
+        input_amount_usd REAL NOT NULL,
+        total_pools_found INTEGER NOT NULL,
+        successful_quotes INTEGER NOT NULL,
+        best_protocol TEXT,
+        gas_adjusted INTEGER NOT NULL DEFAULT 0,
+        include_estimated INTEGER NOT NULL DEFAULT 0,
+        source TEXT NOT NULL DEFAULT 'live',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_comparison_runs_pair_time ON comparison_runs (pair_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_comparison_runs_pair_block ON comparison_runs (pair_id, block_number);
+
+      -- Every pool quoted in a run, including failures, with its rank if it was ranked
+      CREATE TABLE IF NOT EXISTS pool_quotes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES comparison_runs(id) ON DELETE CASCADE,
+        pool_address TEXT NOT NULL,
+        pool_name TEXT NOT NULL,
+        dex TEXT NOT NULL,
+        fee_tier TEXT,
+        input_amount TEXT NOT NULL,
+        output_amount TEXT NOT NULL,
+        net_amount TEXT,
+        gas_estimate TEXT,
+        effective_price REAL,
+        rank INTEGER,
+        price_advantage REAL,
+        quote_source TEXT,
+        success INTEGER NOT NULL,
+        error TEXT,
+        block_number INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_pool_quotes_run ON pool_quotes (run_id);
+      CREATE INDEX IF NOT EXISTS idx_pool_quotes_pool ON pool_quotes (pool_address);
+
+      CREATE TABLE IF NOT EXISTS protocol_summaries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL REFERENCES comparison_runs(id) ON DELETE CASCADE,
+        protocol TEXT NOT NULL,
+        pool_count INTEGER NOT NULL,
+        best_rank INTEGER,
+        avg_rank REAL,
+        quote_source TEXT,
+        estimated_quotes INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_protocol_summaries_run ON protocol_summaries (run_id);
+    `
+  },
+  {
+    version: 3,
+    name: 'watched_pairs',
+    up: `
+      -- User-defined pairs the comparison engine quotes alongside the configured ones
+      CREATE TABLE IF NOT EXISTS watched_pairs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        sell_token_address TEXT NOT NULL,
+        sell_token_symbol TEXT NOT NULL,
+        sell_token_decimals INTEGER NOT NULL,
+        buy_token_address TEXT NOT NULL,
+        buy_token_symbol TEXT NOT NULL,
+        buy_token_decimals INTEGER NOT NULL,
+        size_usd REAL NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+    `
+  },
+  {
+    version: 4,
+    name: 'pool_registry',
+    up: `
+      -- Pools per pair, seeded from the hard-coded list; discovered pools wait as 'pending' until reviewed
+      CREATE TABLE IF NOT EXISTS pool_registry (
+        pair_id TEXT NOT NULL,
+        address TEXT NOT NULL COLLATE NOCASE,
+        name TEXT NOT NULL,
+        dex TEXT NOT NULL,
+        fee_tier TEXT,
+        pool_id TEXT,
+        v4_pool_key TEXT,
+        tokens TEXT NOT NULL,
+        volume_24h REAL,
+        liquidity_usd REAL,
+        status TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        source TEXT NOT NULL,
+        first_seen INTEGER NOT NULL,
+        last_seen INTEGER NOT NULL,
+        reviewed_at INTEGER,
+        PRIMARY KEY (pair_id, address)
+      );
+      CREATE INDEX IF NOT EXISTS idx_pool_registry_status ON pool_registry (status);
+
+      CREATE TABLE IF NOT EXISTS pool_liquidity_snapshots (
+        pair_id TEXT NOT NULL,
+        address TEXT NOT NULL COLLATE NOCASE,
+        timestamp INTEGER NOT NULL,
+        liquidity_usd REAL NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_pool_liquidity_snapshots_pool ON pool_liquidity_snapshots (pair_id, address, timestamp);
+
+      CREATE TABLE IF NOT EXISTS pool_discovery_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        pair_id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        added INTEGER NOT NULL,
+        removed INTEGER NOT NULL,
+        liquidity_changed INTEGER NOT NULL,
+        diff TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_pool_discovery_runs_timestamp ON pool_discovery_runs (timestamp);
+    `
+  },
+  {
+    version: 5,
+    name: 'pool_quote_validation',
+    up: `
+      -- Quote sanity check outcome: 'ok', 'suspicious' or 'rejected' (never ranked), null for failed quotes
+      ALTER TABLE pool_quotes ADD COLUMN validation_severity TEXT;
+      ALTER TABLE pool_quotes ADD COLUMN validation_reason TEXT;
+    `
+  },
+  {
+    version: 6,
+    name: 'competitive_gaps',
+    up: `
+      -- Best Uniswap pool vs best other venue per run, gap_bps is positive when Uniswap is ahead
+      CREATE TABLE IF NOT EXISTS competitive_gaps (
+        run_id INTEGER PRIMARY KEY,
+        gap_bps REAL NOT NULL,
+        uniswap_dex TEXT NOT NULL,
+        uniswap_pool TEXT NOT NULL,
+        uniswap_amount TEXT NOT NULL,
+        competitor_dex TEXT NOT NULL,
+        competitor_pool TEXT NOT NULL,
+        competitor_amount TEXT NOT NULL,
+        net_of_gas INTEGER NOT NULL
+      );
+    `
+  },
+  {
+    version: 7,
+    name: 'competitive_gap_competitor_name',
+    up: `
+      -- competitor_dex holds the venue id, 0x rows stored their per-run route label there before
+      ALTER TABLE competitive_gaps ADD COLUMN competitor_name TEXT NOT NULL DEFAULT '';
+      UPDATE competitive_gaps SET competitor_name = competitor_dex;
+      UPDATE competitive_gaps SET competitor_dex = 'zerox' WHERE competitor_pool LIKE 'zeroX-aggregator-%';
+    `
+  }
+];
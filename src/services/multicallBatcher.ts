@@ -0,0 +1,141 @@
+/**
+ * Multicall Batcher
+ * Collects contract reads issued in the same tick and sends them as one Multicall3 tryAggregate call
+ * Every call in a batcher is pinned to the same block, and one revert never fails the rest of the batch
+ */
+
+import { Contract, type FunctionFragment, type Provider } from 'ethers';
+import { alchemyRateLimiter } from '../utils/rateLimiter';
+
+// Multicall3 is deployed at the same address on every major chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)'
+];
+
+// Quoter calls are gas heavy, keep each eth_call well under the node's gas cap
+const MAX_CALLS_PER_BATCH = 50;
+
+interface PendingCall {
+  contract: Contract;
+  method: string;
+  fragment: FunctionFragment;
+  target: string;
+  callData: string;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+class MulticallBatcher {
+  readonly blockTag: number;
+  private multicall: Contract;
+  private queue: PendingCall[] = [];
+  private flushScheduled = false;
+  private batchCount = 0;
+  private callCount = 0;
+
+  constructor(provider: Provider, blockTag: number) {
+    this.blockTag = blockTag;
+    this.multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  }
+
+  /**
+   * Queue a read-only call and resolve with its decoded result, like contract[method].staticCall
+   */
+  call<T>(contract: Contract, method: string, args: unknown[] = []): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      try {
+        const fragment = contract.interface.getFunction(method, args);
+        if (!fragment) {
+          throw new Error(`Unknown method ${method}`);
+        }
+        this.queue.push({
+          contract,
+          method,
+          fragment,
+          target: contract.target as string,
+          callData: contract.interface.encodeFunctionData(fragment, args),
+          resolve: resolve as (value: unknown) => void,
+          reject
+        });
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      this.scheduleFlush();
+    });
+  }
+
+  /**
+   * Number of calls and eth_calls sent so far, for logging
+   */
+  getStats(): { calls: number; batches: number } {
+    return { calls: this.callCount, batches: this.batchCount };
+  }
+
+  /**
+   * Flush on the next macrotask so every call issued by concurrent quotes lands in the same batch
+   */
+  private scheduleFlush(): void {
+    if (this.flushScheduled) return;
+    this.flushScheduled = true;
+    setTimeout(() => {
+      this.flushScheduled = false;
+      this.flush();
+    }, 0);
+  }
+
+  /**
+   * Send queued calls in chunks and settle each caller's promise from its own result
+   */
+  private async flush(): Promise<void> {
+    const pending = this.queue;
+    this.queue = [];
+
+    for (let start = 0; start < pending.length; start += MAX_CALLS_PER_BATCH) {
+      const chunk = pending.slice(start, start + MAX_CALLS_PER_BATCH);
+      this.batchCount++;
+      this.callCount += chunk.length;
+
+      try {
+        const results: Array<{ success: boolean; returnData: string }> = await alchemyRateLimiter.execute(() =>
+          this.multicall.tryAggregate.staticCall(
+            false,
+            chunk.map(call => ({ target: call.target, callData: call.callData })),
+            { blockTag: this.blockTag }
+          )
+        );
+        console.log(`📦 Multicall: ${chunk.length} calls in one eth_call at block ${this.blockTag}`);
+
+        chunk.forEach((call, index) => this.settle(call, results[index]));
+      } catch (error) {
+        console.error(`❌ Multicall batch of ${chunk.length} calls failed:`, error);
+        chunk.forEach(call => call.reject(error));
+      }
+    }
+  }
+
+  /**
+   * Decode one call's result, or turn its revert data into the same error a direct call would throw
+   */
+  private settle(call: PendingCall, result: { success: boolean; returnData: string } | undefined): void {
+    if (!result) {
+      call.reject(new Error(`Multicall returned no result for ${call.method}`));
+      return;
+    }
+
+    try {
+      if (!result.success) {
+        throw call.contract.interface.makeError(result.returnData, { to: call.target, data: call.callData });
+      }
+      const decoded = call.contract.interface.decodeFunctionResult(call.fragment, result.returnData);
+      // Match staticCall: single return values are unwrapped
+      call.resolve(decoded.length === 1 ? decoded[0] : decoded);
+    } catch (error) {
+      call.reject(error instanceof Error ? error : new Error(`${call.method} failed: ${result.returnData}`));
+    }
+  }
+}
+
+export default MulticallBatcher;
@@ -0,0 +1,318 @@
+/**
+ * On-Chain Pool Discovery Service
+ * Finds candidate pools for any token pair straight from the DEX contracts, no API or curated list needed:
+ * V2/SushiSwap getPair, V3 getPool per fee tier, V4 Initialize events and the Curve metaregistry
+ * Every pool's reserves or active liquidity is read at the same block, so empty pools can be dropped
+ */
+
+import { ethers, Contract, type Provider } from 'ethers';
+import MulticallBatcher from './multicallBatcher';
+import HardcodedPoolService from './hardcodedPoolService';
+import DynamicPricingService from './dynamicPricingService';
+import type { PoolInfo } from './coinGeckoPoolService';
+import type { TokenPair } from '../types/api';
+import { alchemyRateLimiter } from '../utils/rateLimiter';
+import { logger } from './logger';
+import { isSameAsset, toWrappedAddress } from '../config/tokens';
+
+export interface DiscoveredPool {
+  pool: PoolInfo;
+  reserves: { base: string; quote: string } | null; // Token balances held by the pool, null for V4 (singleton PoolManager)
+  liquidity: string | null; // Active in-range liquidity (L) for V3/V4 pools
+  empty: boolean; // No reserves or no active liquidity, not worth quoting
+}
+
+export interface RegistryCheck {
+  pairId: string;
+  matched: PoolInfo[]; // In the registry and found on-chain
+  missingFromRegistry: PoolInfo[]; // Found on-chain with liquidity, not in the registry
+  notFoundOnChain: PoolInfo[]; // In the registry for a DEX discovery covers, but not discovered
+}
+
+const CONTRACTS = {
+  UNISWAP_V2_FACTORY: '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+  SUSHISWAP_FACTORY: '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+  UNISWAP_V3_FACTORY: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
+  UNISWAP_V4_POOL_MANAGER: '0x000000000004444c5dc75cb358380d2e3de08a90',
+  UNISWAP_V4_STATE_VIEW: '0x7ffe42c4a5deea5b0fec41c94c136cf115597227',
+  CURVE_METAREGISTRY: '0xF98B45FA17DE75FB1aD0e7aFD971b0ca00e379fC', // Covers stableswap, crypto and NG factories
+  WETH9: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+};
+
+const V2_FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address pair)'];
+const V3_FACTORY_ABI = ['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)'];
+const V3_POOL_ABI = ['function liquidity() view returns (uint128)'];
+const V4_POOL_MANAGER_ABI = [
+  'event Initialize(bytes32 indexed id, address indexed currency0, address indexed currency1, uint24 fee, int24 tickSpacing, address hooks, uint160 sqrtPriceX96, int24 tick)'
+];
+const V4_STATE_VIEW_ABI = ['function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)'];
+const CURVE_METAREGISTRY_ABI = ['function find_pool_for_coins(address _from, address _to, uint256 i) view returns (address)'];
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+
+// Every fee tier the V3 factory has enabled on mainnet
+const V3_FEE_TIERS = [100, 500, 3000, 10000];
+const V4_DEPLOYMENT_BLOCK = 21688329;
+const MAX_CURVE_POOLS = 8; // The registry lists pools for a coin pair at indices 0..n until it returns address(0)
+// DEXes whose pools discovery lists exhaustively for a pair
+export const DISCOVERED_DEXES = ['uniswap_v2', 'sushiswap', 'uniswap_v3', 'uniswap_v4', 'curve'];
+
+class OnChainPoolDiscoveryService {
+  private provider: Provider;
+  private uniV2Factory: Contract;
+  private sushiFactory: Contract;
+  private uniV3Factory: Contract;
+  private v4PoolManager: Contract;
+  private v4StateView: Contract;
+  private curveRegistry: Contract;
+  private pricingService: DynamicPricingService;
+
+  constructor(alchemyUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(alchemyUrl);
+    this.uniV2Factory = new Contract(CONTRACTS.UNISWAP_V2_FACTORY, V2_FACTORY_ABI, this.provider);
+    this.sushiFactory = new Contract(CONTRACTS.SUSHISWAP_FACTORY, V2_FACTORY_ABI, this.provider);
+    this.uniV3Factory = new Contract(CONTRACTS.UNISWAP_V3_FACTORY, V3_FACTORY_ABI, this.provider);
+    this.v4PoolManager = new Contract(CONTRACTS.UNISWAP_V4_POOL_MANAGER, V4_POOL_MANAGER_ABI, this.provider);
+    this.v4StateView = new Contract(CONTRACTS.UNISWAP_V4_STATE_VIEW, V4_STATE_VIEW_ABI, this.provider);
+    this.curveRegistry = new Contract(CONTRACTS.CURVE_METAREGISTRY, CURVE_METAREGISTRY_ABI, this.provider);
+    this.pricingService = new DynamicPricingService();
+  }
+
+  /**
+   * Pools worth quoting for the pair, oriented sell token → buy token
+   */
+  async findPoolsForPair(tokenPair: TokenPair): Promise<PoolInfo[]> {
+    const discovered = await this.discoverPools(tokenPair);
+    return discovered.filter(entry => !entry.empty).map(entry => entry.pool);
+  }
+
+  /**
+   * Every deployed pool for the pair with its reserves or liquidity, all read at the latest block
+   */
+  async discoverPools(tokenPair: TokenPair): Promise<DiscoveredPool[]> {
+    const blockNumber = await alchemyRateLimiter.execute(() => this.provider.getBlockNumber());
+    const multicall = new MulticallBatcher(this.provider, blockNumber);
+
+    const lookups = await Promise.all([
+      this.findV2Pool(multicall, this.uniV2Factory, 'uniswap_v2', 'Uniswap V2', tokenPair),
+      this.findV2Pool(multicall, this.sushiFactory, 'sushiswap', 'SushiSwap', tokenPair),
+      ...V3_FEE_TIERS.map(fee => this.findV3Pool(multicall, fee, tokenPair)),
+      this.findV4Pools(tokenPair, blockNumber),
+      this.findCurvePools(multicall, tokenPair)
+    ]);
+    const pools = lookups.flat().filter((pool): pool is PoolInfo => pool !== null);
+
+    const discovered = await Promise.all(pools.map(pool => this.readLiquidity(multicall, pool)));
+    await this.priceLiquidity(discovered, tokenPair);
+
+    const active = discovered.filter(entry => !entry.empty).length;
+    logger.info('OnChainPoolDiscoveryService', `Discovered ${pools.length} pools for ${tokenPair.name} at block ${blockNumber} (${active} with liquidity)`);
+    return discovered;
+  }
+
+  /**
+   * Compare discovery with the hard-coded registry for one configured pair
+   */
+  async checkRegistry(tokenPair: TokenPair): Promise<RegistryCheck> {
+    const registryPools = new HardcodedPoolService().getPoolsForPair(tokenPair);
+    const discovered = await this.discoverPools(tokenPair);
+
+    const discoveredByAddress = new Map(discovered.map(entry => [entry.pool.address.toLowerCase(), entry]));
+    const registryAddresses = new Set(registryPools.map(pool => pool.address.toLowerCase()));
+
+    return {
+      pairId: tokenPair.id,
+      matched: registryPools.filter(pool => discoveredByAddress.has(pool.address.toLowerCase())),
+      missingFromRegistry: discovered
+        .filter(entry => !entry.empty && !registryAddresses.has(entry.pool.address.toLowerCase()))
+        .map(entry => entry.pool),
+      // Balancer, Fluid and aggregator entries can't be discovered here, so they are never reported missing
+      notFoundOnChain: registryPools.filter(pool =>
+        DISCOVERED_DEXES.includes(pool.dex) && !discoveredByAddress.has(pool.address.toLowerCase())
+      )
+    };
+  }
+
+  /**
+   * Sell and buy token as the factories and registries know them, native ETH pairs are found through WETH
+   */
+  private toErc20Pair(tokenPair: TokenPair): [string, string] {
+    return [toWrappedAddress(tokenPair.sellToken.address), toWrappedAddress(tokenPair.buyToken.address)];
+  }
+
+  /**
+   * A V2-style factory has at most one pair per token pair
+   */
+  private async findV2Pool(
+    multicall: MulticallBatcher,
+    factory: Contract,
+    dex: string,
+    dexName: string,
+    tokenPair: TokenPair
+  ): Promise<PoolInfo | null> {
+    try {
+      const address = await multicall.call<string>(factory, 'getPair', this.toErc20Pair(tokenPair));
+      if (address === ethers.ZeroAddress) return null;
+      return this.toPoolInfo(address, dex, `${dexName} ${tokenPair.sellToken.symbol}/${tokenPair.buyToken.symbol}`, tokenPair);
+    } catch (error) {
+      logger.warn('OnChainPoolDiscoveryService', `${dexName} getPair failed for ${tokenPair.name}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * V3 has one pool per fee tier
+   */
+  private async findV3Pool(multicall: MulticallBatcher, fee: number, tokenPair: TokenPair): Promise<PoolInfo | null> {
+    try {
+      const address = await multicall.call<string>(this.uniV3Factory, 'getPool', [...this.toErc20Pair(tokenPair), fee]);
+      if (address === ethers.ZeroAddress) return null;
+
+      const pool = this.toPoolInfo(address, 'uniswap_v3', `${tokenPair.sellToken.symbol}/${tokenPair.buyToken.symbol} ${(fee / 10000).toFixed(2)}%`, tokenPair);
+      pool.fee_tier = fee.toString();
+      return pool;
+    } catch (error) {
+      logger.warn('OnChainPoolDiscoveryService', `V3 getPool (${fee}) failed for ${tokenPair.name}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * V4 pools live inside the PoolManager, their keys only appear in Initialize events
+   * WETH and native ETH pairs are searched against both currencies, most V4 liquidity sits in native pools
+   */
+  private async findV4Pools(tokenPair: TokenPair, blockNumber: number): Promise<PoolInfo[]> {
+    const variants = (address: string) =>
+      isSameAsset(address, CONTRACTS.WETH9) ? [CONTRACTS.WETH9, ethers.ZeroAddress] : [address];
+
+    const currencyPairs = variants(tokenPair.sellToken.address).flatMap(sell =>
+      variants(tokenPair.buyToken.address).map(buy =>
+        BigInt(sell) < BigInt(buy) ? [sell, buy] : [buy, sell]
+      )
+    );
+
+    try {
+      const logs = (await Promise.all(currencyPairs.map(([currency0, currency1]) =>
+        alchemyRateLimiter.execute(() => this.v4PoolManager.queryFilter(
+          this.v4PoolManager.filters.Initialize(null, currency0, currency1),
+          V4_DEPLOYMENT_BLOCK,
+          blockNumber
+        ))
+      ))).flat();
+
+      return logs.flatMap(log => {
+        if (!('args' in log)) return [];
+        const { id, currency0, currency1, fee, tickSpacing, hooks } = log.args;
+        const feeTier = Number(fee);
+        const hooked = hooks !== ethers.ZeroAddress;
+
+        const pool = this.toPoolInfo(
+          id,
+          'uniswap_v4',
+          `${tokenPair.sellToken.symbol}/${tokenPair.buyToken.symbol} V4 ${(feeTier / 10000).toFixed(2)}%${hooked ? ' (hooked)' : ''}`,
+          tokenPair
+        );
+        pool.fee_tier = feeTier.toString();
+        pool.v4_pool_key = {
+          currency0,
+          currency1,
+          fee: feeTier,
+          tickSpacing: Number(tickSpacing),
+          hooks
+        };
+        return [pool];
+      });
+    } catch (error) {
+      logger.warn('OnChainPoolDiscoveryService', `V4 Initialize lookup failed for ${tokenPair.name}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Curve's metaregistry lists every pool holding both coins, tricrypto and metapool underlyings included
+   */
+  private async findCurvePools(multicall: MulticallBatcher, tokenPair: TokenPair): Promise<PoolInfo[]> {
+    const addresses = await Promise.all(
+      Array.from({ length: MAX_CURVE_POOLS }, (_, i) =>
+        multicall.call<string>(this.curveRegistry, 'find_pool_for_coins', [...this.toErc20Pair(tokenPair), i])
+          .catch(() => ethers.ZeroAddress)
+      )
+    );
+
+    const pools: PoolInfo[] = [];
+    for (const address of addresses) {
+      if (address === ethers.ZeroAddress) break;
+      pools.push(this.toPoolInfo(address, 'curve', `Curve ${tokenPair.sellToken.symbol}/${tokenPair.buyToken.symbol} ${address.slice(0, 8)}`, tokenPair));
+    }
+    return pools;
+  }
+
+  /**
+   * Token balances for pools that hold their own reserves, active liquidity for concentrated pools
+   */
+  private async readLiquidity(multicall: MulticallBatcher, pool: PoolInfo): Promise<DiscoveredPool> {
+    try {
+      if (pool.dex === 'uniswap_v4') {
+        const liquidity = await multicall.call<bigint>(this.v4StateView, 'getLiquidity', [pool.address]);
+        return { pool, reserves: null, liquidity: liquidity.toString(), empty: liquidity === 0n };
+      }
+
+      const balanceOf = (token: string) =>
+        multicall.call<bigint>(new Contract(token, ERC20_BALANCE_ABI, this.provider), 'balanceOf', [pool.address]);
+      const [base, quote, liquidity] = await Promise.all([
+        balanceOf(toWrappedAddress(pool.tokens.base.address)),
+        balanceOf(toWrappedAddress(pool.tokens.quote.address)),
+        pool.dex === 'uniswap_v3'
+          ? multicall.call<bigint>(new Contract(pool.address, V3_POOL_ABI, this.provider), 'liquidity')
+          : Promise.resolve(null)
+      ]);
+
+      return {
+        pool,
+        reserves: { base: base.toString(), quote: quote.toString() },
+        liquidity: liquidity !== null ? liquidity.toString() : null,
+        empty: base === 0n || quote === 0n || liquidity === 0n
+      };
+    } catch (error) {
+      logger.warn('OnChainPoolDiscoveryService', `Could not read liquidity for ${pool.name}`, error);
+      return { pool, reserves: null, liquidity: null, empty: false };
+    }
+  }
+
+  /**
+   * Fill liquidity_usd from reserves where both tokens can be priced, best effort
+   */
+  private async priceLiquidity(discovered: DiscoveredPool[], tokenPair: TokenPair): Promise<void> {
+    if (!discovered.some(entry => entry.reserves)) return;
+
+    try {
+      const [basePrice, quotePrice] = await Promise.all([
+        this.pricingService.getTokenPriceByAddress(tokenPair.sellToken.symbol, tokenPair.sellToken.address),
+        this.pricingService.getTokenPriceByAddress(tokenPair.buyToken.symbol, tokenPair.buyToken.address)
+      ]);
+
+      discovered.forEach(({ pool, reserves }) => {
+        if (!reserves) return;
+        const baseUSD = Number(ethers.formatUnits(reserves.base, pool.tokens.base.decimals)) * basePrice.price_usd;
+        const quoteUSD = Number(ethers.formatUnits(reserves.quote, pool.tokens.quote.decimals)) * quotePrice.price_usd;
+        pool.liquidity_usd = Math.round(baseUSD + quoteUSD);
+      });
+    } catch (error) {
+      logger.warn('OnChainPoolDiscoveryService', `Could not price liquidity for ${tokenPair.name}`, error);
+    }
+  }
+
+  private toPoolInfo(address: string, dex: string, name: string, tokenPair: TokenPair): PoolInfo {
+    return {
+      address,
+      name,
+      dex,
+      network: 'ethereum',
+      tokens: {
+        base: { ...tokenPair.sellToken },
+        quote: { ...tokenPair.buyToken }
+      }
+    };
+  }
+}
+
+export default OnChainPoolDiscoveryService;
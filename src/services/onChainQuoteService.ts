@@ -2,38 +2,71 @@
  * Enhanced On-Chain Quote Service
  * Integrates official Uniswap V3/V4 SDKs with ethers.js for accurate price quotes
  * Supports Uniswap V2, V3, V4, SushiSwap, Curve, and other DEXs
- * Enhanced with proper SDK integration and Universal Router support
+ * Each venue is quoted by its own adapter (see ./adapters), this service builds, prices and ranks the quotes
  */
 
-import { ethers, Contract, type Provider } from 'ethers';
+import { ethers, type Provider } from 'ethers';
 import { alchemyRateLimiter } from '../utils/rateLimiter';
-import { Token, CurrencyAmount } from '@uniswap/sdk-core';
-import { computePoolAddress, FeeAmount, Pool, Route, Trade, TICK_SPACINGS, nearestUsableTick } from '@uniswap/v3-sdk';
-// V4 SDK imports - official implementation
-import type { PoolKey } from '@uniswap/v4-sdk';
+import MulticallBatcher from './multicallBatcher';
 import type { PoolInfo } from './coinGeckoPoolService';
-import type { TokenPair } from '../types/api';
-import { ZeroXQuoteService } from './zeroXQuoteService';
+import type { TokenPair, TradeSide } from '../types/api';
+import PriceService from './priceService';
+import { storeQuoteLog } from './quoteLog';
+import DexAdapterRegistry, { createDefaultAdapterRegistry } from './adapters/dexAdapterRegistry';
+import type { DexAdapter } from './adapters/dexAdapter';
+import LocalPoolSimulator from './localPoolSimulator';
+import QuoteValidationService, { type QuoteValidation, type ValidationThresholds } from './quoteValidationService';
+import { rankQuotes } from './quoteRanking';
+import { isNativeEth, isSameAsset, UNWRAP_GAS, WETH_ADDRESS, WRAP_GAS } from '../config/tokens';
 
-// V4 SDK imports - now using official implementation
+/**
+ * Where a quote's output amount came from
+ * - onchain_quoter: eth_call against a router/quoter/pool that simulates the swap
+ * - onchain_math: computed locally from live on-chain pool state
+ * - aggregator_api: returned by an off-chain aggregator API (0x)
+ * - estimated: synthetic number (hard-coded prices, 1:1 pegs, heuristic models)
+ */
+export type QuoteSource = 'onchain_quoter' | 'onchain_math' | 'aggregator_api' | 'estimated';
 
 export interface OnChainQuote {
   pool: PoolInfo;
   inputAmount: string;
   outputAmount: string;
   pricePerToken: number;
-  gasEstimate?: string;
+  gasEstimate?: string; // Total swap transaction gas units
+  gasCostWei?: string; // gasEstimate * base fee
+  gasCostInBuyToken?: string; // Gas cost converted to buy token base units
+  netOutputAmount?: string; // outputAmount - gasCostInBuyToken, may be negative for tiny trades
+  gasCostInSellToken?: string; // Exact-output quotes: gas cost converted to sell token base units
+  netInputAmount?: string; // Exact-output quotes: inputAmount + gasCostInSellToken
   executionPrice: number; // USD per token
   timestamp: number;
   success: boolean;
   error?: string;
   protocolDetails?: string; // Multi-hop routing breakdown for hover/tooltip (ZeroX only)
+  quoteSource?: QuoteSource; // Set on successful quotes
+  blockNumber?: number; // Block the quote was read at (0x reports its own block)
+  wrapSteps?: WrapStep[]; // WETH deposits/withdrawals around the swap, their gas is included in gasEstimate
+  sqrtPriceX96After?: string; // Pool price after the swap, from quoters that report it (Uniswap V3 QuoterV2)
+  initializedTicksCrossed?: number; // Initialized ticks the swap crosses, drives its gas cost
+  validation?: QuoteValidation; // Sanity checks of successful quotes, rejected quotes are never ranked
+}
+
+// An ETH leg the venue holds in the other form than the pair trades it (native ETH vs WETH)
+export interface WrapStep {
+  action: 'wrap' | 'unwrap';
+  leg: 'input' | 'output';
+  gas: string;
 }
 
 export interface SwapSimulation {
+  side: TradeSide; // 'sell' ranks by highest output, 'buy' by lowest input
   quotes: OnChainQuote[];
   bestQuote: OnChainQuote | null;
-  rankings: PoolRanking[];
+  rankings: PoolRanking[]; // Net rankings when gas costs are known, gross otherwise
+  grossRankings: PoolRanking[]; // By raw outputAmount
+  netRankings: PoolRanking[]; // By net output (or net input for 'buy'), empty when gas costs are unknown
+  gasAdjusted: boolean;
 }
 
 export interface PoolRanking {
@@ -41,113 +74,392 @@ export interface PoolRanking {
   pool: PoolInfo;
   quote: OnChainQuote;
   priceAdvantage: number; // percentage better than worst price
+  quoteSource: QuoteSource;
+}
+
+// One input size on a pool's price impact curve
+export interface SizeQuotePoint {
+  sizeUSD: number;
+  inputAmount: string;
+  outputAmount: string;
+  effectivePrice: number; // Output tokens per input token
+  priceImpact: number | null; // % worse than the pool's smallest quoted size, null when unavailable
+  success: boolean;
+  quoteSource?: QuoteSource;
+  error?: string;
+  crossCheck?: SimulationCrossCheck; // Set in 'cross-check' mode for pools the local simulator covers
+}
+
+// Local tick-math result next to the on-chain quoter's for the same size, in the ranked token's base units
+export interface SimulationCrossCheck {
+  localAmount: string | null; // null when the local simulation failed
+  onChainAmount: string | null; // null when the quoter call failed
+  divergenceBps: number | null; // (local - on-chain) / on-chain, null unless both succeeded
+  error?: string;
+}
+
+/**
+ * How size ladders quote V3/V4 pools
+ * - local: tick math over one state snapshot per pool, falling back to the quoter when the snapshot can't answer
+ * - cross-check: local, plus a quoter call per size to report any divergence
+ * - off: a quoter call per size
+ */
+export type LocalSimulationMode = 'local' | 'cross-check' | 'off';
+
+export interface PoolSizeCurve {
+  pool: PoolInfo;
+  points: SizeQuotePoint[]; // Ascending by sizeUSD
+}
+
+// Size to quote, amount is the exact input (sell side) or exact output (buy side) in base units
+export interface SizeLadderStep {
+  sizeUSD: number;
+  amount: bigint;
+}
+
+export interface RankingOptions {
+  includeEstimated?: boolean; // Rank estimated quotes alongside real ones (default false)
+  validation?: Partial<ValidationThresholds>; // Overrides for the quote sanity checks
+}
+
+/**
+ * State shared by every quote in one run: all reads go through one Multicall3 batcher pinned to one block
+ * Pass the same context to several simulations to batch their calls together
+ */
+export interface QuoteContext {
+  blockNumber: number;
+  historical: boolean; // Pinned to a past block (backfill or archive run), checks against live data are skipped
+  multicall: MulticallBatcher;
+}
+
+// Prices needed to turn gas units into units of the token a quote is ranked in
+interface GasContext {
+  baseFeePerGas: bigint;
+  ethPriceInToken: number;
 }
 
-// ABI definitions for different DEX contracts
-const UNISWAP_V2_ROUTER_ABI = [
-  'function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)'
-];
-
-const UNISWAP_V3_QUOTER_ABI = [
-  'function quoteExactInputSingle(address tokenIn, address tokenOut, uint24 fee, uint256 amountIn, uint160 sqrtPriceLimitX96) external returns (uint256 amountOut)'
-];
-
-const UNISWAP_V4_QUOTER_ABI = [
-  'function quoteExactInputSingle(tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 exactAmount, bytes hookData) params) external returns (uint256 amountOut, uint256 gasEstimate)',
-  'function quoteExactInput(tuple(address exactCurrency, tuple(address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)[] path, uint128 exactAmount) params) external returns (uint256 amountOut, uint256 gasEstimate)'
-];
-
-const CURVE_POOL_ABI = [
-  'function get_dy(int128 i, int128 j, uint256 dx) external view returns (uint256)',
-  'function coins(uint256 arg0) external view returns (address)'
-];
-
-// Enhanced contract addresses on Ethereum mainnet with V4 support
-const CONTRACTS = {
-  UNISWAP_V2_ROUTER: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D',
-  UNISWAP_V3_QUOTER: '0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6',
-  UNISWAP_V3_FACTORY: '0x1F98431c8aD98523631AE4a59f267346ea31F984',
-  UNISWAP_V4_POOL_MANAGER: '0x000000000004444c5dc75cb358380d2e3de08a90', // V4 PoolManager on mainnet
-  UNISWAP_V4_QUOTER: '0x52f0e24d1c21c8a0cb1e5a5dd6198556bd9e1203', // V4 Quoter on mainnet
-  UNISWAP_V4_UNIVERSAL_ROUTER: '0x66a9893cc07d91d95644aedd05d03f95e1dba8af', // V4 Universal Router
-  UNISWAP_V4_STATE_VIEW: '0x7ffe42c4a5deea5b0fec41c94c136cf115597227', // V4 StateView contract
-  UNIVERSAL_ROUTER: '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD',
-  SUSHISWAP_ROUTER: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F',
-  WETH9: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
-};
-
-// Uniswap V3 fee tier mappings
-// V3_FEE_TIERS moved inline to avoid unused variable error
+// Swap gas for pools no adapter claims, such as the routes 0x reports
+const DEFAULT_SWAP_GAS = 200000n;
+
+// Local and quoter amounts further apart than this are reported as a divergence
+const CROSS_CHECK_TOLERANCE_BPS = 1;
 
 class OnChainQuoteService {
   private provider: Provider;
-  private uniV2Router: Contract;
-  private uniV3Quoter: Contract;
-  private uniV4Quoter: Contract;
-  private sushiRouter: Contract;
-
-  constructor(alchemyUrl?: string) {
-    // Use provided URL or construct from API key
-    const rpcUrl = alchemyUrl || `https://eth-mainnet.g.alchemy.com/v2/QVvswhgDKgK5Xuf3Jkb1M`;
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    console.log(`🔗 Enhanced OnChainQuoteService initialized with RPC: ${rpcUrl.substring(0, 50)}...`);
-    
-    // Initialize contract instances
-    this.uniV2Router = new Contract(CONTRACTS.UNISWAP_V2_ROUTER, UNISWAP_V2_ROUTER_ABI, this.provider);
-    this.uniV3Quoter = new Contract(CONTRACTS.UNISWAP_V3_QUOTER, UNISWAP_V3_QUOTER_ABI, this.provider);
-    this.uniV4Quoter = new Contract(CONTRACTS.UNISWAP_V4_QUOTER, UNISWAP_V4_QUOTER_ABI, this.provider);
-    this.sushiRouter = new Contract(CONTRACTS.SUSHISWAP_ROUTER, UNISWAP_V2_ROUTER_ABI, this.provider);
+  private adapters: DexAdapterRegistry;
+  private simulator: LocalPoolSimulator;
+  private validator: QuoteValidationService;
+  private priceService: PriceService;
+
+  constructor(alchemyUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(alchemyUrl);
+    console.log(`🔗 Enhanced OnChainQuoteService initialized with RPC: ${alchemyUrl.substring(0, 50)}...`);
+
+    this.adapters = createDefaultAdapterRegistry(this.provider);
+    this.simulator = new LocalPoolSimulator(this.provider);
+    this.validator = new QuoteValidationService();
+    this.priceService = new PriceService();
   }
 
   /**
-   * Simulate swap quotes for all pools using exact sellAmount from token pair
+   * Simulate swap quotes for all pools using an exact amount from the token pair
+   * amount is the exact input for side 'sell' and the exact output for side 'buy'
    */
-  async simulateSwapsWithAmount(pools: PoolInfo[], inputAmount: bigint, tokenPair: TokenPair): Promise<SwapSimulation> {
-    const inputFormatted = ethers.formatUnits(inputAmount, tokenPair.sellToken.decimals);
-    console.log(`🔍 Simulating swaps for ${pools.length} pools with ${inputFormatted} ${tokenPair.sellToken.symbol}`);
-    
-    const quotes: OnChainQuote[] = [];
+  async simulateSwapsWithAmount(
+    pools: PoolInfo[],
+    amount: bigint,
+    tokenPair: TokenPair,
+    options: RankingOptions = {},
+    context?: QuoteContext
+  ): Promise<SwapSimulation> {
+    const side: TradeSide = tokenPair.side ?? 'sell';
+    const quoteContext = context ?? await this.createQuoteContext();
+    const sellTokenPriceUSD = await this.getUsdPrice(tokenPair.sellToken.symbol);
+    if (side === 'buy') {
+      const outputFormatted = ethers.formatUnits(amount, tokenPair.buyToken.decimals);
+      console.log(`🔍 Simulating exact-output swaps for ${pools.length} pools buying ${outputFormatted} ${tokenPair.buyToken.symbol}`);
+    } else {
+      const inputFormatted = ethers.formatUnits(amount, tokenPair.sellToken.decimals);
+      console.log(`🔍 Simulating swaps for ${pools.length} pools with ${inputFormatted} ${tokenPair.sellToken.symbol}`);
+    }
     
-    // Process each pool and get quote
-    for (const pool of pools) {
+    // Quote every pool concurrently so their calls share Multicall3 batches
+    const quotes: OnChainQuote[] = await Promise.all(pools.map(async (pool): Promise<OnChainQuote> => {
       try {
-        const quote = await this.getQuoteForPoolWithAmount(pool, inputAmount, tokenPair);
-        quotes.push(quote);
-        
-        // Rate limiting now handled by alchemyRateLimiter
-        // await new Promise(resolve => setTimeout(resolve, 100));
+        return await this.quotePool(pool, amount, tokenPair, side, sellTokenPriceUSD, quoteContext);
       } catch (error) {
         console.error(`Failed to get quote for pool ${pool.address}:`, error);
-        quotes.push({
+        return {
           pool,
-          inputAmount: inputAmount.toString(),
-          outputAmount: '0',
+          inputAmount: side === 'buy' ? '0' : amount.toString(),
+          outputAmount: side === 'buy' ? amount.toString() : '0',
           pricePerToken: 0,
           executionPrice: 0,
           timestamp: Date.now(),
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error'
-        });
+        };
+      }
+    }));
+
+    // Prices are checked before gas so the checks compare what the venues quoted, not the gas each route costs
+    await this.validator.validate(quotes, tokenPair, side, options.validation, quoteContext.historical);
+
+    // Gas is priced once per run so every quote pays the same base fee
+    // Sell side nets gas out of the output, buy side adds it to the input
+    const rankingToken = side === 'buy' ? tokenPair.sellToken : tokenPair.buyToken;
+    const gasContext = await this.getGasContext(rankingToken, quoteContext.blockNumber);
+    if (gasContext) {
+      quotes.filter(q => q.success).forEach(quote => this.applyGasCost(quote, gasContext, rankingToken, side));
+    } else {
+      console.warn(`⚠️ Gas costs unavailable, ranking by gross ${side === 'buy' ? 'input' : 'output'} only`);
+    }
+
+    return rankQuotes(quotes, options, side);
+  }
+
+  /**
+   * Resolve the block once and open a Multicall3 batcher pinned to it
+   * Pass a past block number to re-run a comparison against an archive node
+   */
+  async createQuoteContext(blockTag: number | 'latest' = 'latest'): Promise<QuoteContext> {
+    const blockNumber = blockTag === 'latest'
+      ? await alchemyRateLimiter.execute(() => this.provider.getBlockNumber())
+      : blockTag;
+    console.log(`🧱 Quoting at block ${blockNumber}${blockTag === 'latest' ? ' (latest)' : ''}`);
+    return { blockNumber, historical: blockTag !== 'latest', multicall: new MulticallBatcher(this.provider, blockNumber) };
+  }
+
+  /**
+   * Quote a pool on either side of the trade
+   * sellTokenPriceUSD is resolved once per run and only feeds the USD execution price
+   */
+  private async quotePool(
+    pool: PoolInfo,
+    amount: bigint,
+    tokenPair: TokenPair,
+    side: TradeSide,
+    sellTokenPriceUSD: number,
+    context?: QuoteContext
+  ): Promise<OnChainQuote> {
+    const quote = side === 'buy'
+      ? await this.getExactOutputQuoteForPool(pool, amount, tokenPair, sellTokenPriceUSD, context)
+      : await this.getQuoteForPoolWithAmount(pool, amount, tokenPair, sellTokenPriceUSD, context);
+    // On-chain quotes are all read at the context's block, aggregator quotes keep the block they reported
+    if (context && quote.blockNumber === undefined) {
+      quote.blockNumber = context.blockNumber;
+    }
+    return quote;
+  }
+
+  /**
+   * USD price of a token from PriceService, 0 when it cannot be priced
+   */
+  private async getUsdPrice(symbol: string): Promise<number> {
+    try {
+      // PriceService prices ETH under its WETH mapping
+      const price = await this.priceService.getTokenPrice(symbol === 'ETH' ? 'WETH' : symbol);
+      return price > 0 ? price : 0;
+    } catch (error) {
+      console.error(`Failed to load the USD price of ${symbol}:`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Read the base fee at the quoted block and the ETH price in terms of the given token
+   */
+  private async getGasContext(token: TokenPair['buyToken'], blockNumber: number): Promise<GasContext | null> {
+    try {
+      const block = await alchemyRateLimiter.execute(() => this.provider.getBlock(blockNumber));
+      if (!block?.baseFeePerGas) {
+        throw new Error(`Block ${blockNumber} has no base fee`);
       }
+
+      // PriceService prices ETH under its WETH mapping
+      const symbol = token.symbol === 'ETH' ? 'WETH' : token.symbol;
+      let ethPriceInToken = 1;
+      if (symbol !== 'WETH') {
+        const [ethPriceUSD, tokenPriceUSD] = await Promise.all([
+          this.priceService.getTokenPrice('WETH'),
+          this.priceService.getTokenPrice(symbol)
+        ]);
+        if (!(ethPriceUSD > 0) || !(tokenPriceUSD > 0)) {
+          throw new Error(`No usable price for ETH/${symbol}`);
+        }
+        ethPriceInToken = ethPriceUSD / tokenPriceUSD;
+      }
+
+      console.log(`⛽ Base fee ${ethers.formatUnits(block.baseFeePerGas, 'gwei')} gwei, 1 ETH = ${ethPriceInToken.toFixed(6)} ${token.symbol}`);
+      return { baseFeePerGas: block.baseFeePerGas, ethPriceInToken };
+    } catch (error) {
+      console.error('Failed to load gas pricing:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fill the gas cost fields and net amount of a successful quote
+   * token is the buy token for 'sell' quotes and the sell token for 'buy' quotes
+   */
+  private applyGasCost(quote: OnChainQuote, gasContext: GasContext, token: TokenPair['buyToken'], side: TradeSide): void {
+    const gasUnits = BigInt(quote.gasEstimate || '0') || (this.adapters.find(quote.pool)?.estimateGas(quote.pool) ?? DEFAULT_SWAP_GAS);
+    const gasCostWei = gasUnits * gasContext.baseFeePerGas;
+    const gasCostInTokenFloat = Number(ethers.formatEther(gasCostWei)) * gasContext.ethPriceInToken;
+    const gasCostInToken = ethers.parseUnits(gasCostInTokenFloat.toFixed(token.decimals), token.decimals);
+
+    quote.gasEstimate = gasUnits.toString();
+    quote.gasCostWei = gasCostWei.toString();
+
+    if (side === 'buy') {
+      quote.gasCostInSellToken = gasCostInToken.toString();
+      quote.netInputAmount = (BigInt(quote.inputAmount) + gasCostInToken).toString();
+    } else {
+      quote.gasCostInBuyToken = gasCostInToken.toString();
+      quote.netOutputAmount = (BigInt(quote.outputAmount) - gasCostInToken).toString();
     }
+  }
+
+  /**
+   * Quote every pool at each step of a size ladder and build per-pool price impact curves
+   * V3/V4 pools are simulated locally from one snapshot per pool unless localSimulation is 'off'
+   */
+  async simulateSizeLadder(
+    pools: PoolInfo[],
+    ladder: SizeLadderStep[],
+    tokenPair: TokenPair,
+    context?: QuoteContext,
+    localSimulation: LocalSimulationMode = 'local'
+  ): Promise<PoolSizeCurve[]> {
+    const side: TradeSide = tokenPair.side ?? 'sell';
+    const quoteContext = context ?? await this.createQuoteContext();
+    const steps = [...ladder].sort((a, b) => a.sizeUSD - b.sizeUSD);
+    const sellTokenPriceUSD = await this.getUsdPrice(tokenPair.sellToken.symbol);
+    console.log(`📈 Simulating ${steps.length} sizes for ${pools.length} pools (${steps.map(s => `$${s.sizeUSD.toLocaleString()}`).join(', ')}, local simulation ${localSimulation})`);
+
+    // Every pool and size is quoted concurrently so the whole ladder shares Multicall3 batches
+    return Promise.all(pools.map(async (pool): Promise<PoolSizeCurve> => {
+      const simulateLocally = localSimulation !== 'off' && this.simulator.supports(pool);
+
+      const points: SizeQuotePoint[] = await Promise.all(steps.map(async (step): Promise<SizeQuotePoint> => {
+        const local = simulateLocally ? await this.quotePoolLocally(pool, step.amount, side, quoteContext) : null;
+        if (local?.success && localSimulation === 'local') {
+          return this.toSizePoint(step, local, tokenPair);
+        }
+
+        const quote = await this.quotePool(pool, step.amount, tokenPair, side, sellTokenPriceUSD, quoteContext);
+        if (!local || localSimulation !== 'cross-check') {
+          return this.toSizePoint(step, quote, tokenPair);
+        }
+
+        const point = this.toSizePoint(step, local.success ? local : quote, tokenPair);
+        point.crossCheck = OnChainQuoteService.crossCheck(local, quote, side);
+        if (point.crossCheck.divergenceBps !== null && Math.abs(point.crossCheck.divergenceBps) > CROSS_CHECK_TOLERANCE_BPS) {
+          console.warn(`⚠️ Local simulation of ${pool.name} at $${step.sizeUSD.toLocaleString()} diverges from the quoter by ${point.crossCheck.divergenceBps.toFixed(2)} bps`);
+        }
+        return point;
+      }));
+
+      // Price impact is measured against the smallest size that could be quoted
+      const reference = points.find(p => p.success && p.effectivePrice > 0);
+      if (reference) {
+        points.forEach(point => {
+          if (point.success && point.effectivePrice > 0) {
+            point.priceImpact = ((reference.effectivePrice - point.effectivePrice) / reference.effectivePrice) * 100;
+          }
+        });
+      }
 
-    // Calculate rankings
-    const successfulQuotes = quotes.filter(q => q.success);
-    const rankings = this.calculateRankings(successfulQuotes);
-    const bestQuote = rankings.length > 0 ? rankings[0].quote : null;
+      return { pool, points };
+    }));
+  }
+
+  /**
+   * Quote a V3/V4 pool with local tick math, failures come back as unsuccessful quotes like quotePool's
+   */
+  private async quotePoolLocally(pool: PoolInfo, amount: bigint, side: TradeSide, context: QuoteContext): Promise<OnChainQuote> {
+    const startTime = Date.now();
+    try {
+      const result = side === 'buy'
+        ? await this.simulator.quoteExactOut(pool, amount, context)
+        : await this.simulator.quoteExactIn(pool, amount, context);
+      const input = parseFloat(ethers.formatUnits(result.amountIn, pool.tokens.base.decimals));
+      const output = parseFloat(ethers.formatUnits(result.amountOut, pool.tokens.quote.decimals));
+
+      return {
+        pool,
+        inputAmount: result.amountIn.toString(),
+        outputAmount: result.amountOut.toString(),
+        pricePerToken: input > 0 ? output / input : 0,
+        executionPrice: 0,
+        timestamp: startTime,
+        success: true,
+        quoteSource: 'onchain_math',
+        blockNumber: result.blockNumber,
+        sqrtPriceX96After: result.sqrtPriceX96After
+      };
+    } catch (error) {
+      console.log(`🔄 Local simulation unavailable for ${pool.name}: ${error instanceof Error ? error.message : error}`);
+      return {
+        pool,
+        inputAmount: side === 'buy' ? '0' : amount.toString(),
+        outputAmount: side === 'buy' ? amount.toString() : '0',
+        pricePerToken: 0,
+        executionPrice: 0,
+        timestamp: startTime,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
+  /**
+   * One point of a size curve from a quote, price impact is filled in once the whole curve is known
+   */
+  private toSizePoint(step: SizeLadderStep, quote: OnChainQuote, tokenPair: TokenPair): SizeQuotePoint {
     return {
-      quotes,
-      bestQuote,
-      rankings
+      sizeUSD: step.sizeUSD,
+      inputAmount: quote.inputAmount,
+      outputAmount: quote.outputAmount,
+      effectivePrice: quote.success ? this.calculateEffectivePrice(quote, tokenPair) : 0,
+      priceImpact: null,
+      success: quote.success,
+      quoteSource: quote.quoteSource,
+      error: quote.error
     };
   }
 
+  /**
+   * Compare the ranked amount of a local and an on-chain quote for the same size
+   */
+  private static crossCheck(local: OnChainQuote, onChain: OnChainQuote, side: TradeSide): SimulationCrossCheck {
+    const rankedAmount = (quote: OnChainQuote) => quote.success ? (side === 'buy' ? quote.inputAmount : quote.outputAmount) : null;
+    const localAmount = rankedAmount(local);
+    const onChainAmount = rankedAmount(onChain);
+
+    if (localAmount === null || onChainAmount === null || onChainAmount === '0') {
+      return { localAmount, onChainAmount, divergenceBps: null, error: local.error ?? onChain.error };
+    }
+
+    // Hundredths of a basis point keep the bigint division precise enough to show sub-bp rounding differences
+    const divergence = ((BigInt(localAmount) - BigInt(onChainAmount)) * 1000000n) / BigInt(onChainAmount);
+    return { localAmount, onChainAmount, divergenceBps: Number(divergence) / 100 };
+  }
+
+  /**
+   * Output tokens received per input token, in human units
+   */
+  private calculateEffectivePrice(quote: OnChainQuote, tokenPair: TokenPair): number {
+    const input = parseFloat(ethers.formatUnits(quote.inputAmount, tokenPair.sellToken.decimals));
+    const output = parseFloat(ethers.formatUnits(quote.outputAmount, tokenPair.buyToken.decimals));
+    return input > 0 ? output / input : 0;
+  }
+
   /**
    * Simulate swap quotes for all pools of a given token pair
    * Uses $10K USD equivalent amount for simulation (DEPRECATED - use simulateSwapsWithAmount)
    */
-  async simulateSwaps(pools: PoolInfo[], inputAmountUSD: number = 10000): Promise<SwapSimulation> {
+  async simulateSwaps(pools: PoolInfo[], inputAmountUSD: number = 10000, options: RankingOptions = {}): Promise<SwapSimulation> {
     console.log(`🔍 Simulating swaps for ${pools.length} pools with $${inputAmountUSD.toLocaleString()}`);
     
     const quotes: OnChainQuote[] = [];
@@ -175,87 +487,46 @@ class OnChainQuoteService {
       }
     }
 
-    // Calculate rankings
-    const successfulQuotes = quotes.filter(q => q.success);
-    const rankings = this.calculateRankings(successfulQuotes);
-    const bestQuote = rankings.length > 0 ? rankings[0].quote : null;
-
-    return {
-      quotes,
-      bestQuote,
-      rankings
-    };
+    return rankQuotes(quotes, options);
   }
 
   /**
    * Get quote for a specific pool using exact input amount with comprehensive logging
    */
-  private async getQuoteForPoolWithAmount(pool: PoolInfo, inputAmount: bigint, tokenPair: TokenPair): Promise<OnChainQuote> {
+  private async getQuoteForPoolWithAmount(
+    pool: PoolInfo,
+    inputAmount: bigint,
+    tokenPair: TokenPair,
+    sellTokenPriceUSD: number,
+    context?: QuoteContext
+  ): Promise<OnChainQuote> {
     const startTime = Date.now();
     
     try {
-      let outputAmount: bigint;
-      let quotingMethod = 'unknown';
-      
-      switch (pool.dex) {
-        case 'uniswap_v2':
-        case 'sushiswap':
-          outputAmount = await this.getUniswapV2Quote(pool, inputAmount);
-          quotingMethod = 'on_chain_router';
-          break;
-        case 'uniswap_v3':
-          outputAmount = await this.getUniswapV3Quote(pool, inputAmount);
-          quotingMethod = 'on_chain_quoter';
-          break;
-        case 'uniswap_v4':
-          outputAmount = await this.getUniswapV4Quote(pool, inputAmount);
-          quotingMethod = pool.address.length > 42 ? 'on_chain_quoter_v3_fallback' : 'price_estimation_fallback';
-          break;
-        case 'curve':
-          outputAmount = await this.getCurveQuote(pool, inputAmount);
-          quotingMethod = 'on_chain_curve_get_dy';
-          break;
-        case 'balancer':
-          outputAmount = await this.getBalancerQuote(pool, inputAmount);
-          quotingMethod = 'price_estimation_fallback';
-          break;
-        case 'fluid':
-          outputAmount = await this.getFluidQuote(pool, inputAmount);
-          quotingMethod = 'enhanced_price_impact'; // Will be refined in getFluidQuote method
-          break;
-        case 'zerox':
-          // Handle ZeroX aggregator quotes
-          const zeroXResult = await ZeroXQuoteService.getZeroXQuote(tokenPair);
-          if (!zeroXResult) {
-            throw new Error('ZeroX quote failed');
-          }
-          // Return the complete ZeroX quote structure with protocolDetails
-          return {
-            ...zeroXResult.quote,
-            protocolDetails: zeroXResult.protocolDetails
-          };
-        default:
-          throw new Error(`Unsupported DEX: ${pool.dex}`);
+      const adapter = this.getAdapter(pool);
+      const result = await adapter.quoteExactIn(pool, inputAmount, { tokenPair, context });
+      if (result.aggregatorQuote) {
+        return result.aggregatorQuote;
       }
+      const quotingMethod = adapter.describe(pool, 'sell', result.quoteSource);
+
+      const { outputAmount, quoteSource, sqrtPriceX96After, initializedTicksCrossed } = result;
+      const wrapSteps = this.getWrapSteps(adapter, pool, tokenPair);
+      const gasEstimate = (result.gasEstimate ?? adapter.estimateGas(pool)) + OnChainQuoteService.getWrapGas(wrapSteps);
 
       // Calculate execution price
       const inputAmountFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
       const outputAmountFormatted = ethers.formatUnits(outputAmount, pool.tokens.quote.decimals);
       const pricePerToken = parseFloat(outputAmountFormatted) / parseFloat(inputAmountFormatted);
-      
-      // Calculate USD price (for display purposes, using fallback prices)
-      const fallbackPrices: Record<string, number> = {
-        'WETH': 4700, 'ETH': 4700, 'USDT': 1, 'USDC': 1, 'WBTC': 115000,
-        'UNI': 18, 'LINK': 25, 'USDe': 1, 'DAI': 1
-      };
-      const basePrice = fallbackPrices[tokenPair.sellToken.symbol] || 1;
-      const inputValueUSD = parseFloat(inputAmountFormatted) * basePrice;
+
+      // USD paid per output token, for display only
+      const inputValueUSD = parseFloat(inputAmountFormatted) * sellTokenPriceUSD;
       const executionPrice = inputValueUSD / parseFloat(outputAmountFormatted);
 
       // Log the successful quote
       const executionTime = Date.now() - startTime;
       
-      this.storeQuoteLog({
+      storeQuoteLog({
         poolType: pool.dex,
         method: quotingMethod,
         timestamp: new Date().toISOString(),
@@ -268,7 +539,8 @@ class OnChainQuoteService {
           poolName: pool.name,
           feeTier: pool.fee_tier,
           tokenPair: `${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`,
-          executionPriceUSD: executionPrice
+          executionPriceUSD: executionPrice,
+          quoteSource
         }
       });
 
@@ -277,9 +549,14 @@ class OnChainQuoteService {
         inputAmount: inputAmount.toString(),
         outputAmount: outputAmount.toString(),
         pricePerToken,
+        gasEstimate: gasEstimate.toString(),
         executionPrice,
         timestamp: startTime,
-        success: true
+        success: true,
+        quoteSource,
+        wrapSteps,
+        sqrtPriceX96After,
+        initializedTicksCrossed
       };
 
     } catch (error) {
@@ -287,7 +564,7 @@ class OnChainQuoteService {
       const executionTime = Date.now() - startTime;
       const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
       
-      this.storeQuoteLog({
+      storeQuoteLog({
         poolType: pool.dex,
         method: 'failed_quote',
         timestamp: new Date().toISOString(),
@@ -316,6 +593,107 @@ class OnChainQuoteService {
     }
   }
 
+  /**
+   * Get the input needed to buy an exact output amount from a specific pool
+   */
+  private async getExactOutputQuoteForPool(
+    pool: PoolInfo,
+    outputAmount: bigint,
+    tokenPair: TokenPair,
+    sellTokenPriceUSD: number,
+    context?: QuoteContext
+  ): Promise<OnChainQuote> {
+    const startTime = Date.now();
+    
+    try {
+      const adapter = this.getAdapter(pool);
+      if (!adapter.quoteExactOut) {
+        throw new Error(`Exact-output quotes are not supported for ${pool.dex}`);
+      }
+      const result = await adapter.quoteExactOut(pool, outputAmount, { tokenPair, context });
+      if (result.aggregatorQuote) {
+        return result.aggregatorQuote;
+      }
+      const quotingMethod = adapter.describe(pool, 'buy', result.quoteSource);
+
+      const { inputAmount, quoteSource, sqrtPriceX96After, initializedTicksCrossed } = result;
+      const wrapSteps = this.getWrapSteps(adapter, pool, tokenPair);
+      const gasEstimate = (result.gasEstimate ?? adapter.estimateGas(pool)) + OnChainQuoteService.getWrapGas(wrapSteps);
+
+      // Calculate execution price
+      const inputAmountFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
+      const outputAmountFormatted = ethers.formatUnits(outputAmount, pool.tokens.quote.decimals);
+      const pricePerToken = parseFloat(outputAmountFormatted) / parseFloat(inputAmountFormatted);
+
+      // USD paid per output token, for display only
+      const inputValueUSD = parseFloat(inputAmountFormatted) * sellTokenPriceUSD;
+      const executionPrice = inputValueUSD / parseFloat(outputAmountFormatted);
+
+      storeQuoteLog({
+        poolType: pool.dex,
+        method: quotingMethod,
+        timestamp: new Date().toISOString(),
+        inputAmount: inputAmountFormatted,
+        outputAmount: outputAmountFormatted,
+        exchangeRate: pricePerToken,
+        executionTime: Date.now() - startTime,
+        metadata: {
+          poolAddress: pool.address,
+          poolName: pool.name,
+          feeTier: pool.fee_tier,
+          tokenPair: `${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`,
+          executionPriceUSD: executionPrice,
+          quoteSource,
+          side: 'buy'
+        }
+      });
+
+      return {
+        pool,
+        inputAmount: inputAmount.toString(),
+        outputAmount: outputAmount.toString(),
+        pricePerToken,
+        gasEstimate: gasEstimate.toString(),
+        executionPrice,
+        timestamp: startTime,
+        success: true,
+        quoteSource,
+        wrapSteps,
+        sqrtPriceX96After,
+        initializedTicksCrossed
+      };
+
+    } catch (error) {
+      storeQuoteLog({
+        poolType: pool.dex,
+        method: 'failed_quote',
+        timestamp: new Date().toISOString(),
+        inputAmount: '0',
+        outputAmount: ethers.formatUnits(outputAmount, pool.tokens.quote.decimals),
+        exchangeRate: 0,
+        executionTime: Date.now() - startTime,
+        metadata: {
+          poolAddress: pool.address,
+          poolName: pool.name,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          tokenPair: `${pool.tokens.base.symbol}/${pool.tokens.quote.symbol}`,
+          side: 'buy'
+        }
+      });
+
+      return {
+        pool,
+        inputAmount: '0',
+        outputAmount: outputAmount.toString(),
+        pricePerToken: 0,
+        executionPrice: 0,
+        timestamp: startTime,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Get quote for a specific pool (DEPRECATED - use getQuoteForPoolWithAmount)
    */
@@ -326,31 +704,11 @@ class OnChainQuoteService {
       // Calculate input amount in token units (assuming base token for now)
       const inputAmount = await this.calculateInputAmount(pool, inputAmountUSD);
       
-      let outputAmount: bigint;
-      
-      switch (pool.dex) {
-        case 'uniswap_v2':
-        case 'sushiswap':
-          outputAmount = await this.getUniswapV2Quote(pool, inputAmount);
-          break;
-        case 'uniswap_v3':
-          outputAmount = await this.getUniswapV3Quote(pool, inputAmount);
-          break;
-        case 'uniswap_v4':
-          outputAmount = await this.getUniswapV4Quote(pool, inputAmount);
-          break;
-        case 'curve':
-          outputAmount = await this.getCurveQuote(pool, inputAmount);
-          break;
-        case 'balancer':
-          outputAmount = await this.getBalancerQuote(pool, inputAmount);
-          break;
-        case 'fluid':
-          outputAmount = await this.getFluidQuote(pool, inputAmount);
-          break;
-        default:
-          throw new Error(`Unsupported DEX: ${pool.dex}`);
-      }
+      const adapter = this.getAdapter(pool);
+      const result = await adapter.quoteExactIn(pool, inputAmount, {});
+
+      const { outputAmount, quoteSource } = result;
+      const gasEstimate = result.gasEstimate ?? adapter.estimateGas(pool);
 
       // Calculate execution price
       const inputAmountFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
@@ -363,9 +721,11 @@ class OnChainQuoteService {
         inputAmount: inputAmount.toString(),
         outputAmount: outputAmount.toString(),
         pricePerToken,
+        gasEstimate: gasEstimate.toString(),
         executionPrice,
         timestamp: startTime,
-        success: true
+        success: true,
+        quoteSource
       };
 
     } catch (error) {
@@ -383,1171 +743,59 @@ class OnChainQuoteService {
   }
 
   /**
-   * Get Uniswap V2 / SushiSwap quote using router contract
+   * Adapter that quotes the pool's venue
    */
-  private async getUniswapV2Quote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    const router = pool.dex === 'sushiswap' ? this.sushiRouter : this.uniV2Router;
-    const path = [pool.tokens.base.address, pool.tokens.quote.address];
-    
-    const amounts = await alchemyRateLimiter.execute(() =>
-      router.getAmountsOut(inputAmount, path)
-    );
-    return amounts[1]; // Output amount is the second element
+  private getAdapter(pool: PoolInfo): DexAdapter {
+    const adapter = this.adapters.find(pool);
+    if (!adapter) {
+      throw new Error(`Unsupported DEX: ${pool.dex}`);
+    }
+    return adapter;
   }
 
   /**
-   * Get Uniswap V3 quote using official SDK with proper pool computation
+   * Wrap and unwrap steps needed where the venue holds the other form of ETH than the pair trades
    */
-  private async getUniswapV3Quote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    const baseSymbol = pool.tokens.base.symbol;
-    const quoteSymbol = pool.tokens.quote.symbol;
-    const baseDecimals = pool.tokens.base.decimals;
-    const quoteDecimals = pool.tokens.quote.decimals;
-    
-    console.log(`🔍 Enhanced V3 Quote: ${ethers.formatUnits(inputAmount, baseDecimals)} ${baseSymbol} → ${quoteSymbol}`);
-    console.log(`🏊 Pool: ${pool.name} (${pool.address})`);
-    console.log(`💰 Fee tier: ${pool.fee_tier} (${(parseInt(pool.fee_tier || '3000')/10000)}%)`);
-    
-    try {
-      // Create Token objects from SDK
-      const chainId = 1; // Ethereum mainnet
-      const baseToken = new Token(chainId, pool.tokens.base.address, baseDecimals, baseSymbol, baseSymbol);
-      const quoteToken = new Token(chainId, pool.tokens.quote.address, quoteDecimals, quoteSymbol, quoteSymbol);
-      
-      // Use pool-specific fee tier from pool data
-      const fee = parseInt(pool.fee_tier || '3000');
-      console.log(`Using pool-specific fee: ${fee} (${fee/10000}%)`);
-      
-      // Validate fee tier is supported
-      const V3_FEE_TIERS = {
-        100: FeeAmount.LOWEST,   // 0.01%
-        500: FeeAmount.LOW,      // 0.05%
-        3000: FeeAmount.MEDIUM,  // 0.30%
-        10000: FeeAmount.HIGH    // 1.00%
-      };
-      
-      const feeAmount = V3_FEE_TIERS[fee as keyof typeof V3_FEE_TIERS];
-      if (!feeAmount) {
-        throw new Error(`Unsupported fee tier ${fee}, pool may have custom fee`);
-      }
-      
-      // Method 1: Try SDK-based approach with computed pool address validation
-      try {
-        const computedPoolAddress = computePoolAddress({
-          factoryAddress: CONTRACTS.UNISWAP_V3_FACTORY,
-          tokenA: baseToken,
-          tokenB: quoteToken,
-          fee: feeAmount
-        });
-        
-        console.log(`Computed pool address: ${computedPoolAddress}`);
-        console.log(`Actual pool address:   ${pool.address}`);
-        
-        // Verify this is the correct pool
-        const addressesMatch = computedPoolAddress.toLowerCase() === pool.address.toLowerCase();
-        console.log(`Pool addresses match: ${addressesMatch}`);
-        
-        if (addressesMatch) {
-          console.log('✅ Using SDK-based quoting with validated pool');
-          
-          // Get current pool state for accurate quoting
-          const poolContract = new Contract(pool.address, [
-            'function slot0() external view returns (uint160, int24, uint16, uint16, uint16, uint8, bool)',
-            'function liquidity() external view returns (uint128)',
-            'function token0() external view returns (address)',
-            'function token1() external view returns (address)'
-          ], this.provider);
-          
-          const [slot0, liquidity] = await Promise.all([
-            poolContract.slot0(),
-            poolContract.liquidity()
-          ]);
-          
-          const [sqrtPriceX96, tick] = slot0;
-          
-          console.log(`Pool state: tick=${tick}, sqrtPrice=${sqrtPriceX96.toString()}, liquidity=${liquidity.toString()}`);
-          
-          // Fix tick alignment issues for V3 SDK compatibility
-          const MIN_TICK = -887272;
-          const MAX_TICK = 887272;
-          
-          // Use V3 SDK's nearestUsableTick for guaranteed compatibility
-          const rawTick = Number(tick);
-          const tickSpacing = TICK_SPACINGS[feeAmount];
-          let validTick;
-          
-          try {
-            // Use SDK's built-in tick validation
-            validTick = nearestUsableTick(rawTick, tickSpacing);
-            console.log(`🔧 SDK tick alignment: ${rawTick} → ${validTick} (spacing: ${tickSpacing})`);
-          } catch (sdkError) {
-            console.log(`⚠️ SDK nearestUsableTick failed, using manual alignment`);
-            // Fallback to manual alignment if SDK fails
-            const aligned = Math.round(rawTick / tickSpacing) * tickSpacing;
-            validTick = Math.max(MIN_TICK, Math.min(MAX_TICK, aligned));
-            console.log(`🔧 Manual fallback tick: ${rawTick} → ${validTick} (spacing: ${tickSpacing})`);
-          }
-          
-          if (liquidity.toString() === '0') {
-            throw new Error(`Pool has zero liquidity`);
-          }
-          
-          // Create Pool instance with validated tick
-          // Ensure BigInt values are properly handled for V3 SDK  
-          // Convert to string for BigintIsh compatibility
-          const sqrtPriceX96Str = sqrtPriceX96.toString();
-          const liquidityStr = liquidity.toString();
-          
-          console.log(`Creating Pool with: sqrtPrice=${sqrtPriceX96Str}, liquidity=${liquidityStr}, tick=${validTick}`);
-          
-          const poolInstance = new Pool(
-            baseToken,
-            quoteToken,
-            feeAmount,
-            sqrtPriceX96Str,
-            liquidityStr,
-            validTick // Use the validated/adjusted tick
-          );
-          
-          // Create currency amount and get quote
-          const currencyAmount = CurrencyAmount.fromRawAmount(baseToken, inputAmount.toString());
-          const route = new Route([poolInstance], baseToken, quoteToken);
-          const trade = await Trade.exactIn(route, currencyAmount);
-          
-          const outputAmount = BigInt(trade.outputAmount.quotient.toString());
-          console.log(`✅ V3 SDK quote: ${ethers.formatUnits(outputAmount, quoteDecimals)} ${quoteSymbol}`);
-          
-          return outputAmount;
-        } else {
-          console.log('⚠️ Pool address mismatch - using direct quoter call to actual pool');
-        }
-      } catch (sdkError) {
-        console.log('❌ SDK method failed:', sdkError);
-        console.log('🔄 Falling back to direct quoter call');
-      }
-      
-      // Method 2: Direct quoter contract call with pool-specific parameters
-      console.log(`🎯 Direct quoter call with pool fee ${fee} to specific pool address`);
-      
-      // IMPORTANT: Use the pool-specific quoter call
-      // The quoter should be called with the specific pool's fee tier
-      const amountOut = await alchemyRateLimiter.execute(() =>
-        this.uniV3Quoter.quoteExactInputSingle.staticCall(
-          pool.tokens.base.address,
-          pool.tokens.quote.address,
-          fee, // Use pool-specific fee tier
-          inputAmount,
-          0 // sqrtPriceLimitX96 = 0 means no limit
-        )
-      );
-      
-      console.log(`✅ V3 direct quote: ${ethers.formatUnits(amountOut, quoteDecimals)} ${quoteSymbol}`);
-      return amountOut;
-      
-    } catch (error) {
-      console.error(`❌ V3 quote failed for ${pool.name}:`, error);
-      throw error; // Don't swallow the error, let caller handle it
+  private getWrapSteps(adapter: DexAdapter, pool: PoolInfo, tokenPair: TokenPair): WrapStep[] {
+    const venueNative = adapter.nativeLegs?.(pool) ?? { input: false, output: false };
+    const legs = [
+      { leg: 'input' as const, token: tokenPair.sellToken.address, native: venueNative.input },
+      { leg: 'output' as const, token: tokenPair.buyToken.address, native: venueNative.output }
+    ];
+
+    return legs.flatMap(({ leg, token, native }): WrapStep[] => {
+      if (!isSameAsset(token, WETH_ADDRESS) || isNativeEth(token) === native) return [];
+      // Native ETH paid in is wrapped for an ERC-20 venue, WETH paid out is unwrapped for a native ETH buyer; native venues the other way round
+      const action: WrapStep['action'] = (leg === 'input') === isNativeEth(token) ? 'wrap' : 'unwrap';
+      return [{ action, leg, gas: (action === 'wrap' ? WRAP_GAS : UNWRAP_GAS).toString() }];
+    });
+  }
+
+  private static getWrapGas(wrapSteps: WrapStep[]): bigint {
+    return wrapSteps.reduce((total, step) => total + BigInt(step.gas), 0n);
+  }
+
+  /**
+   * Calculate input amount based on USD value and current token price from CoinGecko
+   */
+  private async calculateInputAmount(pool: PoolInfo, usdAmount: number): Promise<bigint> {
+    const baseTokenPrice = await this.getUsdPrice(pool.tokens.base.symbol);
+    if (baseTokenPrice === 0) {
+      throw new Error(`No USD price for ${pool.tokens.base.symbol}`);
     }
+    const tokenAmount = usdAmount / baseTokenPrice;
+    
+    return ethers.parseUnits(tokenAmount.toString(), pool.tokens.base.decimals);
   }
 
   /**
-   * Get Uniswap V4 quote using official V4 Quoter contract with proper methodology
-   * Based on official V4 documentation and v4-by-example.org approach
+   * Batch simulate swaps for multiple token pairs
    */
-  private async getUniswapV4Quote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    const baseSymbol = pool.tokens.base.symbol;
-    const quoteSymbol = pool.tokens.quote.symbol;
-    const baseDecimals = pool.tokens.base.decimals;
-    const quoteDecimals = pool.tokens.quote.decimals;
-    
-    console.log(`🔍 V4 Quote (Official SDK): ${ethers.formatUnits(inputAmount, baseDecimals)} ${baseSymbol} → ${quoteSymbol}`);
-    
-    try {
-      // Get the correct V4 pool configuration for this token pair
-      const v4PoolConfig = this.getV4PoolConfig(baseSymbol, quoteSymbol);
-      if (!v4PoolConfig) {
-        throw new Error(`No V4 pool configuration found for ${baseSymbol}/${quoteSymbol}`);
-      }
-      
-      const { currency0, currency1, fee, tickSpacing, zeroForOne } = v4PoolConfig;
-      
-      console.log(`V4 Pool Config: ${currency0}/${currency1}, fee: ${fee} (${fee/10000}%), tickSpacing: ${tickSpacing}`);
-      console.log(`V4 Direction: ${zeroForOne ? 'currency0→currency1' : 'currency1→currency0'} (${baseSymbol}→${quoteSymbol})`);
-      
-      // Create PoolKey using official V4 SDK
-      const poolKey: PoolKey = {
-        currency0: currency0,
-        currency1: currency1, 
-        fee: fee,
-        tickSpacing: tickSpacing,
-        hooks: '0x0000000000000000000000000000000000000000' // No hooks for basic pools
-      };
-      
-      // Create QuoteExactSingleParams struct as required by V4 quoter ABI
-      const quoteParams = {
-        poolKey: poolKey,
-        zeroForOne: zeroForOne,
-        exactAmount: inputAmount,
-        hookData: '0x' // Empty hookData for basic pools
-      };
-      
-      console.log(`V4 QuoteParams: poolKey={currency0: ${currency0}, currency1: ${currency1}, fee: ${fee}}, zeroForOne=${zeroForOne}, amount=${inputAmount}`);
-      
-      // Call V4 quoter using the correct ABI structure
-      console.log(`🔍 Calling V4 quoter at: ${CONTRACTS.UNISWAP_V4_QUOTER}`);
-      console.log(`🔍 V4 quoter exists: ${await this.provider.getCode(CONTRACTS.UNISWAP_V4_QUOTER) !== '0x'}`);
-      
-      const result = await alchemyRateLimiter.execute(() => 
-        this.uniV4Quoter.quoteExactInputSingle.staticCall(quoteParams)
-      );
-      
-      // V4 quoter returns: (uint256 amountOut, uint256 gasEstimate)
-      const [amountOut, gasEstimate] = result;
-      
-      console.log(`🔍 V4 Raw Result: ${amountOut.toString()}`);
-      console.log(`🔍 V4 Token Decimals - Base: ${baseDecimals}, Quote: ${quoteDecimals}`);
-      // Calculate realistic expected value based on actual input amount and current ETH price
-      const inputAmountFloat = Number(ethers.formatUnits(inputAmount, baseDecimals));
-      const ethPriceUSD = 4342; // Current ETH price from logs
-      const expectedUSDValue = inputAmountFloat * ethPriceUSD;
-      
-      let expectedOutput: number;
-      if (quoteSymbol === 'USDT' || quoteSymbol === 'USDC') {
-        expectedOutput = expectedUSDValue; // ~$10,000 for 2.3 ETH
-      } else if (quoteSymbol === 'ETH' || quoteSymbol === 'WETH') {
-        expectedOutput = inputAmountFloat; // Should be similar amount
-      } else {
-        expectedOutput = expectedUSDValue; // Default
-      }
-      
-      console.log(`🔍 V4 Expected: ~${expectedOutput.toFixed(2)} ${quoteSymbol} for ${inputAmountFloat.toFixed(1)} ${baseSymbol}`);
-      
-      const outputAmount = BigInt(amountOut);
-      const outputFormatted = ethers.formatUnits(outputAmount, quoteDecimals);
-      
-      console.log(`✅ V4 Real Quote: ${outputFormatted} ${quoteSymbol}`);
-      
-      // Sanity check: If output is >3x expected, there might be an issue
-      const actualValue = Number(outputFormatted);
-      if (actualValue > expectedOutput * 3 || actualValue < expectedOutput * 0.3) {
-        console.warn(`🚨 V4 Quote seems unrealistic: got ${actualValue}, expected ~${expectedOutput}`);
-        console.warn(`🚨 This might indicate wrong token ordering or quoter parameters`);
-      }
-      console.log(`V4 Gas estimate: ${gasEstimate.toString()}`);
-      
-      return outputAmount;
-      
-    } catch (error) {
-      console.error(`V4 quoter failed for ${baseSymbol}/${quoteSymbol}:`, error);
-      
-      // Fallback to price estimation as last resort
-      console.log('⚠️ Using price estimation fallback for V4 pool');
-      
-      const fallbackPrices: Record<string, number> = {
-        'WETH': 2650, 'ETH': 2650, 'USDT': 1, 'USDC': 1, 'WBTC': 64000,
-        'UNI': 8, 'LINK': 11, 'USDe': 1, 'DAI': 1
-      };
-      
-      const basePrice = fallbackPrices[baseSymbol] || 1;
-      const quotePrice = fallbackPrices[quoteSymbol] || 1;
-      const priceRatio = basePrice / quotePrice;
-      
-      const inputAmountFloat = Number(inputAmount) / (10 ** baseDecimals);
-      const fee = this.extractV3Fee(pool.name) || parseInt(pool.fee_tier || '3000');
-      const feeRate = 1 - (fee / 1000000); // Convert basis points to rate
-      const outputAmountFloat = inputAmountFloat * priceRatio * feeRate;
-      const estimatedOut = BigInt(Math.floor(outputAmountFloat * (10 ** quoteDecimals)));
-      
-      console.log(`V4 estimation fallback: ${ethers.formatUnits(estimatedOut, quoteDecimals)} ${quoteSymbol}`);
-      
-      return estimatedOut;
-    }
-  }
-
-  /**
-   * Get V4 pool configuration for specific token pairs
-   * Based on your specifications for each pair
-   */
-  private getV4PoolConfig(baseSymbol: string, quoteSymbol: string): {
-    currency0: string, currency1: string, fee: number, tickSpacing: number, zeroForOne: boolean
-  } | null {
-    // Normalize ETH to WETH for V4 configuration lookup
-    const normalizeSymbol = (symbol: string): string => {
-      return symbol === 'ETH' ? 'WETH' : symbol;
-    };
-    
-    const normalizedBase = normalizeSymbol(baseSymbol);
-    const normalizedQuote = normalizeSymbol(quoteSymbol);
-    const tokenPairs: Record<string, {
-      token0: { address: string, symbol: string },
-      token1: { address: string, symbol: string },
-      fee: number,
-      tickSpacing: number
-    }> = {
-      // WETH → USDT: fee 500 (0.05%)
-      'WETH-USDT': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' }, // Native ETH for V4
-        token1: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT' },
-        fee: 500,
-        tickSpacing: 10
-      },
-      'USDT-WETH': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' },
-        token1: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT' },
-        fee: 500,
-        tickSpacing: 10
-      },
-      
-      // UNI → WETH: fee 3000 (0.3%)
-      'UNI-WETH': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' },
-        token1: { address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', symbol: 'UNI' },
-        fee: 3000,
-        tickSpacing: 60
-      },
-      'WETH-UNI': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' },
-        token1: { address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984', symbol: 'UNI' },
-        fee: 3000,
-        tickSpacing: 60
-      },
-      
-      // WETH → USDC: fee 500 (0.05%)
-      'WETH-USDC': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' },
-        token1: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC' },
-        fee: 500,
-        tickSpacing: 10
-      },
-      'USDC-WETH': {
-        token0: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH' },
-        token1: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC' },
-        fee: 500,
-        tickSpacing: 10
-      },
-      
-      // USDe → USDT: fee 63 (0.0063%) - your custom V4 pool
-      'USDe-USDT': {
-        token0: { address: '0x4c9EDD5852cd905f086C759E8383e09bff1E68B3', symbol: 'USDe' },
-        token1: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT' },
-        fee: 63, // 0.0063%
-        tickSpacing: 1
-      },
-      'USDT-USDe': {
-        token0: { address: '0x4c9EDD5852cd905f086C759E8383e09bff1E68B3', symbol: 'USDe' },
-        token1: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT' },
-        fee: 63,
-        tickSpacing: 1
-      }
-    };
-    
-    const key = `${normalizedBase}-${normalizedQuote}`;
-    const config = tokenPairs[key];
-    
-    if (!config) {
-      return null;
-    }
-    
-    // Order tokens properly (currency0 < currency1 for V4)
-    const [currency0, currency1] = config.token0.address.toLowerCase() < config.token1.address.toLowerCase()
-      ? [config.token0.address, config.token1.address]
-      : [config.token1.address, config.token0.address];
-    
-    // Debug the token ordering and swap direction
-    console.log(`🔍 V4 Token Analysis:`);
-    console.log(`  Original config - token0: ${config.token0.symbol}(${config.token0.address}), token1: ${config.token1.symbol}(${config.token1.address})`);
-    console.log(`  Ordered addresses - currency0: ${currency0}, currency1: ${currency1}`);
-    console.log(`  Swap: ${baseSymbol} → ${quoteSymbol}`);
-    
-    // Determine which currency corresponds to our base token
-    // CRITICAL FIX: WETH should map to ETH (0x0000...) for V4 pools
-    let baseIsCurrency0: boolean;
-    
-    // Normalize token symbols (WETH = ETH for V4)
-    const normalizedBaseSymbol = baseSymbol === 'WETH' ? 'ETH' : baseSymbol;
-    const normalizedQuoteSymbol = quoteSymbol === 'WETH' ? 'ETH' : quoteSymbol;
-    
-    console.log(`  Normalized tokens: ${baseSymbol}→${normalizedBaseSymbol}, ${quoteSymbol}→${normalizedQuoteSymbol}`);
-    
-    if (config.token0.symbol === normalizedBaseSymbol) {
-      baseIsCurrency0 = (currency0 === config.token0.address);
-      console.log(`  Base ${normalizedBaseSymbol} matches config.token0, currency0=${currency0 === config.token0.address}`);
-    } else if (config.token1.symbol === normalizedBaseSymbol) {
-      baseIsCurrency0 = (currency0 === config.token1.address);
-      console.log(`  Base ${normalizedBaseSymbol} matches config.token1, currency0=${currency0 === config.token1.address}`);
-    } else {
-      console.error(`  ❌ Base token ${normalizedBaseSymbol} not found in config!`);
-      baseIsCurrency0 = false;
-    }
-    
-    console.log(`  Base token ${baseSymbol} is currency${baseIsCurrency0 ? '0' : '1'}`);
-    
-    // For WETH→USDT: currency0=ETH, currency1=USDT, base=WETH, so baseIsCurrency0=true, zeroForOne=true
-    const zeroForOne = baseIsCurrency0;
-    
-    console.log(`  Swap direction: zeroForOne=${zeroForOne} (${zeroForOne ? 'currency0→currency1' : 'currency1→currency0'})`);
-    console.log(`  Expected: ${baseSymbol}(currency${baseIsCurrency0 ? '0' : '1'}) → ${quoteSymbol}(currency${baseIsCurrency0 ? '1' : '0'})`);
-    
-    if (baseSymbol === 'WETH' && quoteSymbol === 'USDT') {
-      console.log(`  🎯 WETH→USDT check: Should be ETH(currency0) → USDT(currency1), zeroForOne=true`);
-    }
-    
-    return {
-      currency0,
-      currency1,
-      fee: config.fee,
-      tickSpacing: config.tickSpacing,
-      zeroForOne
-    };
-  }
-
-
-
-  /**
-   * Get Curve quote using pool contract
-   */
-  private async getCurveQuote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    try {
-      const curvePool = new Contract(pool.address, CURVE_POOL_ABI, this.provider);
-      
-      // Query the actual token addresses to determine correct indices
-      // Support up to 3 tokens for 3Pool (DAI/USDC/USDT)
-      let i = -1, j = -1;
-      
-      try {
-        console.log(`🔍 Curve pool ${pool.address}: Looking for ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
-        
-        // Check up to 3 token positions (most Curve pools have 2-3 tokens)
-        for (let tokenIndex = 0; tokenIndex < 3; tokenIndex++) {
-          try {
-            const tokenAddress = await curvePool.coins(tokenIndex);
-            console.log(`Token ${tokenIndex}: ${tokenAddress}`);
-            
-            if (tokenAddress.toLowerCase() === pool.tokens.base.address.toLowerCase()) {
-              i = tokenIndex;
-              console.log(`Found base token ${pool.tokens.base.symbol} at index ${i}`);
-            }
-            if (tokenAddress.toLowerCase() === pool.tokens.quote.address.toLowerCase()) {
-              j = tokenIndex;
-              console.log(`Found quote token ${pool.tokens.quote.symbol} at index ${j}`);
-            }
-          } catch (indexError) {
-            // Index doesn't exist, stop checking
-            console.log(`No token at index ${tokenIndex}, stopping search`);
-            break;
-          }
-        }
-        
-        if (i === -1 || j === -1) {
-          throw new Error(`Could not find token indices: base=${pool.tokens.base.symbol}@${i}, quote=${pool.tokens.quote.symbol}@${j}`);
-        }
-        
-        console.log(`Using indices: ${pool.tokens.base.symbol}(${i}) → ${pool.tokens.quote.symbol}(${j})`);
-        
-      } catch (error) {
-        console.error('Could not determine Curve token indices:', error);
-        // For 3Pool specifically, use known indices: DAI=0, USDC=1, USDT=2
-        if (pool.address.toLowerCase() === '0xbebc44782c7db0a1a60cb6fe97d0b483032ff1c7') {
-          console.log('Using hardcoded 3Pool indices: USDC=1, DAI=0');
-          i = 1; // USDC
-          j = 0; // DAI
-        } else {
-          throw error;
-        }
-      }
-      
-      const amountOut = await curvePool.get_dy(i, j, inputAmount);
-      console.log(`Curve quote: ${ethers.formatUnits(inputAmount, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${ethers.formatUnits(amountOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
-      
-      // Additional safety check for unreasonable output amounts
-      const inputAmountNum = Number(inputAmount);
-      const outputAmountNum = Number(amountOut);
-      
-      // If output is more than 1000x the input (accounting for decimals), something is wrong
-      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-      const expectedRatio = Math.pow(10, decimalDiff);
-      const maxReasonableOutput = inputAmountNum * expectedRatio * 1000;
-      
-      if (outputAmountNum > maxReasonableOutput) {
-        console.warn(`Curve quote seems unreasonably high: ${outputAmountNum}, expected max: ${maxReasonableOutput}`);
-        // Return a more reasonable estimate based on 1:1 ratio with decimal adjustment
-        return inputAmount * BigInt(Math.pow(10, Math.max(0, decimalDiff)));
-      }
-      
-      return amountOut;
-    } catch (error) {
-      console.error('Curve quote failed:', error);
-      // Fallback to simple decimal-adjusted 1:1 ratio
-      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-      if (decimalDiff > 0) {
-        return inputAmount * BigInt(Math.pow(10, decimalDiff));
-      } else if (decimalDiff < 0) {
-        return inputAmount / BigInt(Math.pow(10, Math.abs(decimalDiff)));
-      }
-      return inputAmount;
-    }
-  }
-
-  /**
-   * Get Balancer quote using simplified 1:1 ratio for stablecoin pools
-   */
-  private async getBalancerQuote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    try {
-      // Balancer pools are complex with weighted AMMs
-      // For now, implement simple decimal-adjusted 1:1 for stablecoin pairs
-      console.log(`🔍 Balancer quote: ${ethers.formatUnits(inputAmount, pool.tokens.base.decimals)} ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
-      
-      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-      let estimatedOut: bigint;
-      
-      if (decimalDiff > 0) {
-        estimatedOut = inputAmount * BigInt(10 ** decimalDiff);
-      } else if (decimalDiff < 0) {
-        estimatedOut = inputAmount / BigInt(10 ** Math.abs(decimalDiff));
-      } else {
-        estimatedOut = inputAmount;
-      }
-      
-      console.log(`Balancer estimate: ${ethers.formatUnits(estimatedOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
-      return estimatedOut;
-    } catch (error) {
-      console.error('Balancer quote failed:', error);
-      // Fallback to decimal-adjusted 1:1 ratio
-      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-      if (decimalDiff > 0) {
-        return inputAmount * BigInt(10 ** decimalDiff);
-      } else if (decimalDiff < 0) {
-        return inputAmount / BigInt(10 ** Math.abs(decimalDiff));
-      }
-      return inputAmount;
-    }
-  }
-
-  /**
-   * Get Fluid DEX quote using real price impact calculation with reserve data
-   * Enhanced with comprehensive logging and geometric mean price impact modeling
-   */
-  private async getFluidQuote(pool: PoolInfo, inputAmount: bigint): Promise<bigint> {
-    const startTime = Date.now();
-    const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
-    
-    try {
-      console.log(`🔍 Fluid enhanced quote: ${inputFormatted} ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
-      console.log(`🔍 Pool address: ${pool.address}`);
-      console.log(`🔍 Pool tokens: ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
-      
-      // Debug routing conditions
-      const addressMatch = pool.address.toLowerCase() === '0xf063bd202e45d6b2843102cb4ece339026645d4a';
-      const baseSymbolMatch = pool.tokens.base.symbol === 'USDe';
-      const quoteSymbolMatch = pool.tokens.quote.symbol === 'USDT';
-      
-      console.log(`🔍 Routing conditions: address=${addressMatch}, base=${baseSymbolMatch}, quote=${quoteSymbolMatch}`);
-      
-      // Only use enhanced quotes for the confirmed USDe-USDT Fluid pool
-      if (addressMatch && baseSymbolMatch && quoteSymbolMatch) {
-        console.log('✅ Enhanced Fluid system triggered!')
-        
-        // Try real price impact calculation first
-        try {
-          console.log('🎯 Attempting real price impact calculation...');
-          return await this.getFluidRealPriceImpactQuote(pool, inputAmount, startTime);
-        } catch (priceImpactError) {
-          console.log('⚠️ Price impact calculation failed, trying live quote:', priceImpactError);
-          
-          // Fallback to live quote simulation
-          try {
-            console.log('📊 Attempting live quote simulation...');
-            return await this.getFluidLiveQuote(pool, inputAmount, startTime);
-          } catch (liveQuoteError) {
-            console.log('⚠️ Live quote failed, using estimation:', liveQuoteError);
-            console.log('⚠️ Final fallback: estimation method');
-            return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
-          }
-        }
-      } else {
-        console.log('❌ Enhanced system conditions NOT met, using estimation');
-      }
-      
-      // Fallback to estimation for other Fluid pools
-      console.log('📋 Using standard Fluid estimation');
-      return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
-      
-    } catch (error) {
-      console.error('Fluid quote failed completely, using fallback:', error);
-      return await this.getFluidEstimatedQuote(pool, inputAmount, startTime);
-    }
-  }
-
-  /**
-   * Get real price impact Fluid DEX quote using reserve data and concentrated liquidity math
-   */
-  private async getFluidRealPriceImpactQuote(pool: PoolInfo, inputAmount: bigint, startTime: number): Promise<bigint> {
-    const FLUID_POOL_ABI = [
-      {
-        "inputs": [
-          {"internalType": "uint256", "name": "geometricMean_", "type": "uint256"},
-          {"internalType": "uint256", "name": "upperRange_", "type": "uint256"},
-          {"internalType": "uint256", "name": "lowerRange_", "type": "uint256"},
-          {"internalType": "uint256", "name": "token0SupplyExchangePrice_", "type": "uint256"},
-          {"internalType": "uint256", "name": "token1SupplyExchangePrice_", "type": "uint256"}
-        ],
-        "name": "getCollateralReserves",
-        "outputs": [
-          {"internalType": "struct IFluidDexT1.CollateralReserves", "name": "c_", "type": "tuple", "components": [
-            {"internalType": "uint256", "name": "token0RealReserves", "type": "uint256"},
-            {"internalType": "uint256", "name": "token1RealReserves", "type": "uint256"},
-            {"internalType": "uint256", "name": "token0ImaginaryReserves", "type": "uint256"},
-            {"internalType": "uint256", "name": "token1ImaginaryReserves", "type": "uint256"}
-          ]}
-        ],
-        "stateMutability": "view",
-        "type": "function"
-      },
-      {
-        "inputs": [],
-        "name": "getPricesAndExchangePrices", 
-        "outputs": [],
-        "stateMutability": "view",
-        "type": "function"
-      }
-    ];
-
-    const fluidContract = new ethers.Contract(pool.address, FLUID_POOL_ABI, this.provider);
-    
-    try {
-      // Step 1: Get price data including ranges and exchange prices
-      console.log('🔍 Fetching Fluid price and range data...');
-      let priceData: any = null;
-      let token0SupplyExchangePrice = BigInt(0);
-      let token1SupplyExchangePrice = BigInt(0);
-      
-      try {
-        await fluidContract.getPricesAndExchangePrices.staticCall();
-        console.log('⚠️ getPricesAndExchangePrices succeeded unexpectedly');
-      } catch (priceError: any) {
-        if (priceError.data && priceError.data.length > 10) {
-          const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
-            ['uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256'],
-            '0x' + priceError.data.slice(10)
-          );
-          
-          priceData = {
-            centerPrice: decoded[1],
-            upperRange: decoded[2],
-            lowerRange: decoded[3],
-            geometricMean: this.calculateGeometricMean(decoded[2], decoded[3])
-          };
-          
-          // Extract exchange prices (token0SupplyExchangePrice, token1SupplyExchangePrice)
-          // Based on Fluid DEX documentation, these are typically at indices 4 and 5
-          token0SupplyExchangePrice = decoded[4] || BigInt(1e27); // Default 1.0 with 27 decimals
-          token1SupplyExchangePrice = decoded[5] || BigInt(1e27); // Default 1.0 with 27 decimals
-        }
-      }
-      
-      if (!priceData) {
-        throw new Error('Could not extract price data from Fluid pool');
-      }
-      
-      // Step 2: Get collateral reserves using the extracted price parameters
-      console.log('🔍 Fetching Fluid collateral reserves...');
-      const reserves = await fluidContract.getCollateralReserves(
-        priceData.geometricMean,
-        priceData.upperRange,
-        priceData.lowerRange,
-        token0SupplyExchangePrice,
-        token1SupplyExchangePrice
-      );
-      
-      // Extract reserve values from the returned struct
-      const token0Reserves = reserves.token0RealReserves;
-      const token1Reserves = reserves.token1RealReserves;
-      
-      console.log('🔍 Raw contract reserve values:');
-      console.log(`  token0RealReserves (raw): ${token0Reserves.toString()}`);
-      console.log(`  token1RealReserves (raw): ${token1Reserves.toString()}`);
-      console.log(`  token0ImaginaryReserves (raw): ${reserves.token0ImaginaryReserves.toString()}`);
-      console.log(`  token1ImaginaryReserves (raw): ${reserves.token1ImaginaryReserves.toString()}`);
-      
-      // Test different decimal conversions to see which makes sense
-      console.log('🧪 Testing decimal conversions:');
-      console.log(`  token0 as 6 decimals (USDT): ${ethers.formatUnits(token0Reserves, 6)}`);
-      console.log(`  token0 as 18 decimals: ${ethers.formatUnits(token0Reserves, 18)}`);
-      console.log(`  token0 as 27 decimals: ${ethers.formatUnits(token0Reserves, 27)}`);
-      console.log(`  token1 as 6 decimals: ${ethers.formatUnits(token1Reserves, 6)}`);
-      console.log(`  token1 as 18 decimals (USDe): ${ethers.formatUnits(token1Reserves, 18)}`);
-      console.log(`  token1 as 27 decimals: ${ethers.formatUnits(token1Reserves, 27)}`);
-      
-      // Step 3: Calculate real price impact using concentrated liquidity math
-      const outputAmount = await this.calculateFluidPriceImpact(
-        inputAmount,
-        token0Reserves,
-        token1Reserves,
-        priceData,
-        pool
-      );
-      
-      // Log the successful calculation
-      const executionTime = Date.now() - startTime;
-      const outputFormatted = ethers.formatUnits(outputAmount, pool.tokens.quote.decimals);
-      const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
-      
-      this.logFluidQuote({
-        method: 'direct_simulation',
-        timestamp: startTime,
-        inputAmount: inputFormatted,
-        outputAmount: outputFormatted,
-        exchangeRate: Number(outputFormatted) / Number(inputFormatted),
-        executionTime,
-        priceData: {
-          centerPrice: ethers.formatUnits(priceData.centerPrice, 27),
-          upperRange: ethers.formatUnits(priceData.upperRange, 27),
-          lowerRange: ethers.formatUnits(priceData.lowerRange, 27),
-          geometricMean: ethers.formatUnits(priceData.geometricMean, 27)
-        },
-        reserves: {
-          token0: ethers.formatUnits(token0Reserves, pool.tokens.base.symbol === 'USDT' ? 6 : 18),
-          token1: ethers.formatUnits(token1Reserves, pool.tokens.quote.symbol === 'USDT' ? 6 : 18)
-        }
-      });
-      
-      console.log(`✅ Real price impact quote: ${outputFormatted} ${pool.tokens.quote.symbol} (${executionTime}ms)`);
-      return outputAmount;
-      
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      this.logFluidQuote({
-        method: 'direct_simulation',
-        timestamp: startTime,
-        inputAmount: ethers.formatUnits(inputAmount, pool.tokens.base.decimals),
-        outputAmount: '0',
-        exchangeRate: 0,
-        executionTime,
-        errors: [error instanceof Error ? error.message : String(error)]
-      });
-      
-      throw error;
-    }
-  }
-
-  /**
-   * Calculate geometric mean of upper and lower price ranges
-   */
-  private calculateGeometricMean(upperRange: bigint, lowerRange: bigint): bigint {
-    // Convert to numbers for calculation, then back to bigint
-    const upper = Number(ethers.formatUnits(upperRange, 27));
-    const lower = Number(ethers.formatUnits(lowerRange, 27));
-    const geometricMean = Math.sqrt(upper * lower);
-    return ethers.parseUnits(geometricMean.toString(), 27);
-  }
-
-  /**
-   * Calculate price impact using concentrated liquidity mathematics
-   */
-  private async calculateFluidPriceImpact(
-    inputAmount: bigint,
-    token0Reserves: bigint,
-    token1Reserves: bigint,
-    priceData: any,
-    _pool: PoolInfo
-  ): Promise<bigint> {
-    // Convert to floating point for calculations
-    // Based on analysis: Fluid contract returns reserves in different scale than expected
-    const inputFloat = Number(ethers.formatUnits(inputAmount, 18)); // USDe decimals
-    const reserve0Float = Number(ethers.formatUnits(token0Reserves, 18)); // USDT reserves in 18 decimals from Fluid
-    const reserve1Float = Number(ethers.formatUnits(token1Reserves, 6)); // USDe reserves in 6 decimals from Fluid
-    const centerPriceFloat = Number(ethers.formatUnits(priceData.centerPrice, 27));
-    const upperRangeFloat = Number(ethers.formatUnits(priceData.upperRange, 27));
-    const lowerRangeFloat = Number(ethers.formatUnits(priceData.lowerRange, 27));
-    const geometricMeanFloat = Number(ethers.formatUnits(priceData.geometricMean, 27));
-    
-    console.log(`📊 Price Impact Calculation:`);
-    console.log(`  Input: ${inputFloat} USDe`);
-    console.log(`  Reserves: ${reserve0Float} USDT, ${reserve1Float} USDe`);
-    console.log(`  Center Price: ${centerPriceFloat}`);
-    console.log(`  Range: ${lowerRangeFloat} - ${upperRangeFloat}`);
-    console.log(`  Geometric Mean: ${geometricMeanFloat}`);
-    
-    // Calculate swap size relative to pool liquidity
-    const swapSizeRatio = inputFloat / reserve1Float;
-    console.log(`  Swap Size Ratio: ${(swapSizeRatio * 100).toFixed(4)}%`);
-    
-    // Use concentrated liquidity price impact formula
-    // For small swaps, use linear approximation around center price
-    // For larger swaps, use quadratic approximation accounting for range bounds
-    
-    let priceImpact: number;
-    let effectivePrice: number;
-    
-    if (swapSizeRatio < 0.01) { // < 1% of pool
-      // Linear price impact for small swaps
-      priceImpact = swapSizeRatio * 0.5; // 0.5% impact per 1% of pool
-      effectivePrice = geometricMeanFloat * (1 - priceImpact);
-      console.log(`  Small swap - Linear impact: ${(priceImpact * 100).toFixed(4)}%`);
-    } else {
-      // Quadratic price impact for larger swaps with range bounds
-      const rangeUtilization = Math.min(swapSizeRatio * 2, 0.8); // Cap at 80% range utilization
-      priceImpact = swapSizeRatio * (1 + swapSizeRatio * 10); // Quadratic growth
-      priceImpact = Math.min(priceImpact, 0.15); // Cap at 15% maximum impact
-      
-      // Adjust price based on range position
-      const rangePosition = (geometricMeanFloat - lowerRangeFloat) / (upperRangeFloat - lowerRangeFloat);
-      const rangeAdjustment = rangePosition * rangeUtilization * 0.1;
-      
-      effectivePrice = geometricMeanFloat * (1 - priceImpact + rangeAdjustment);
-      console.log(`  Large swap - Quadratic impact: ${(priceImpact * 100).toFixed(4)}%`);
-      console.log(`  Range utilization: ${(rangeUtilization * 100).toFixed(4)}%`);
-    }
-    
-    // Calculate output amount
-    const baseOutputAmount = inputFloat * effectivePrice;
-    
-    // Apply Fluid DEX fee (0.01% = 0.0001)
-    const fluidFee = 0.0001;
-    const finalOutputAmount = baseOutputAmount * (1 - fluidFee);
-    
-    console.log(`  Effective Price: ${effectivePrice.toFixed(8)}`);
-    console.log(`  Pre-fee Output: ${baseOutputAmount.toFixed(6)}`);
-    console.log(`  Final Output: ${finalOutputAmount.toFixed(6)} USDT`);
-    
-    // Convert back to bigint with USDT decimals (6)
-    return BigInt(Math.floor(finalOutputAmount * 1000000));
-  }
-
-  /**
-   * Get live Fluid DEX quote using getPricesAndExchangePrices method (ENHANCED)
-   */
-  private async getFluidLiveQuote(pool: PoolInfo, inputAmount: bigint, startTime: number): Promise<bigint> {
-    // Fluid Pool ABI for getPricesAndExchangePrices
-    const FLUID_POOL_ABI = [
-      {
-        "inputs": [],
-        "name": "getPricesAndExchangePrices", 
-        "outputs": [],
-        "stateMutability": "view",
-        "type": "function"
-      },
-      {
-        "inputs": [
-          {"internalType": "bool", "name": "swap0to1_", "type": "bool"},
-          {"internalType": "uint256", "name": "amountIn_", "type": "uint256"},
-          {"internalType": "uint256", "name": "amountOutMin_", "type": "uint256"},
-          {"internalType": "address", "name": "to_", "type": "address"}
-        ],
-        "name": "swapIn",
-        "outputs": [{"internalType": "uint256", "name": "amountOut_", "type": "uint256"}],
-        "stateMutability": "payable",
-        "type": "function"
-      }
-    ];
-
-    // FluidDexSwapResult error ABI for decoding simulation results
-    const SWAP_RESULT_ERROR_ABI = [
-      {
-        "inputs": [{"internalType": "uint256", "name": "amountOut", "type": "uint256"}],
-        "name": "FluidDexSwapResult",
-        "type": "error"
-      }
-    ];
-
-    const fluidContract = new ethers.Contract(pool.address, FLUID_POOL_ABI, this.provider);
-    const errorInterface = new ethers.Interface(SWAP_RESULT_ERROR_ABI);
-    
-    // Get live price data from getPricesAndExchangePrices
-    try {
-      console.log('🔄 Fetching live Fluid price data...');
-      await fluidContract.getPricesAndExchangePrices.staticCall();
-      console.log('⚠️ getPricesAndExchangePrices succeeded unexpectedly');
-    } catch (priceError: any) {
-      console.log('🎯 Got expected price data revert');
-      
-      if (priceError.data && priceError.data.length > 10) {
-        // Decode price data (9 uint256 values: 5 prices + 4 exchange prices)
-        try {
-          const priceData = '0x' + priceError.data.slice(10);
-          const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
-            ['uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256'],
-            priceData
-          );
-
-          const centerPrice = decoded[1]; // Center price in 27 decimal format
-          console.log('📊 Live center price:', ethers.formatUnits(centerPrice, 27));
-          
-          // Now simulate the swap using ADDRESS_DEAD to get accurate quote
-          const ADDRESS_DEAD = '0x000000000000000000000000000000000000dEaD';
-          const swap0to1 = false; // USDe (token1) -> USDT (token0)
-
-          try {
-            console.log('🔄 Simulating swap with ADDRESS_DEAD...');
-            await fluidContract.swapIn.staticCall(
-              swap0to1,
-              inputAmount,
-              0n, // amountOutMin
-              ADDRESS_DEAD
-            );
-            
-            console.log('⚠️ Swap simulation succeeded - no FluidDexSwapResult error');
-            
-          } catch (swapError: any) {
-            console.log('🎯 Got swap simulation revert');
-            
-            if (swapError.data) {
-              // Check for FluidDexSwapResult error (selector: 0xb3bfda99)
-              if (swapError.data.startsWith('0xb3bfda99')) {
-                const amountOut = BigInt('0x' + swapError.data.slice(10));
-                const amountOutFormatted = ethers.formatUnits(amountOut, 6);
-                
-                console.log(`✅ Live Fluid quote: ${amountOutFormatted} USDT`);
-                console.log(`📈 Exchange rate: ${Number(amountOutFormatted) / Number(ethers.formatUnits(inputAmount, 18))} USDT per USDe`);
-                
-                return amountOut;
-              } else {
-                // Try to decode with error interface
-                try {
-                  const decodedError = errorInterface.parseError(swapError.data);
-                  if (decodedError && decodedError.name === 'FluidDexSwapResult') {
-                    const amountOut = decodedError.args.amountOut;
-                    console.log(`✅ Live Fluid quote (decoded): ${ethers.formatUnits(amountOut, 6)} USDT`);
-                    return amountOut;
-                  }
-                } catch (decodeError: any) {
-                  console.log('Could not decode swap error:', decodeError.message);
-                }
-              }
-            }
-          }
-          
-          // If simulation failed, use center price for calculation
-          console.log('📊 Using center price for calculation...');
-          const centerPriceFloat = Number(ethers.formatUnits(centerPrice, 27));
-          const inputAmountFloat = Number(ethers.formatUnits(inputAmount, 18));
-          const outputAmountFloat = inputAmountFloat * centerPriceFloat * 0.9998; // Apply 0.02% total fee
-          const estimatedOut = BigInt(Math.floor(outputAmountFloat * 1000000)); // Convert to 6 decimals
-          
-          console.log(`✅ Calculated from center price: ${ethers.formatUnits(estimatedOut, 6)} USDT`);
-          return estimatedOut;
-          
-        } catch (decodeError: any) {
-          console.log('❌ Could not decode price data:', decodeError.message);
-        }
-      }
-    }
-    
-    // Log live quote attempt failure
-    const executionTime = Date.now() - startTime;
-    this.logFluidQuote({
-      method: 'live_price_calculation',
-      timestamp: startTime,
-      inputAmount: ethers.formatUnits(inputAmount, pool.tokens.base.decimals),
-      outputAmount: '0',
-      exchangeRate: 0,
-      executionTime,
-      errors: ['Live quote method failed']
-    });
-    
-    // If all live methods failed, fall back to estimation
-    console.log('⚠️ Live quote failed, falling back to estimation');
-    throw new Error('Live quote calculation failed');
-  }
-
-  /**
-   * Get estimated Fluid DEX quote using enhanced fee-adjusted calculation with logging
-   */
-  private async getFluidEstimatedQuote(pool: PoolInfo, inputAmount: bigint, startTime: number): Promise<bigint> {
-    const inputFormatted = ethers.formatUnits(inputAmount, pool.tokens.base.decimals);
-    console.log(`🔍 Fluid estimated quote: ${inputFormatted} ${pool.tokens.base.symbol} → ${pool.tokens.quote.symbol}`);
-    console.log(`🔍 Estimation method called for pool: ${pool.address}`);
-    
-    try {
-      // For stablecoin pairs like USDe/USDT, use decimal-adjusted 1:1 with fee
-      const stablecoins = ['USDC', 'USDT', 'DAI', 'USDe'];
-      const isStablecoinPair = stablecoins.includes(pool.tokens.base.symbol) && stablecoins.includes(pool.tokens.quote.symbol);
-      
-      let estimatedOut: bigint;
-      
-      if (isStablecoinPair) {
-        // Enhanced fee calculation: 0.01% base + 0.01% slippage estimate = 0.02% total
-        const baseFee = 0.0001; // 0.01% Fluid fee
-        const slippageEstimate = 0.0001; // 0.01% slippage estimate
-        const totalFeeRate = 1 - (baseFee + slippageEstimate);
-        const feeAdjustedAmount = BigInt(Math.floor(Number(inputAmount) * totalFeeRate));
-        
-        // Adjust for decimal differences 
-        const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-        
-        if (decimalDiff > 0) {
-          estimatedOut = feeAdjustedAmount * BigInt(10 ** decimalDiff);
-        } else if (decimalDiff < 0) {
-          estimatedOut = feeAdjustedAmount / BigInt(10 ** Math.abs(decimalDiff));
-        } else {
-          estimatedOut = feeAdjustedAmount;
-        }
-        
-        console.log(`Fluid stablecoin estimate (${(totalFeeRate * 100).toFixed(4)}% effective rate): ${ethers.formatUnits(estimatedOut, pool.tokens.quote.decimals)} ${pool.tokens.quote.symbol}`);
-      } else {
-        // For non-stablecoin pairs, use price-based estimation with enhanced slippage modeling
-        const fallbackPrices: Record<string, number> = {
-          'WETH': 4700, 'ETH': 4700, 'USDT': 1, 'USDC': 1, 'WBTC': 115000,
-          'UNI': 18, 'LINK': 25, 'USDe': 1, 'DAI': 1
-        };
-        
-        const basePrice = fallbackPrices[pool.tokens.base.symbol] || 1;
-        const quotePrice = fallbackPrices[pool.tokens.quote.symbol] || 1;
-        const priceRatio = basePrice / quotePrice;
-        
-        // Enhanced slippage modeling based on swap size
-        const inputAmountFloat = Number(inputAmount) / (10 ** pool.tokens.base.decimals);
-        const swapSizeUSD = inputAmountFloat * basePrice;
-        
-        // Dynamic slippage based on swap size
-        let slippageRate = 0.0001; // 0.01% base
-        if (swapSizeUSD > 100000) slippageRate = 0.001; // 0.1% for >$100k
-        if (swapSizeUSD > 1000000) slippageRate = 0.005; // 0.5% for >$1M
-        
-        const baseFee = 0.0001; // 0.01% Fluid fee
-        const totalFeeRate = 1 - (baseFee + slippageRate);
-        
-        const outputAmountFloat = inputAmountFloat * priceRatio * totalFeeRate;
-        estimatedOut = BigInt(Math.floor(outputAmountFloat * (10 ** pool.tokens.quote.decimals)));
-        
-        console.log(`Fluid price-based estimate (${(slippageRate * 100).toFixed(4)}% slippage): ${inputAmountFloat} ${pool.tokens.base.symbol} → ${outputAmountFloat} ${pool.tokens.quote.symbol}`);
-      }
-      
-      // Log the estimation
-      const executionTime = Date.now() - startTime;
-      const outputFormatted = ethers.formatUnits(estimatedOut, pool.tokens.quote.decimals);
-      
-      this.logFluidQuote({
-        method: 'estimation_fallback',
-        timestamp: startTime,
-        inputAmount: inputFormatted,
-        outputAmount: outputFormatted,
-        exchangeRate: Number(outputFormatted) / Number(inputFormatted),
-        executionTime
-      });
-      
-      return estimatedOut;
-      
-    } catch (error) {
-      const executionTime = Date.now() - startTime;
-      this.logFluidQuote({
-        method: 'estimation_fallback',
-        timestamp: startTime,
-        inputAmount: inputFormatted,
-        outputAmount: '0',
-        exchangeRate: 0,
-        executionTime,
-        errors: [error instanceof Error ? error.message : String(error)]
-      });
-      
-      // Ultimate fallback - simple 1:1 with basic fee
-      const decimalDiff = pool.tokens.quote.decimals - pool.tokens.base.decimals;
-      const basicFeeRate = 0.9998;
-      const basicAmount = BigInt(Math.floor(Number(inputAmount) * basicFeeRate));
-      
-      if (decimalDiff > 0) {
-        return basicAmount * BigInt(10 ** decimalDiff);
-      } else if (decimalDiff < 0) {
-        return basicAmount / BigInt(10 ** Math.abs(decimalDiff));
-      }
-      return basicAmount;
-    }
-  }
-
-  /**
-   * Calculate input amount based on USD value and current token price from CoinGecko
-   */
-  private async calculateInputAmount(pool: PoolInfo, usdAmount: number): Promise<bigint> {
-    // Temporarily use fallback prices to avoid CoinGecko API issues
-    // TODO: Re-enable price service once API limits are resolved
-    console.warn(`Using fallback prices for ${pool.tokens.base.symbol} due to API limitations`);
-    
-    const fallbackPrices: Record<string, number> = {
-      'WETH': 4700,  // Updated prices as of late 2025
-      'ETH': 4700,
-      'USDT': 1,
-      'USDC': 1,
-      'WBTC': 115000, // Updated BTC price ~ $115k
-      'UNI': 18,      // Updated UNI price
-      'LINK': 25,
-      'USDe': 1,
-      'DAI': 1
-    };
-    
-    const baseTokenPrice = fallbackPrices[pool.tokens.base.symbol] || 1;
-    const tokenAmount = usdAmount / baseTokenPrice;
-    
-    return ethers.parseUnits(tokenAmount.toString(), pool.tokens.base.decimals);
-  }
-
-  /**
-   * Extract fee tier from Uniswap V3 pool name
-   */
-  private extractV3Fee(poolName: string): number | null {
-    const feeMatch = poolName.match(/(\d+)\s*bps?/i);
-    if (feeMatch) {
-      return parseInt(feeMatch[1]);
-    }
-    
-    // Common fee tiers in basis points -> actual values
-    if (poolName.includes('0.05%') || poolName.includes('5 bps')) return 500;
-    if (poolName.includes('0.3%') || poolName.includes('30 bps')) return 3000;
-    if (poolName.includes('1%') || poolName.includes('100 bps')) return 10000;
-    
-    return null;
-  }
-
-  /**
-   * Calculate rankings from successful quotes
-   */
-  private calculateRankings(quotes: OnChainQuote[]): PoolRanking[] {
-    if (quotes.length === 0) return [];
-
-    // Sort by output amount (higher is better)
-    const sortedQuotes = quotes
-      .filter(q => q.success && parseFloat(q.outputAmount) > 0)
-      .sort((a, b) => parseFloat(b.outputAmount) - parseFloat(a.outputAmount));
-
-    if (sortedQuotes.length === 0) return [];
-
-    const worstOutput = parseFloat(sortedQuotes[sortedQuotes.length - 1].outputAmount);
-    const bestOutput = parseFloat(sortedQuotes[0].outputAmount);
-    
-    return sortedQuotes.map((quote, index) => {
-      const currentOutput = parseFloat(quote.outputAmount);
-      
-      // Calculate price advantage with safety checks for extreme values
-      let priceAdvantage = 0;
-      if (worstOutput > 0 && isFinite(worstOutput) && isFinite(currentOutput)) {
-        priceAdvantage = ((currentOutput - worstOutput) / worstOutput) * 100;
-        
-        // Cap extreme percentage values to reasonable range (max 1000%)
-        priceAdvantage = Math.min(priceAdvantage, 1000);
-        priceAdvantage = Math.max(0, priceAdvantage);
-        
-        // For very small differences, set to 0
-        if (Math.abs(currentOutput - worstOutput) / bestOutput < 0.0001) {
-          priceAdvantage = 0;
-        }
-      }
-      
-      return {
-        rank: index + 1,
-        pool: quote.pool,
-        quote,
-        priceAdvantage
-      };
-    });
-  }
-
-  /**
-   * Batch simulate swaps for multiple token pairs
-   */
-  async batchSimulateSwaps(
-    poolsByPair: Map<string, PoolInfo[]>, 
-    inputAmountUSD: number = 10000
-  ): Promise<Map<string, SwapSimulation>> {
-    const results = new Map<string, SwapSimulation>();
+  async batchSimulateSwaps(
+    poolsByPair: Map<string, PoolInfo[]>, 
+    inputAmountUSD: number = 10000
+  ): Promise<Map<string, SwapSimulation>> {
+    const results = new Map<string, SwapSimulation>();
     
     for (const [pairName, pools] of poolsByPair.entries()) {
       console.log(`🔄 Processing ${pairName}...`);
@@ -1560,134 +808,12 @@ class OnChainQuoteService {
         await new Promise(resolve => setTimeout(resolve, 2000));
       } catch (error) {
         console.error(`Failed to simulate swaps for ${pairName}:`, error);
-        results.set(pairName, {
-          quotes: [],
-          bestQuote: null,
-          rankings: []
-        });
+        results.set(pairName, rankQuotes([]));
       }
     }
     
     return results;
   }
-
-  /**
-   * Log Fluid quote attempts with comprehensive tracking
-   */
-  private logFluidQuote(metrics: {
-    method: 'direct_simulation' | 'live_price_calculation' | 'estimation_fallback';
-    timestamp: number;
-    inputAmount: string;
-    outputAmount: string;
-    exchangeRate: number;
-    executionTime: number;
-    priceData?: {
-      centerPrice: string;
-      upperRange: string;
-      lowerRange: string;
-      geometricMean: string;
-    };
-    reserves?: {
-      token0: string;
-      token1: string;
-    };
-    errors?: string[];
-  }): void {
-    const methodEmoji = {
-      'direct_simulation': '🎯',
-      'live_price_calculation': '📊', 
-      'estimation_fallback': '⚠️'
-    };
-
-    console.log(`${methodEmoji[metrics.method]} Fluid Quote [${metrics.method.toUpperCase()}]`);
-    console.log(`  Input: ${metrics.inputAmount} USDe`);
-    console.log(`  Output: ${metrics.outputAmount} USDT`);
-    console.log(`  Rate: ${metrics.exchangeRate.toFixed(6)} USDT/USDe`);
-    console.log(`  Time: ${metrics.executionTime}ms`);
-    
-    if (metrics.priceData) {
-      console.log(`  Price Data:`);
-      console.log(`    Center: ${Number(metrics.priceData.centerPrice).toFixed(8)}`);
-      console.log(`    Range: ${Number(metrics.priceData.lowerRange).toFixed(8)} - ${Number(metrics.priceData.upperRange).toFixed(8)}`);
-      console.log(`    Geometric Mean: ${Number(metrics.priceData.geometricMean).toFixed(8)}`);
-    }
-    
-    if (metrics.reserves) {
-      console.log(`  Reserves: ${metrics.reserves.token0} USDT, ${metrics.reserves.token1} USDe`);
-    }
-    
-    if (metrics.errors?.length) {
-      console.log(`  Errors: ${metrics.errors.join(', ')}`);
-    }
-    
-    // Store in global logging system for VS Code access
-    this.storeQuoteLog({
-      poolType: 'fluid',
-      method: metrics.method,
-      timestamp: new Date().toISOString(),
-      inputAmount: metrics.inputAmount,
-      outputAmount: metrics.outputAmount,
-      exchangeRate: metrics.exchangeRate,
-      executionTime: metrics.executionTime,
-      metadata: {
-        priceData: metrics.priceData,
-        reserves: metrics.reserves,
-        errors: metrics.errors
-      }
-    });
-  }
-
-  /**
-   * Store quote logs for comprehensive tracking across all pool types
-   */
-  private storeQuoteLog(logEntry: {
-    poolType: string;
-    method: string;
-    timestamp: string;
-    inputAmount: string;
-    outputAmount: string;
-    exchangeRate: number;
-    executionTime: number;
-    metadata?: any;
-  }): void {
-    // Initialize global quote log storage
-    if (typeof window !== 'undefined') {
-      if (!(window as any).quoteSystemLogs) {
-        (window as any).quoteSystemLogs = [];
-      }
-      
-      (window as any).quoteSystemLogs.unshift(logEntry);
-      
-      // Keep only last 500 entries for performance
-      if ((window as any).quoteSystemLogs.length > 500) {
-        (window as any).quoteSystemLogs = (window as any).quoteSystemLogs.slice(0, 500);
-      }
-      
-      // Expose methods for VS Code console access
-      (window as any).getQuoteLogs = (poolType?: string, count: number = 50) => {
-        const logs = (window as any).quoteSystemLogs || [];
-        const filtered = poolType ? logs.filter((log: any) => log.poolType === poolType) : logs;
-        return filtered.slice(0, count);
-      };
-      
-      (window as any).getQuoteStats = () => {
-        const logs = (window as any).quoteSystemLogs || [];
-        const stats: Record<string, Record<string, number>> = {};
-        
-        logs.forEach((log: any) => {
-          if (!stats[log.poolType]) stats[log.poolType] = {};
-          stats[log.poolType][log.method] = (stats[log.poolType][log.method] || 0) + 1;
-        });
-        
-        return stats;
-      };
-      
-      (window as any).clearQuoteLogs = () => {
-        (window as any).quoteSystemLogs = [];
-        console.log('Quote logs cleared');
-      };
-    }
-  }
 }
 
 export default OnChainQuoteService;
\ No newline at end of file
@@ -1,11 +1,14 @@
 /**
  * Pool Discovery Service
  * Background service for periodically updating pool addresses
- * Runs daily/weekly to refresh hardcoded pool registry from CoinGecko
+ * Runs daily/weekly to refresh the pool registry from CoinGecko, or from the DEX contracts when an RPC URL is given
+ * New pools are stored as pending and only join the rankings once approved
  */
 
-import CoinGeckoPoolService, { type PoolInfo } from './coinGeckoPoolService';
+import CoinGeckoPoolService from './coinGeckoPoolService';
+import OnChainPoolDiscoveryService, { DISCOVERED_DEXES } from './onChainPoolDiscoveryService';
 import HardcodedPoolService from './hardcodedPoolService';
+import { poolRegistry, type PoolRegistryDiff, type PoolRegistrySummary } from './poolRegistryService';
 import { TOKEN_PAIRS } from '../config/tokenPairs';
 import { logger } from './logger';
 
@@ -14,6 +17,7 @@ export interface PoolDiscoveryResult {
   pairsProcessed: number;
   newPoolsFound: number;
   totalPoolsAfterUpdate: number;
+  diffs: PoolRegistryDiff[]; // One per pair processed, also stored with the registry
   errors: string[];
   duration: number;
 }
@@ -27,6 +31,7 @@ export interface PoolDiscoverySchedule {
 
 class PoolDiscoveryService {
   private coinGeckoService: CoinGeckoPoolService;
+  private onChainService: OnChainPoolDiscoveryService | null;
   private hardcodedService: HardcodedPoolService;
   private isRunning = false;
   private schedule: PoolDiscoverySchedule = {
@@ -36,8 +41,9 @@ class PoolDiscoveryService {
     nextRun: null
   };
 
-  constructor() {
+  constructor(alchemyUrl?: string) {
     this.coinGeckoService = new CoinGeckoPoolService();
+    this.onChainService = alchemyUrl ? new OnChainPoolDiscoveryService(alchemyUrl) : null;
     this.hardcodedService = new HardcodedPoolService();
     
     // Set initial next run time
@@ -45,7 +51,8 @@ class PoolDiscoveryService {
     
     logger.info('PoolDiscoveryService', 'Pool discovery service initialized', {
       intervalHours: this.schedule.intervalHours,
-      nextRun: this.schedule.nextRun
+      nextRun: this.schedule.nextRun,
+      source: this.onChainService ? 'on-chain' : 'coingecko'
     });
   }
 
@@ -69,6 +76,7 @@ class PoolDiscoveryService {
       pairsProcessed: 0,
       newPoolsFound: 0,
       totalPoolsAfterUpdate: 0,
+      diffs: [],
       errors: [],
       duration: 0
     };
@@ -76,36 +84,32 @@ class PoolDiscoveryService {
     this.isRunning = true;
 
     try {
-      const discoveredPools: Record<string, PoolInfo[]> = {};
-      const existingPools = this.hardcodedService.getAllPools();
 
       // Process each token pair
       for (const pair of TOKEN_PAIRS) {
         try {
           logger.info('PoolDiscoveryService', `Discovering pools for ${pair.name}`);
           
-          const pools = await this.coinGeckoService.findPoolsForPair(pair);
-          discoveredPools[pair.id] = pools;
+          const pools = this.onChainService
+            ? await this.onChainService.findPoolsForPair(pair)
+            : await this.coinGeckoService.findPoolsForPair(pair);
           result.pairsProcessed++;
 
-          // Compare with existing pools to find new ones
-          const existingPoolAddresses = new Set(
-            (existingPools[pair.id] || []).map(p => p.address.toLowerCase())
-          );
-          
-          const newPools = pools.filter(p => 
-            !existingPoolAddresses.has(p.address.toLowerCase())
-          );
-          
-          if (newPools.length > 0) {
-            logger.info('PoolDiscoveryService', `Found ${newPools.length} new pools for ${pair.name}`, {
-              newPools: newPools.map(p => ({ address: p.address, dex: p.dex, name: p.name }))
+          // Diff against the registry, new pools wait for review before they are ranked
+          const diff = poolRegistry.applyDiscovery(pair.id, pools, this.onChainService
+            ? { source: 'onchain', coveredDexes: DISCOVERED_DEXES }
+            : { source: 'coingecko' });
+          result.diffs.push(diff);
+
+          if (diff.added.length > 0) {
+            logger.info('PoolDiscoveryService', `Found ${diff.added.length} new pools for ${pair.name}, pending review`, {
+              newPools: diff.added.map(p => ({ address: p.address, dex: p.dex, name: p.name }))
             });
-            result.newPoolsFound += newPools.length;
+            result.newPoolsFound += diff.added.length;
           }
 
-          // Add delay between pairs to avoid rate limiting
-          if (TOKEN_PAIRS.indexOf(pair) < TOKEN_PAIRS.length - 1) {
+          // Add delay between pairs to avoid CoinGecko rate limiting, RPC calls go through the Alchemy limiter
+          if (!this.onChainService && TOKEN_PAIRS.indexOf(pair) < TOKEN_PAIRS.length - 1) {
             logger.debug('PoolDiscoveryService', 'Waiting 5s before next pair...');
             await new Promise(resolve => setTimeout(resolve, 5000));
           }
@@ -118,8 +122,7 @@ class PoolDiscoveryService {
       }
 
       // Calculate total pools after update
-      result.totalPoolsAfterUpdate = Object.values(discoveredPools)
-        .reduce((total, pools) => total + pools.length, 0);
+      result.totalPoolsAfterUpdate = poolRegistry.getSummary().totalPools;
 
       // Update schedule
       this.schedule.lastRun = new Date();
@@ -183,6 +186,7 @@ class PoolDiscoveryService {
     shouldRun: boolean;
     timeUntilNextRun: number | null; // milliseconds
     hardcodedRegistryInfo: ReturnType<HardcodedPoolService['getRegistryInfo']>;
+    registry: PoolRegistrySummary;
   } {
     const timeUntilNextRun = this.schedule.nextRun 
       ? Math.max(0, this.schedule.nextRun.getTime() - Date.now())
@@ -193,7 +197,8 @@ class PoolDiscoveryService {
       schedule: { ...this.schedule },
       shouldRun: this.shouldRun(),
       timeUntilNextRun,
-      hardcodedRegistryInfo: this.hardcodedService.getRegistryInfo()
+      hardcodedRegistryInfo: this.hardcodedService.getRegistryInfo(),
+      registry: poolRegistry.getSummary()
     };
   }
 
@@ -260,11 +265,17 @@ class PoolDiscoveryService {
     }
 
     // Check if discovery is needed
-    if (this.hardcodedService.needsUpdate()) {
+    if (poolRegistry.needsUpdate()) {
       recommendations.push('Pool registry needs updating - run discovery soon');
       healthScore -= 20;
     }
 
+    const pendingReview = poolRegistry.getSummary().byStatus.pending;
+    if (pendingReview > 0) {
+      recommendations.push(`${pendingReview} discovered pools are waiting for review`);
+      healthScore -= 5;
+    }
+
     // Check schedule health
     if (!this.schedule.enabled) {
       recommendations.push('Automated pool discovery is disabled');
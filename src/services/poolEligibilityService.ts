@@ -0,0 +1,389 @@
+/**
+ * Pool Eligibility Service
+ * Keeps pools a real trader would not route through out of the rankings
+ * TVL, in-range liquidity, 24h volume and last swap are measured on-chain at the comparison's block,
+ * so stale registry values never decide eligibility; every exclusion carries a reason for the UI
+ */
+
+import { ethers, Contract, type Provider, type Log } from 'ethers';
+import DynamicPricingService from './dynamicPricingService';
+import { MULTICALL3_ADDRESS } from './multicallBatcher';
+import type { PoolInfo } from './coinGeckoPoolService';
+import type { QuoteContext } from './onChainQuoteService';
+import type { TokenPair } from '../types/api';
+import { alchemyRateLimiter } from '../utils/rateLimiter';
+import { logger } from './logger';
+import { isSameAsset, toWrappedAddress } from '../config/tokens';
+
+export type ExclusionReason = 'no_liquidity' | 'low_tvl' | 'stale' | 'low_volume';
+
+export interface EligibilityCriteria {
+  minTvlUSD: number;
+  minVolume24hUSD: number;
+  maxSwapAgeHours: number; // Pools without a swap in this window are considered dead
+}
+
+export interface PoolExclusion {
+  pool: PoolInfo;
+  reason: ExclusionReason;
+  detail: string; // Shown next to the pool in the UI
+}
+
+export interface PoolEligibility {
+  eligible: PoolInfo[]; // Copies with liquidity_usd and volume_24h refreshed from the chain where measured
+  excluded: PoolExclusion[];
+}
+
+// Raw measurements in token units, priced at evaluation so cached reads survive price moves
+interface PoolActivity {
+  reserves: { sell: bigint; buy: bigint } | null;
+  inRangeLiquidity: bigint | null; // V3/V4 only
+  volume24h: bigint | null; // Sell-token amount swapped in the last 24h
+  lastSwapBlock: number | null; // null when no swap was found in the lookback
+  lookbackBlocks: number | null; // null when swaps can't be read for this venue
+}
+
+export const DEFAULT_ELIGIBILITY: EligibilityCriteria = {
+  minTvlUSD: 100000,
+  minVolume24hUSD: 10000,
+  maxSwapAgeHours: 72
+};
+
+const CONTRACTS = {
+  UNISWAP_V4_POOL_MANAGER: '0x000000000004444c5dc75cb358380d2e3de08a90',
+  UNISWAP_V4_STATE_VIEW: '0x7ffe42c4a5deea5b0fec41c94c136cf115597227',
+  BALANCER_V2_VAULT: '0xBA12222222228d8Ba445958a75a0704d566BF2C8',
+  WETH9: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+};
+
+const SWAP_EVENTS = new ethers.Interface([
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+  'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+  'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+  'event TokenExchange(address indexed buyer, uint256 sold_id, uint256 tokens_sold, uint256 bought_id, uint256 tokens_bought)'
+]);
+const V2_SWAP = SWAP_EVENTS.getEvent('Swap(address,uint256,uint256,uint256,uint256,address)')!;
+const V3_SWAP = SWAP_EVENTS.getEvent('Swap(address,address,int256,int256,uint160,uint128,int24)')!;
+const V4_SWAP = SWAP_EVENTS.getEvent('Swap(bytes32,address,int128,int128,uint160,uint128,int24,uint24)')!;
+const BALANCER_SWAP = SWAP_EVENTS.getEvent('Swap(bytes32,address,address,uint256,uint256)')!;
+const CURVE_EXCHANGES = [
+  SWAP_EVENTS.getEvent('TokenExchange(address,int128,uint256,int128,uint256)')!,
+  SWAP_EVENTS.getEvent('TokenExchange(address,uint256,uint256,uint256,uint256)')!
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+const MULTICALL3_BALANCE_ABI = ['function getEthBalance(address addr) view returns (uint256 balance)'];
+const V3_POOL_ABI = ['function liquidity() view returns (uint128)'];
+const V4_STATE_VIEW_ABI = ['function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)'];
+const BALANCER_VAULT_ABI = ['function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)'];
+const CURVE_COINS_ABI = ['function coins(uint256 i) view returns (address)'];
+
+// Aggregator routes and Fluid's liquidity layer can't be measured per pool, they are always ranked
+const UNCHECKED_DEXES = ['zerox', 'fluid'];
+const BLOCKS_PER_HOUR = 300; // 12s slots
+const LOG_CHUNK_BLOCKS = 2000; // Keeps each eth_getLogs under provider response caps for busy pools
+const ACTIVITY_CACHE_BLOCKS = BLOCKS_PER_HOUR; // Reuse measurements for an hour of blocks
+const MAX_CURVE_COINS = 8;
+
+class PoolEligibilityService {
+  private provider: Provider;
+  private pricingService: DynamicPricingService;
+  private activityCache = new Map<string, { blockNumber: number; activity: PoolActivity }>();
+
+  constructor(alchemyUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(alchemyUrl);
+    this.pricingService = new DynamicPricingService();
+  }
+
+  /**
+   * Split pools into those worth ranking and those excluded, with the first failed check as the reason
+   */
+  async filterPools(
+    pools: PoolInfo[],
+    tokenPair: TokenPair,
+    context: QuoteContext,
+    overrides: Partial<EligibilityCriteria> = {}
+  ): Promise<PoolEligibility> {
+    const criteria = { ...DEFAULT_ELIGIBILITY, ...overrides };
+    const prices = await this.getPrices(tokenPair);
+
+    const checks = await Promise.all(pools.map(async pool => {
+      if (UNCHECKED_DEXES.includes(pool.dex)) return { pool, exclusion: null };
+
+      try {
+        const activity = await this.getActivity(pool, tokenPair, context, criteria);
+        return this.evaluate(pool, tokenPair, activity, criteria, prices, context.blockNumber);
+      } catch (error) {
+        // A failed measurement never hides a pool, the quote itself will show whether it works
+        logger.warn('PoolEligibilityService', `Could not measure ${pool.name}, keeping it in the rankings`, error);
+        return { pool, exclusion: null };
+      }
+    }));
+
+    const eligible = checks.filter(check => !check.exclusion).map(check => check.pool);
+    const excluded = checks.flatMap(check => check.exclusion ? [check.exclusion] : []);
+
+    if (excluded.length > 0) {
+      logger.info('PoolEligibilityService', `Excluded ${excluded.length}/${pools.length} pools for ${tokenPair.name}`, {
+        excluded: excluded.map(e => ({ pool: e.pool.name, reason: e.reason }))
+      });
+    }
+    return { eligible, excluded };
+  }
+
+  /**
+   * Apply the criteria to one pool's measurements, checks that lack data pass
+   */
+  private evaluate(
+    pool: PoolInfo,
+    tokenPair: TokenPair,
+    activity: PoolActivity,
+    criteria: EligibilityCriteria,
+    prices: { sell: number; buy: number } | null,
+    blockNumber: number
+  ): { pool: PoolInfo; exclusion: PoolExclusion | null } {
+    const exclude = (reason: ExclusionReason, detail: string) => ({ pool, exclusion: { pool, reason, detail } });
+
+    if (activity.inRangeLiquidity === 0n) {
+      return exclude('no_liquidity', 'Zero in-range liquidity at the current tick');
+    }
+    if (activity.reserves && (activity.reserves.sell === 0n || activity.reserves.buy === 0n)) {
+      return exclude('no_liquidity', `Holds no ${activity.reserves.sell === 0n ? tokenPair.sellToken.symbol : tokenPair.buyToken.symbol}`);
+    }
+
+    const toUSD = (amount: bigint, decimals: number, price: number) => Number(ethers.formatUnits(amount, decimals)) * price;
+    const tvlUSD = activity.reserves && prices
+      ? toUSD(activity.reserves.sell, tokenPair.sellToken.decimals, prices.sell) + toUSD(activity.reserves.buy, tokenPair.buyToken.decimals, prices.buy)
+      : null;
+    if (tvlUSD !== null && tvlUSD < criteria.minTvlUSD) {
+      return exclude('low_tvl', `TVL ${formatUSD(tvlUSD)} below the ${formatUSD(criteria.minTvlUSD)} minimum`);
+    }
+
+    if (activity.lookbackBlocks !== null) {
+      const maxAgeBlocks = criteria.maxSwapAgeHours * BLOCKS_PER_HOUR;
+      if (activity.lastSwapBlock === null && activity.lookbackBlocks >= maxAgeBlocks) {
+        return exclude('stale', `No swap in the last ${criteria.maxSwapAgeHours}h`);
+      }
+      if (activity.lastSwapBlock !== null && blockNumber - activity.lastSwapBlock > maxAgeBlocks) {
+        const ageHours = (blockNumber - activity.lastSwapBlock) / BLOCKS_PER_HOUR;
+        return exclude('stale', `Last swap ${ageHours.toFixed(0)}h ago, limit ${criteria.maxSwapAgeHours}h`);
+      }
+    }
+
+    const volumeUSD = activity.volume24h !== null && prices
+      ? toUSD(activity.volume24h, tokenPair.sellToken.decimals, prices.sell)
+      : null;
+    if (volumeUSD !== null && volumeUSD < criteria.minVolume24hUSD) {
+      return exclude('low_volume', `24h volume ${formatUSD(volumeUSD)} below the ${formatUSD(criteria.minVolume24hUSD)} minimum`);
+    }
+
+    // Measured values replace the registry's snapshot for everything downstream
+    return {
+      pool: {
+        ...pool,
+        liquidity_usd: tvlUSD !== null ? Math.round(tvlUSD) : pool.liquidity_usd,
+        volume_24h: volumeUSD !== null ? Math.round(volumeUSD) : pool.volume_24h
+      },
+      exclusion: null
+    };
+  }
+
+  /**
+   * Measurements for a pool, reused while the comparison block is within an hour of the cached one
+   */
+  private async getActivity(
+    pool: PoolInfo,
+    tokenPair: TokenPair,
+    context: QuoteContext,
+    criteria: EligibilityCriteria
+  ): Promise<PoolActivity> {
+    const key = `${tokenPair.sellToken.address}-${pool.address}`.toLowerCase();
+    const cached = this.activityCache.get(key);
+    if (cached && Math.abs(context.blockNumber - cached.blockNumber) <= ACTIVITY_CACHE_BLOCKS) {
+      return cached.activity;
+    }
+
+    const activity = await this.readActivity(pool, tokenPair, context, criteria.maxSwapAgeHours * BLOCKS_PER_HOUR);
+    this.activityCache.set(key, { blockNumber: context.blockNumber, activity });
+    return activity;
+  }
+
+  /**
+   * Read reserves, in-range liquidity and swap history the way each venue exposes them
+   */
+  private async readActivity(pool: PoolInfo, tokenPair: TokenPair, context: QuoteContext, lookbackBlocks: number): Promise<PoolActivity> {
+    const sell = tokenPair.sellToken.address;
+    const buy = tokenPair.buyToken.address;
+    const sellIsToken0 = BigInt(toWrappedAddress(sell)) < BigInt(toWrappedAddress(buy)); // V2/V3 pools hold WETH for native ETH legs
+
+    switch (pool.dex) {
+      case 'uniswap_v2':
+      case 'sushiswap': {
+        const [reserves, swaps] = await Promise.all([
+          this.readBalances(pool.address, tokenPair, context),
+          this.scanSwaps(pool.address, [V2_SWAP.topicHash], context.blockNumber, lookbackBlocks, log => {
+            const { amount0In, amount1In, amount0Out, amount1Out } = SWAP_EVENTS.parseLog(log)!.args;
+            return sellIsToken0 ? amount0In + amount0Out : amount1In + amount1Out;
+          })
+        ]);
+        return { reserves, inRangeLiquidity: null, ...swaps, lookbackBlocks };
+      }
+
+      case 'uniswap_v3': {
+        const [reserves, inRangeLiquidity, swaps] = await Promise.all([
+          this.readBalances(pool.address, tokenPair, context),
+          context.multicall.call<bigint>(new Contract(pool.address, V3_POOL_ABI, this.provider), 'liquidity'),
+          this.scanSwaps(pool.address, [V3_SWAP.topicHash], context.blockNumber, lookbackBlocks, log => {
+            const { amount0, amount1 } = SWAP_EVENTS.parseLog(log)!.args;
+            return abs(sellIsToken0 ? amount0 : amount1);
+          })
+        ]);
+        return { reserves, inRangeLiquidity, ...swaps, lookbackBlocks };
+      }
+
+      case 'uniswap_v4': {
+        // Balances sit in the singleton PoolManager, so only in-range liquidity and swaps are per pool
+        const key = pool.v4_pool_key;
+        const sellIsCurrency0 = key
+          ? isSameAsset(key.currency0, sell)
+          : sellIsToken0;
+        const stateView = new Contract(CONTRACTS.UNISWAP_V4_STATE_VIEW, V4_STATE_VIEW_ABI, this.provider);
+        const [inRangeLiquidity, swaps] = await Promise.all([
+          context.multicall.call<bigint>(stateView, 'getLiquidity', [pool.address]),
+          this.scanSwaps(CONTRACTS.UNISWAP_V4_POOL_MANAGER, [V4_SWAP.topicHash, pool.address], context.blockNumber, lookbackBlocks, log => {
+            const { amount0, amount1 } = SWAP_EVENTS.parseLog(log)!.args;
+            return abs(sellIsCurrency0 ? amount0 : amount1);
+          })
+        ]);
+        return { reserves: null, inRangeLiquidity, ...swaps, lookbackBlocks };
+      }
+
+      case 'curve': {
+        const [reserves, sellIndex] = await Promise.all([
+          this.readBalances(pool.address, tokenPair, context),
+          this.findCurveCoinIndex(pool.address, sell, context)
+        ]);
+        const swaps = await this.scanSwaps(pool.address, [CURVE_EXCHANGES.map(event => event.topicHash)], context.blockNumber, lookbackBlocks, log => {
+          const { sold_id, tokens_sold, bought_id, tokens_bought } = SWAP_EVENTS.parseLog(log)!.args;
+          if (sellIndex === null) return 0n;
+          if (Number(sold_id) === sellIndex) return tokens_sold;
+          return Number(bought_id) === sellIndex ? tokens_bought : 0n;
+        });
+        return { reserves, inRangeLiquidity: null, lastSwapBlock: swaps.lastSwapBlock, volume24h: sellIndex !== null ? swaps.volume24h : null, lookbackBlocks };
+      }
+
+      case 'balancer': {
+        if (!pool.pool_id) break;
+        const poolId = pool.pool_id;
+
+        const vault = new Contract(CONTRACTS.BALANCER_V2_VAULT, BALANCER_VAULT_ABI, this.provider);
+        const [[tokens, balances], swaps] = await Promise.all([
+          context.multicall.call<[string[], bigint[], bigint]>(vault, 'getPoolTokens', [poolId]),
+          this.scanSwaps(CONTRACTS.BALANCER_V2_VAULT, [BALANCER_SWAP.topicHash, poolId], context.blockNumber, lookbackBlocks, log => {
+            const { tokenIn, tokenOut, amountIn, amountOut } = SWAP_EVENTS.parseLog(log)!.args;
+            if (isSameAsset(tokenIn, sell)) return amountIn;
+            return isSameAsset(tokenOut, sell) ? amountOut : 0n;
+          })
+        ]);
+        const balanceOf = (token: string) => balances[tokens.findIndex(t => isSameAsset(t, token))] ?? 0n;
+        return { reserves: { sell: balanceOf(sell), buy: balanceOf(buy) }, inRangeLiquidity: null, ...swaps, lookbackBlocks };
+      }
+    }
+
+    return { reserves: null, inRangeLiquidity: null, volume24h: null, lastSwapBlock: null, lookbackBlocks: null };
+  }
+
+  /**
+   * Token balances held by the pool, WETH sides also count native ETH for pools that hold ETH directly
+   */
+  private async readBalances(poolAddress: string, tokenPair: TokenPair, context: QuoteContext): Promise<{ sell: bigint; buy: bigint }> {
+    const balanceOf = async (token: string) => {
+      const erc20 = context.multicall.call<bigint>(new Contract(toWrappedAddress(token), ERC20_BALANCE_ABI, this.provider), 'balanceOf', [poolAddress]);
+      if (!isSameAsset(token, CONTRACTS.WETH9)) return erc20;
+
+      const multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_BALANCE_ABI, this.provider);
+      const [wrapped, native] = await Promise.all([erc20, context.multicall.call<bigint>(multicall, 'getEthBalance', [poolAddress])]);
+      return wrapped + native;
+    };
+
+    const [sell, buy] = await Promise.all([balanceOf(tokenPair.sellToken.address), balanceOf(tokenPair.buyToken.address)]);
+    return { sell, buy };
+  }
+
+  /**
+   * Sum the last 24h of swaps, then walk back chunk by chunk until a swap or the lookback limit is reached
+   */
+  private async scanSwaps(
+    address: string,
+    topics: Array<string | string[]>,
+    toBlock: number,
+    lookbackBlocks: number,
+    sellAmount: (log: Log) => bigint
+  ): Promise<{ volume24h: bigint; lastSwapBlock: number | null }> {
+    const volumeFrom = toBlock - 24 * BLOCKS_PER_HOUR + 1;
+    const oldestBlock = toBlock - lookbackBlocks + 1;
+    let volume24h = 0n;
+    let lastSwapBlock: number | null = null;
+
+    for (let chunkEnd = toBlock; chunkEnd >= oldestBlock; chunkEnd -= LOG_CHUNK_BLOCKS) {
+      const chunkStart = Math.max(chunkEnd - LOG_CHUNK_BLOCKS + 1, oldestBlock);
+      const logs = await alchemyRateLimiter.execute(() =>
+        this.provider.getLogs({ address, topics, fromBlock: chunkStart, toBlock: chunkEnd })
+      );
+
+      for (const log of logs) {
+        lastSwapBlock = Math.max(lastSwapBlock ?? 0, log.blockNumber);
+        if (log.blockNumber >= volumeFrom) {
+          volume24h += sellAmount(log);
+        }
+      }
+
+      // Past the volume window, only the most recent swap matters
+      if (chunkStart <= volumeFrom && lastSwapBlock !== null) break;
+    }
+
+    return { volume24h, lastSwapBlock };
+  }
+
+  private async findCurveCoinIndex(poolAddress: string, token: string, context: QuoteContext): Promise<number | null> {
+    const curvePool = new Contract(poolAddress, CURVE_COINS_ABI, this.provider);
+    const coins = await Promise.all(
+      Array.from({ length: MAX_CURVE_COINS }, (_, i) =>
+        context.multicall.call<string>(curvePool, 'coins', [i]).catch(() => null)
+      )
+    );
+    // Curve ETH pools list native ETH as 0xEeee…, which stands in for WETH
+    const index = coins.findIndex(coin => coin !== null && isSameAsset(coin, token));
+    return index === -1 ? null : index;
+  }
+
+  /**
+   * USD prices for both tokens, null when either can't be priced so USD checks are skipped
+   */
+  private async getPrices(tokenPair: TokenPair): Promise<{ sell: number; buy: number } | null> {
+    try {
+      const [sell, buy] = await Promise.all([
+        this.pricingService.getTokenPriceByAddress(tokenPair.sellToken.symbol, tokenPair.sellToken.address),
+        this.pricingService.getTokenPriceByAddress(tokenPair.buyToken.symbol, tokenPair.buyToken.address)
+      ]);
+      return sell.price_usd > 0 && buy.price_usd > 0 ? { sell: sell.price_usd, buy: buy.price_usd } : null;
+    } catch (error) {
+      logger.warn('PoolEligibilityService', `Could not price ${tokenPair.name}, skipping TVL and volume checks`, error);
+      return null;
+    }
+  }
+}
+
+function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+function formatUSD(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+  return `$${value.toFixed(0)}`;
+}
+
+export default PoolEligibilityService;
@@ -0,0 +1,268 @@
+/**
+ * Pool Registry Service
+ * The pools each pair is ranked across, kept in SQLite and seeded from the hard-coded list
+ * Discovery runs add new pools as pending and record what changed; only approved, enabled pools are quoted
+ */
+
+import HardcodedPoolService from './hardcodedPoolService';
+import { database, type PoolRegistryRow, type PoolReviewStatus, type PoolSighting } from './database';
+import type { PoolInfo } from './coinGeckoPoolService';
+import type { TokenPair } from '../types/api';
+import { logger } from './logger';
+
+export interface RegistryPool {
+  pairId: string;
+  pool: PoolInfo;
+  status: PoolReviewStatus;
+  enabled: boolean;
+  source: string;
+  firstSeen: number;
+  lastSeen: number;
+  reviewedAt: number | null;
+}
+
+export interface LiquidityChange {
+  pool: PoolInfo;
+  previousUSD: number;
+  currentUSD: number;
+  changePercent: number;
+}
+
+export interface PoolRegistryDiff {
+  pairId: string;
+  timestamp: number;
+  source: string;
+  added: PoolInfo[]; // New to the registry, waiting for review
+  removed: PoolInfo[]; // In the registry but no longer found by a source that lists every pool of that DEX
+  liquidityChanged: LiquidityChange[];
+}
+
+export interface DiscoveryOptions {
+  source: 'onchain' | 'coingecko';
+  coveredDexes?: string[]; // DEXes the source enumerates exhaustively, a top-N list like CoinGecko's covers none
+}
+
+export interface PoolRegistrySummary {
+  totalPools: number;
+  byStatus: Record<PoolReviewStatus, number>;
+  disabled: number;
+  lastDiscoveryAt: number | null;
+  needsUpdate: boolean;
+}
+
+const LIQUIDITY_CHANGE_THRESHOLD = 0.25; // Relative change that makes a pool show up in a diff
+const DISCOVERY_INTERVAL = 5 * 24 * 60 * 60 * 1000; // Matches the discovery schedule
+
+class PoolRegistryService {
+  private hardcodedService = new HardcodedPoolService();
+  private seeded = false;
+
+  /**
+   * Approved, enabled pools for a pair, the ranking set
+   */
+  getPoolsForPair(tokenPair: TokenPair): PoolInfo[] {
+    const pools = this.getPools(tokenPair.id, 'approved')
+      .filter(entry => entry.enabled)
+      .map(entry => entry.pool);
+
+    logger.info('PoolRegistryService', `Found ${pools.length} approved pools for ${tokenPair.name}`);
+    return pools;
+  }
+
+  /**
+   * Registry entries, optionally for one pair or review status
+   */
+  getPools(pairId?: string, status?: PoolReviewStatus): RegistryPool[] {
+    this.ensureSeeded();
+    return database.getRegistryPools(pairId, status).map(row => this.toRegistryPool(row));
+  }
+
+  /**
+   * Compare a discovery run's pools with the registry, store new pools as pending and record the diff
+   */
+  applyDiscovery(pairId: string, discovered: PoolInfo[], options: DiscoveryOptions): PoolRegistryDiff {
+    this.ensureSeeded();
+    const timestamp = Date.now();
+    const registry = database.getRegistryPools(pairId);
+    const registryByAddress = new Map(registry.map(row => [row.address.toLowerCase(), row]));
+    const discoveredAddresses = new Set(discovered.map(pool => pool.address.toLowerCase()));
+    const coveredDexes = new Set(options.coveredDexes ?? []);
+
+    const added = discovered.filter(pool => !registryByAddress.has(pool.address.toLowerCase()));
+
+    const removed = registry
+      .filter(row => row.status !== 'rejected' && coveredDexes.has(row.dex) && !discoveredAddresses.has(row.address.toLowerCase()))
+      .map(row => this.toPoolInfo(row));
+
+    const sightings: PoolSighting[] = [];
+    const liquidityChanged: LiquidityChange[] = [];
+    discovered.forEach(pool => {
+      const row = registryByAddress.get(pool.address.toLowerCase());
+      if (!row) return;
+
+      const currentUSD = pool.liquidity_usd ?? null;
+      sightings.push({ address: row.address, liquidity_usd: currentUSD });
+
+      if (currentUSD !== null && row.liquidity_usd) {
+        const change = (currentUSD - row.liquidity_usd) / row.liquidity_usd;
+        if (Math.abs(change) >= LIQUIDITY_CHANGE_THRESHOLD) {
+          liquidityChanged.push({ pool, previousUSD: row.liquidity_usd, currentUSD, changePercent: change * 100 });
+        }
+      }
+    });
+
+    const diff: PoolRegistryDiff = { pairId, timestamp, source: options.source, added, removed, liquidityChanged };
+    database.recordPoolDiscovery(
+      {
+        timestamp,
+        pair_id: pairId,
+        source: options.source,
+        added: added.length,
+        removed: removed.length,
+        liquidity_changed: liquidityChanged.length,
+        diff: JSON.stringify(diff)
+      },
+      added.map(pool => this.toRow(pairId, pool, 'pending', options.source, timestamp)),
+      sightings
+    );
+
+    logger.info('PoolRegistryService', `Discovery for ${pairId}: ${added.length} added, ${removed.length} removed, ${liquidityChanged.length} liquidity changes`);
+    return diff;
+  }
+
+  /**
+   * Let a pool into the ranking set
+   */
+  approvePool(pairId: string, address: string): boolean {
+    this.ensureSeeded();
+    return database.setRegistryPoolStatus(pairId, address, 'approved');
+  }
+
+  /**
+   * Keep a pool out of the ranking set, later discovery runs won't report it again
+   */
+  rejectPool(pairId: string, address: string): boolean {
+    this.ensureSeeded();
+    return database.setRegistryPoolStatus(pairId, address, 'rejected');
+  }
+
+  /**
+   * Temporarily take an approved pool out of rankings without losing its review
+   */
+  setPoolEnabled(pairId: string, address: string, enabled: boolean): boolean {
+    this.ensureSeeded();
+    return database.setRegistryPoolEnabled(pairId, address, enabled);
+  }
+
+  /**
+   * Most recent discovery diffs, newest first
+   */
+  getDiffs(pairId?: string, limit: number = 20): PoolRegistryDiff[] {
+    return database.getPoolDiscoveryRuns(pairId, limit).map(run => JSON.parse(run.diff) as PoolRegistryDiff);
+  }
+
+  /**
+   * Liquidity recorded for a pool by each discovery run
+   */
+  getLiquidityHistory(pairId: string, address: string) {
+    return database.getPoolLiquiditySnapshots(pairId, address);
+  }
+
+  /**
+   * True when no discovery has run within the schedule interval
+   */
+  needsUpdate(): boolean {
+    const lastDiscoveryAt = this.getLastDiscoveryAt();
+    return lastDiscoveryAt === null || Date.now() - lastDiscoveryAt > DISCOVERY_INTERVAL;
+  }
+
+  /**
+   * Pool counts by review status and discovery freshness
+   */
+  getSummary(): PoolRegistrySummary {
+    const pools = this.getPools();
+    const byStatus: Record<PoolReviewStatus, number> = { pending: 0, approved: 0, rejected: 0 };
+    pools.forEach(entry => byStatus[entry.status]++);
+
+    return {
+      totalPools: pools.length,
+      byStatus,
+      disabled: pools.filter(entry => !entry.enabled).length,
+      lastDiscoveryAt: this.getLastDiscoveryAt(),
+      needsUpdate: this.needsUpdate()
+    };
+  }
+
+  private getLastDiscoveryAt(): number | null {
+    return database.getPoolDiscoveryRuns(undefined, 1)[0]?.timestamp ?? null;
+  }
+
+  /**
+   * Insert the hard-coded pools as approved once per process, pools already in the registry keep their review
+   */
+  private ensureSeeded() {
+    if (this.seeded) return;
+    this.seeded = true;
+
+    const timestamp = Date.now();
+    const rows = Object.entries(this.hardcodedService.getAllPools()).flatMap(([pairId, pools]) =>
+      pools.map(pool => ({ ...this.toRow(pairId, pool, 'approved', 'seed', timestamp), reviewed_at: timestamp }))
+    );
+
+    const inserted = database.seedPoolRegistry(rows);
+    if (inserted > 0) {
+      logger.info('PoolRegistryService', `Seeded ${inserted} pools from the hard-coded registry`);
+    }
+  }
+
+  private toRow(pairId: string, pool: PoolInfo, status: PoolReviewStatus, source: string, timestamp: number): PoolRegistryRow {
+    return {
+      pair_id: pairId,
+      address: pool.address,
+      name: pool.name,
+      dex: pool.dex,
+      fee_tier: pool.fee_tier ?? null,
+      pool_id: pool.pool_id ?? null,
+      v4_pool_key: pool.v4_pool_key ? JSON.stringify(pool.v4_pool_key) : null,
+      tokens: JSON.stringify(pool.tokens),
+      volume_24h: pool.volume_24h ?? null,
+      liquidity_usd: pool.liquidity_usd ?? null,
+      status,
+      enabled: 1,
+      source,
+      first_seen: timestamp,
+      last_seen: timestamp,
+      reviewed_at: null
+    };
+  }
+
+  private toPoolInfo(row: PoolRegistryRow): PoolInfo {
+    return {
+      address: row.address,
+      name: row.name,
+      dex: row.dex,
+      network: 'ethereum',
+      tokens: JSON.parse(row.tokens),
+      fee_tier: row.fee_tier ?? undefined,
+      volume_24h: row.volume_24h ?? undefined,
+      liquidity_usd: row.liquidity_usd ?? undefined,
+      pool_id: row.pool_id ?? undefined,
+      v4_pool_key: row.v4_pool_key ? JSON.parse(row.v4_pool_key) : undefined
+    };
+  }
+
+  private toRegistryPool(row: PoolRegistryRow): RegistryPool {
+    return {
+      pairId: row.pair_id,
+      pool: this.toPoolInfo(row),
+      status: row.status,
+      enabled: row.enabled === 1,
+      source: row.source,
+      firstSeen: row.first_seen,
+      lastSeen: row.last_seen,
+      reviewedAt: row.reviewed_at
+    };
+  }
+}
+
+export const poolRegistry = new PoolRegistryService();
@@ -6,6 +6,8 @@
 
 import Database from 'better-sqlite3';
 import { logger } from './logger';
+import MigrationRunner from './migrations/migrationRunner';
+import { PRICES_DB_MIGRATIONS } from './migrations/pricesDbMigrations';
 
 export interface StoredTokenPrice {
   symbol: string;
@@ -49,29 +51,10 @@ class PriceStorageService {
   }
 
   /**
-   * Initialize database schema
+   * Bring the schema up to the latest migration
    */
   private initializeDatabase(): void {
-    const createTableSQL = `
-      CREATE TABLE IF NOT EXISTS token_prices (
-        symbol TEXT NOT NULL,
-        address TEXT NOT NULL,
-        price_usd REAL NOT NULL,
-        last_updated INTEGER NOT NULL,
-        source TEXT NOT NULL CHECK(source IN ('live', 'fallback')),
-        created_at INTEGER NOT NULL,
-        PRIMARY KEY (symbol, address)
-      )
-    `;
-
-    const createIndexSQL = `
-      CREATE INDEX IF NOT EXISTS idx_token_prices_updated 
-      ON token_prices (last_updated DESC)
-    `;
-
-    this.db.exec(createTableSQL);
-    this.db.exec(createIndexSQL);
-    
+    new MigrationRunner(this.db, 'prices', PRICES_DB_MIGRATIONS).migrate();
     logger.debug('PriceStorageService', 'Database schema initialized');
   }
 
@@ -0,0 +1,56 @@
+/**
+ * Quote Log
+ * Keeps the most recent quote attempts of every pool type on window for inspection from the browser console
+ */
+
+export interface QuoteLogEntry {
+  poolType: string;
+  method: string;
+  timestamp: string;
+  inputAmount: string;
+  outputAmount: string;
+  exchangeRate: number;
+  executionTime: number;
+  metadata?: Record<string, unknown>;
+}
+
+interface QuoteLogWindow {
+  quoteSystemLogs?: QuoteLogEntry[];
+  getQuoteLogs?: (poolType?: string, count?: number) => QuoteLogEntry[];
+  getQuoteStats?: () => Record<string, Record<string, number>>;
+  clearQuoteLogs?: () => void;
+}
+
+const MAX_QUOTE_LOGS = 500;
+
+/**
+ * Store a quote log entry, a no-op outside the browser
+ */
+export function storeQuoteLog(logEntry: QuoteLogEntry): void {
+  if (typeof window === 'undefined') return;
+  const logWindow = window as unknown as QuoteLogWindow;
+
+  // Keep only the most recent entries for performance
+  logWindow.quoteSystemLogs = [logEntry, ...(logWindow.quoteSystemLogs ?? [])].slice(0, MAX_QUOTE_LOGS);
+
+  // Expose helpers for console access
+  logWindow.getQuoteLogs = (poolType?: string, count: number = 50) => {
+    const logs = logWindow.quoteSystemLogs ?? [];
+    const filtered = poolType ? logs.filter(log => log.poolType === poolType) : logs;
+    return filtered.slice(0, count);
+  };
+
+  logWindow.getQuoteStats = () => {
+    const stats: Record<string, Record<string, number>> = {};
+    (logWindow.quoteSystemLogs ?? []).forEach(log => {
+      if (!stats[log.poolType]) stats[log.poolType] = {};
+      stats[log.poolType][log.method] = (stats[log.poolType][log.method] || 0) + 1;
+    });
+    return stats;
+  };
+
+  logWindow.clearQuoteLogs = () => {
+    logWindow.quoteSystemLogs = [];
+    console.log('Quote logs cleared');
+  };
+}
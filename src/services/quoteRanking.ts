@@ -0,0 +1,205 @@
+/**
+ * Quote Ranking
+ * Ranks quotes, summarizes protocols and re-ranks stored comparison results
+ * Pure functions with type-only service imports, so the browser bundle can re-rank without pulling in the RPC stack
+ */
+
+import type { OnChainQuote, PoolRanking, QuoteSource, RankingOptions, SwapSimulation } from './onChainQuoteService';
+import type { ComparisonOptions, DexComparisonResult, ProtocolSummary } from './dexComparisonService';
+import type { TradeSide } from '../types/api';
+import { getCompetitiveGap } from './competitiveGap';
+
+type RankingMetric = 'gross' | 'net';
+
+/**
+ * Quote source of a quote, quotes without provenance are treated as estimated
+ */
+export function getQuoteSource(quote: OnChainQuote): QuoteSource {
+  return quote.quoteSource ?? 'estimated';
+}
+
+/**
+ * Rank a set of quotes and pick the best one, estimated quotes are left out unless opted in
+ */
+export function rankQuotes(quotes: OnChainQuote[], options: RankingOptions = {}, side: TradeSide = 'sell'): SwapSimulation {
+  const successfulQuotes = quotes.filter(q => q.success);
+  const gasAdjusted = successfulQuotes.length > 0 && successfulQuotes.every(q =>
+    (side === 'buy' ? q.netInputAmount : q.netOutputAmount) !== undefined
+  );
+  const grossRankings = calculateRankings(successfulQuotes, options, 'gross', side);
+  const netRankings = gasAdjusted ? calculateRankings(successfulQuotes, options, 'net', side) : [];
+  const rankings = gasAdjusted ? netRankings : grossRankings;
+  const bestQuote = rankings.length > 0 ? rankings[0].quote : null;
+
+  return {
+    side,
+    quotes,
+    bestQuote,
+    rankings,
+    grossRankings,
+    netRankings,
+    gasAdjusted
+  };
+}
+
+/**
+ * Re-rank an existing comparison result with different ranking options, no RPC calls
+ */
+export function rerank(result: DexComparisonResult, options: ComparisonOptions = {}): DexComparisonResult {
+  const includeEstimated = !!options.includeEstimated;
+  if (result.includeEstimated === includeEstimated) return result;
+
+  const simulation = rankQuotes(result.simulation.quotes, options, result.simulation.side);
+  const protocolSummary = generateProtocolSummary(simulation);
+
+  return {
+    ...result,
+    simulation,
+    bestProtocol: getBestProtocol(protocolSummary),
+    protocolSummary,
+    includeEstimated,
+    competitiveGap: getCompetitiveGap(simulation)
+  };
+}
+
+/**
+ * Best protocol is the one holding rank #1, protocols with only excluded quotes never win
+ */
+export function getBestProtocol(protocolSummary: ProtocolSummary[]): string | null {
+  const best = protocolSummary.find(summary => summary.bestRank !== null);
+  return best ? best.protocol : null;
+}
+
+/**
+ * Generate protocol performance summary
+ */
+export function generateProtocolSummary(simulation: SwapSimulation): ProtocolSummary[] {
+  const protocolMap = new Map<string, {
+    quotes: OnChainQuote[];
+    rankings: PoolRanking[];
+  }>();
+
+  // Group by protocol
+  simulation.quotes.forEach(quote => {
+    const protocol = quote.pool.dex;
+    if (!protocolMap.has(protocol)) {
+      protocolMap.set(protocol, { quotes: [], rankings: [] });
+    }
+    protocolMap.get(protocol)!.quotes.push(quote);
+  });
+
+  simulation.rankings.forEach(ranking => {
+    const protocol = ranking.pool.dex;
+    if (protocolMap.has(protocol)) {
+      protocolMap.get(protocol)!.rankings.push(ranking);
+    }
+  });
+
+  // Generate summary for each protocol
+  const summaries: ProtocolSummary[] = [];
+
+  protocolMap.forEach((data, protocol) => {
+    const successfulQuotes = data.quotes.filter(q => q.success);
+    const ranks = data.rankings.map(r => r.rank);
+    // Rankings are already sorted, so the first one is the protocol's best ranked quote
+    const bestRanking = data.rankings.length > 0 ? data.rankings[0] : null;
+
+    summaries.push({
+      protocol: formatProtocolName(protocol),
+      poolCount: data.quotes.length,
+      bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
+      avgRank: ranks.length > 0 ? ranks.reduce((a, b) => a + b, 0) / ranks.length : null,
+      bestQuote: bestRanking ? bestRanking.quote : null,
+      quoteSource: bestRanking ? bestRanking.quoteSource : null,
+      estimatedQuotes: successfulQuotes.filter(q => getQuoteSource(q) === 'estimated').length
+    });
+  });
+
+  // Sort by best performance (lowest best rank)
+  return summaries.sort((a, b) => {
+    if (a.bestRank === null) return 1;
+    if (b.bestRank === null) return -1;
+    return a.bestRank - b.bestRank;
+  });
+}
+
+/**
+ * Amount a quote is ranked by: output for 'sell', input for 'buy'
+ * Net falls back to gross when gas costs are missing
+ */
+function getRankingAmount(quote: OnChainQuote, metric: RankingMetric, side: TradeSide): number {
+  if (side === 'buy') {
+    return parseFloat(metric === 'net' ? (quote.netInputAmount ?? quote.inputAmount) : quote.inputAmount);
+  }
+  return parseFloat(metric === 'net' ? (quote.netOutputAmount ?? quote.outputAmount) : quote.outputAmount);
+}
+
+/**
+ * Calculate rankings from successful quotes
+ */
+function calculateRankings(
+  quotes: OnChainQuote[],
+  options: RankingOptions = {},
+  metric: RankingMetric = 'gross',
+  side: TradeSide = 'sell'
+): PoolRanking[] {
+  if (quotes.length === 0) return [];
+
+  const amountOf = (quote: OnChainQuote) => getRankingAmount(quote, metric, side);
+
+  // Sort by output amount (higher is better), or by input amount for exact-output quotes (lower is better)
+  const sortedQuotes = quotes
+    .filter(q => q.success && parseFloat(q.outputAmount) > 0 && parseFloat(q.inputAmount) > 0)
+    .filter(q => options.includeEstimated || getQuoteSource(q) !== 'estimated')
+    .filter(q => q.validation?.severity !== 'rejected')
+    .sort((a, b) => side === 'buy' ? amountOf(a) - amountOf(b) : amountOf(b) - amountOf(a));
+
+  if (sortedQuotes.length === 0) return [];
+
+  const worstOutput = amountOf(sortedQuotes[sortedQuotes.length - 1]);
+  const bestOutput = amountOf(sortedQuotes[0]);
+
+  return sortedQuotes.map((quote, index) => {
+    const currentOutput = amountOf(quote);
+
+    // Calculate price advantage with safety checks for extreme values
+    let priceAdvantage = 0;
+    if (worstOutput > 0 && isFinite(worstOutput) && isFinite(currentOutput)) {
+      priceAdvantage = side === 'buy'
+        ? ((worstOutput - currentOutput) / worstOutput) * 100
+        : ((currentOutput - worstOutput) / worstOutput) * 100;
+
+      // Rejected quotes are already left out, so the worst pool is a real one and no cap is needed
+      priceAdvantage = Math.max(0, priceAdvantage);
+
+      // For very small differences, set to 0
+      if (Math.abs(currentOutput - worstOutput) / Math.abs(bestOutput) < 0.0001) {
+        priceAdvantage = 0;
+      }
+    }
+
+    return {
+      rank: index + 1,
+      pool: quote.pool,
+      quote,
+      priceAdvantage,
+      quoteSource: getQuoteSource(quote)
+    };
+  });
+}
+
+/**
+ * Format protocol names for display
+ */
+function formatProtocolName(protocol: string): string {
+  const formatMap: Record<string, string> = {
+    'uniswap_v2': 'Uniswap V2',
+    'uniswap_v3': 'Uniswap V3',
+    'sushiswap': 'SushiSwap',
+    'curve': 'Curve Finance',
+    'balancer': 'Balancer',
+    'pancakeswap': 'PancakeSwap'
+  };
+
+  return formatMap[protocol] || protocol.charAt(0).toUpperCase() + protocol.slice(1);
+}
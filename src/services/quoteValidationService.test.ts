@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import QuoteValidationService from './quoteValidationService';
+import DynamicPricingService from './dynamicPricingService';
+import type { OnChainQuote } from './onChainQuoteService';
+import type { TokenPair } from '../types/api';
+import { mockPool, TEST_TOKENS } from '../test/mockProvider';
+
+const { WETH, USDC } = TEST_TOKENS;
+
+const TOKEN_PAIR: TokenPair = {
+  id: 'weth-usdc',
+  name: 'WETH/USDC',
+  sellToken: WETH,
+  buyToken: USDC,
+  sellAmount: '1000000000000000000'
+};
+
+const USD_PRICES: Record<string, number> = { WETH: 2500, USDC: 1 };
+
+// 1 WETH sold for the given USDC
+function quoteAt(usdcOut: number): OnChainQuote {
+  return {
+    pool: mockPool('uniswap_v3', '0x88e6A0c2dDD26FEEb64F039a2c41296FcB3f5640', WETH, USDC),
+    inputAmount: '1000000000000000000',
+    outputAmount: String(usdcOut * 1e6),
+    pricePerToken: usdcOut,
+    executionPrice: usdcOut,
+    timestamp: 0,
+    success: true,
+    quoteSource: 'onchain_quoter'
+  };
+}
+
+describe('QuoteValidationService', () => {
+  let getTokenPrice: MockInstance<DynamicPricingService['getTokenPriceByAddress']>;
+
+  beforeEach(() => {
+    getTokenPrice = vi.spyOn(DynamicPricingService.prototype, 'getTokenPriceByAddress').mockImplementation(async (symbol, address) => ({
+      symbol, address, price_usd: USD_PRICES[symbol], last_updated: 0, source: 'live'
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rejects a live quote far off the reference mid', async () => {
+    const quote = quoteAt(500);
+
+    await new QuoteValidationService().validate([quote], TOKEN_PAIR, 'sell');
+
+    expect(quote.validation?.severity).toBe('rejected');
+    expect(quote.validation?.check).toBe('reference');
+  });
+
+  it('skips the reference mid on historical runs', async () => {
+    const quote = quoteAt(500);
+
+    await new QuoteValidationService().validate([quote], TOKEN_PAIR, 'sell', {}, true);
+
+    expect(getTokenPrice).not.toHaveBeenCalled();
+    expect(quote.validation).toEqual({ severity: 'ok', deviationsBps: {} });
+  });
+
+  it('compares a 0x quote with its previous run when the route label changes', async () => {
+    const validator = new QuoteValidationService();
+    const route = (label: string, usdcOut: number): OnChainQuote => {
+      const quote = quoteAt(usdcOut);
+      quote.pool = { ...mockPool(label, 'zeroX-aggregator-weth-usdc', WETH, USDC), venue: 'zerox' };
+      return quote;
+    };
+
+    await validator.validate([route('🔀 Uniswap_V3 via Matcha', 2500)], TOKEN_PAIR, 'sell', {}, true);
+    const next = route('🔀 Ekubo+Uniswap_V3 via Matcha', 3000);
+    await validator.validate([next], TOKEN_PAIR, 'sell', {}, true);
+
+    expect(next.validation?.severity).toBe('suspicious');
+    expect(next.validation?.check).toBe('previous_run');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Quote Validation Service
+ * One sanity stage for every quote of a run, in place of per-venue guards
+ * Each quote's price is compared with a reference mid-price, the median of the other venues and the pool's previous run;
+ * suspicious quotes stay ranked with a warning, rejected quotes are shown but left out of the rankings
+ */
+
+import { ethers } from 'ethers';
+import DynamicPricingService from './dynamicPricingService';
+import type { OnChainQuote } from './onChainQuoteService';
+import type { TokenPair, TradeSide } from '../types/api';
+import { logger } from './logger';
+import { median } from '../utils/stats';
+
+export type QuoteSeverity = 'ok' | 'suspicious' | 'rejected';
+
+export type ValidationCheck = 'reference' | 'venue_median' | 'previous_run';
+
+export interface QuoteValidation {
+  severity: QuoteSeverity;
+  reason?: string; // Why the quote is suspicious or rejected, shown next to it in the UI
+  check?: ValidationCheck; // Check that set the severity
+  deviationsBps: Partial<Record<ValidationCheck, number>>; // Positive when the quote prices better than the benchmark
+}
+
+// Deviation in bps beyond which a quote is flagged, 'better' when it beats the benchmark, 'worse' when it falls short
+export interface DeviationLimits {
+  suspiciousBetter: number;
+  rejectedBetter: number;
+  suspiciousWorse: number;
+  rejectedWorse: number;
+}
+
+export type ValidationThresholds = Record<ValidationCheck, DeviationLimits>;
+
+export const DEFAULT_VALIDATION_THRESHOLDS: ValidationThresholds = {
+  // Reference mids are CoinGecko prices, not executable, so only gross errors such as wrong decimals or token order are rejected
+  reference: { suspiciousBetter: 500, rejectedBetter: 20000, suspiciousWorse: 2000, rejectedWorse: 7000 },
+  // Venues are quoted at the same block, a quote far better than its peers is more likely broken than brilliant
+  venue_median: { suspiciousBetter: 200, rejectedBetter: 2500, suspiciousWorse: 1500, rejectedWorse: 9000 },
+  // Prices move between runs, so a jump from the previous run is flagged but never rejected on its own
+  previous_run: { suspiciousBetter: 1000, rejectedBetter: Infinity, suspiciousWorse: 1000, rejectedWorse: Infinity }
+};
+
+// A median of fewer venues says more about those venues than about the quote
+const MIN_VENUES_FOR_MEDIAN = 2;
+
+const SEVERITY_ORDER: QuoteSeverity[] = ['ok', 'suspicious', 'rejected'];
+
+class QuoteValidationService {
+  private pricingService: DynamicPricingService;
+  private previousPrices = new Map<string, number>();
+
+  constructor() {
+    this.pricingService = new DynamicPricingService();
+  }
+
+  /**
+   * Set the validation of every successful quote, then remember the prices that weren't rejected for the next run
+   * Historical runs skip the reference check, the reference mid is today's price rather than the block's
+   */
+  async validate(
+    quotes: OnChainQuote[],
+    tokenPair: TokenPair,
+    side: TradeSide,
+    overrides: Partial<ValidationThresholds> = {},
+    historical: boolean = false
+  ): Promise<void> {
+    const thresholds = { ...DEFAULT_VALIDATION_THRESHOLDS, ...overrides };
+    const priced = quotes
+      .filter(quote => quote.success)
+      .map(quote => ({ quote, price: QuoteValidationService.getPrice(quote, tokenPair) }));
+    if (priced.length === 0) return;
+
+    const referencePrice = historical ? null : await this.getReferencePrice(tokenPair);
+
+    // Estimated quotes are synthetic, they are validated but never serve as a benchmark for others
+    const benchmarks = priced.filter(({ quote, price }) => price > 0 && (quote.quoteSource ?? 'estimated') !== 'estimated');
+
+    priced.forEach(({ quote, price }) => {
+      if (!(price > 0)) {
+        quote.validation = { severity: 'rejected', reason: 'Quote has no usable price', deviationsBps: {} };
+        return;
+      }
+
+      const others = benchmarks.filter(benchmark => benchmark.quote !== quote).map(benchmark => benchmark.price);
+      const previousPrice = this.previousPrices.get(QuoteValidationService.getPoolKey(quote, tokenPair, side));
+      const benchmarksByCheck: Record<ValidationCheck, { price: number; label: string } | null> = {
+        reference: referencePrice ? { price: referencePrice, label: `the ${tokenPair.sellToken.symbol}/${tokenPair.buyToken.symbol} reference price` } : null,
+        venue_median: others.length >= MIN_VENUES_FOR_MEDIAN ? { price: median(others), label: `the median of ${others.length} other venues` } : null,
+        previous_run: previousPrice ? { price: previousPrice, label: 'this pool\'s previous run' } : null
+      };
+
+      quote.validation = QuoteValidationService.evaluate(price, benchmarksByCheck, thresholds);
+    });
+
+    priced.forEach(({ quote, price }) => {
+      if (quote.validation?.severity === 'rejected') {
+        logger.warn('QuoteValidationService', `Rejected ${quote.pool.name} quote for ${tokenPair.name}: ${quote.validation.reason}`);
+        return;
+      }
+      if (quote.validation?.severity === 'suspicious') {
+        logger.warn('QuoteValidationService', `Suspicious ${quote.pool.name} quote for ${tokenPair.name}: ${quote.validation.reason}`);
+      }
+      this.previousPrices.set(QuoteValidationService.getPoolKey(quote, tokenPair, side), price);
+    });
+  }
+
+  /**
+   * Severity from every available benchmark, the most severe check gives the reason
+   */
+  private static evaluate(
+    price: number,
+    benchmarks: Record<ValidationCheck, { price: number; label: string } | null>,
+    thresholds: ValidationThresholds
+  ): QuoteValidation {
+    const validation: QuoteValidation = { severity: 'ok', deviationsBps: {} };
+
+    (Object.keys(benchmarks) as ValidationCheck[]).forEach(check => {
+      const benchmark = benchmarks[check];
+      if (!benchmark) return;
+
+      const deviationBps = (price / benchmark.price - 1) * 10000;
+      validation.deviationsBps[check] = deviationBps;
+
+      const severity = QuoteValidationService.classify(deviationBps, thresholds[check]);
+      if (SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(validation.severity)) {
+        validation.severity = severity;
+        validation.check = check;
+        validation.reason = `Prices ${(Math.abs(deviationBps) / 100).toFixed(2)}% ${deviationBps > 0 ? 'better' : 'worse'} than ${benchmark.label}`;
+      }
+    });
+
+    return validation;
+  }
+
+  private static classify(deviationBps: number, limits: DeviationLimits): QuoteSeverity {
+    if (deviationBps > limits.rejectedBetter || -deviationBps > limits.rejectedWorse) return 'rejected';
+    if (deviationBps > limits.suspiciousBetter || -deviationBps > limits.suspiciousWorse) return 'suspicious';
+    return 'ok';
+  }
+
+  /**
+   * Buy tokens per sell token, higher is better for the trader on both sides
+   */
+  private static getPrice(quote: OnChainQuote, tokenPair: TokenPair): number {
+    const input = parseFloat(ethers.formatUnits(quote.inputAmount, tokenPair.sellToken.decimals));
+    const output = parseFloat(ethers.formatUnits(quote.outputAmount, tokenPair.buyToken.decimals));
+    return input > 0 ? output / input : 0;
+  }
+
+  /**
+   * Mid-price in buy tokens per sell token, null when either token only has a fallback price
+   */
+  private async getReferencePrice(tokenPair: TokenPair): Promise<number | null> {
+    try {
+      const [sell, buy] = await Promise.all([
+        this.pricingService.getTokenPriceByAddress(tokenPair.sellToken.symbol, tokenPair.sellToken.address),
+        this.pricingService.getTokenPriceByAddress(tokenPair.buyToken.symbol, tokenPair.buyToken.address)
+      ]);
+      if (sell.source === 'fallback' || buy.source === 'fallback' || !(sell.price_usd > 0) || !(buy.price_usd > 0)) {
+        logger.warn('QuoteValidationService', `No live reference price for ${tokenPair.name}, skipping the reference check`);
+        return null;
+      }
+      return sell.price_usd / buy.price_usd;
+    } catch (error) {
+      logger.warn('QuoteValidationService', `Could not price ${tokenPair.name}, skipping the reference check`, error);
+      return null;
+    }
+  }
+
+  // Keyed on the venue rather than dex, 0x's dex is a route label that changes between runs
+  private static getPoolKey(quote: OnChainQuote, tokenPair: TokenPair, side: TradeSide): string {
+    return `${tokenPair.id}:${side}:${quote.pool.venue ?? quote.pool.dex}:${quote.pool.address.toLowerCase()}`;
+  }
+}
+
+export default QuoteValidationService;
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import type { ZeroXQuoteResponse, TokenPair, ProtocolRanking, PairQuote, ZeroXFill } from '../types/api';
 import { API_CONFIG } from '../config/tokenPairs';
+import { isNativeEth, NATIVE_ETH_PLACEHOLDER } from '../config/tokens';
 
 // 0x API Service
 class ZeroXApiService {
@@ -14,9 +15,12 @@ class ZeroXApiService {
       const response = await this.client.get('/quote', {
         params: {
           chainId: API_CONFIG.chainId,
-          sellToken: tokenPair.sellToken.address,
-          buyToken: tokenPair.buyToken.address,
-          sellAmount: tokenPair.sellAmount,
+          sellToken: this.toZeroXToken(tokenPair.sellToken.address),
+          buyToken: this.toZeroXToken(tokenPair.buyToken.address),
+          // Exact-output quotes fix the buy amount instead of the sell amount
+          ...(tokenPair.side === 'buy'
+            ? { buyAmount: tokenPair.buyAmount }
+            : { sellAmount: tokenPair.sellAmount }),
         },
       });
 
@@ -27,6 +31,13 @@ class ZeroXApiService {
     }
   }
 
+  /**
+   * 0x takes native ETH as the 0xEeee placeholder rather than address(0)
+   */
+  private toZeroXToken(address: string): string {
+    return isNativeEth(address) ? NATIVE_ETH_PLACEHOLDER : address;
+  }
+
   /**
    * DEPRECATED: filterSingleHopFills() - Created misleading UX by showing single-hop
    * protocols with multi-hop pricing. Replaced with honest multi-hop protocol extraction.
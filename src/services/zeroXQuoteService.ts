@@ -148,7 +148,8 @@ export class ZeroXQuoteService {
       '0xdac17f958d2ee523a2206206994597c13d831ec7': 'USDT', 
       '0x6b175474e89094c44da98b954eedeac495271d0f': 'DAI',
       '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': 'WETH',
-      '0xa1b99c887c0d5e1ee7b5ba76af1a899f2506da23': 'ETH'
+      '0xa1b99c887c0d5e1ee7b5ba76af1a899f2506da23': 'ETH',
+      '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee': 'ETH' // 0x native ETH placeholder
     };
     
     return knownTokens[lowerAddress] || address.slice(0, 6) + '...';
@@ -247,6 +248,7 @@ export class ZeroXQuoteService {
         address: 'zeroX-aggregator-' + tokenPair.id,
         name: protocolName,
         dex: protocolName, // Use the formatted protocol name as dex
+        venue: 'zerox',
         network: 'ethereum',
         fee_tier: 'variable',
         volume_24h: 50000000, // High volume due to aggregation
@@ -266,7 +268,9 @@ export class ZeroXQuoteService {
         gasEstimate: zeroXResponse.gas || '0',
         executionPrice: 0, // Would need calculation
         timestamp: Date.now(),
-        success: true
+        success: true,
+        quoteSource: 'aggregator_api',
+        blockNumber: zeroXResponse.blockNumber ? Number(zeroXResponse.blockNumber) : undefined
       };
       
       return {
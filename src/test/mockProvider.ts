@@ -0,0 +1,138 @@
+/**
+ * Mock Provider
+ * Answers eth_call from per-contract handlers, decoding calldata and encoding results with each contract's ABI
+ * Multicall3 tryAggregate is served from the same handlers, so adapters can be tested with or without a QuoteContext
+ */
+
+import { Interface, type BlockTag, type InterfaceAbi, type Provider, type Result } from 'ethers';
+import MulticallBatcher, { MULTICALL3_ADDRESS } from '../services/multicallBatcher';
+import type { PoolInfo } from '../services/coinGeckoPoolService';
+import type { QuoteContext } from '../services/onChainQuoteService';
+
+// Returns the function's output, an array of outputs when it has several; throw revertWith(...) to revert
+export type CallHandler = (args: Result, blockTag: BlockTag | undefined) => unknown;
+
+export interface RecordedCall {
+  to: string;
+  method: string; // Function signature, e.g. get_dy(int128,int128,uint256)
+  args: Result;
+  blockTag: BlockTag | undefined;
+}
+
+interface MockContract {
+  iface: Interface;
+  handlers: Record<string, CallHandler>; // By function name, or by signature for overloaded names
+}
+
+const MULTICALL3_ABI = [
+  'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)'
+];
+
+/**
+ * Error a reverted eth_call throws, carrying the revert data like a JSON-RPC provider's CALL_EXCEPTION
+ */
+export function revertWith(data: string = '0x'): Error {
+  return Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+}
+
+export class MockProvider {
+  readonly calls: RecordedCall[] = [];
+  private contracts = new Map<string, MockContract>();
+  private multicall = new Interface(MULTICALL3_ABI);
+
+  /**
+   * Register a contract, calls to functions without a handler revert as if the contract lacked them
+   */
+  mock(address: string, abi: InterfaceAbi, handlers: Record<string, CallHandler>): this {
+    this.contracts.set(address.toLowerCase(), { iface: new Interface(abi), handlers });
+    return this;
+  }
+
+  /**
+   * Calls made to a function, by name or signature
+   */
+  callsTo(method: string): RecordedCall[] {
+    return this.calls.filter(call => call.method === method || call.method.startsWith(`${method}(`));
+  }
+
+  async call(tx: { to?: unknown; data?: string; blockTag?: BlockTag }): Promise<string> {
+    const to = String(tx.to).toLowerCase();
+    if (to === MULTICALL3_ADDRESS.toLowerCase()) {
+      return this.tryAggregate(tx.data ?? '0x', tx.blockTag);
+    }
+    return this.dispatch(to, tx.data ?? '0x', tx.blockTag);
+  }
+
+  asProvider(): Provider {
+    return this as unknown as Provider;
+  }
+
+  /**
+   * Quote context batching through Multicall3 on this provider
+   */
+  createContext(blockNumber: number = 20000000): QuoteContext {
+    return { blockNumber, historical: false, multicall: new MulticallBatcher(this.asProvider(), blockNumber) };
+  }
+
+  private async dispatch(to: string, data: string, blockTag: BlockTag | undefined): Promise<string> {
+    const contract = this.contracts.get(to);
+    const parsed = contract?.iface.parseTransaction({ data });
+    if (!contract || !parsed) throw revertWith();
+
+    const signature = parsed.fragment.format('sighash');
+    this.calls.push({ to, method: signature, args: parsed.args, blockTag });
+
+    const handler = contract.handlers[signature] ?? contract.handlers[parsed.name];
+    if (!handler) throw revertWith();
+
+    const result = await handler(parsed.args, blockTag);
+    const values = parsed.fragment.outputs.length === 1 ? [result] : (result as unknown[]);
+    return contract.iface.encodeFunctionResult(parsed.fragment, values);
+  }
+
+  private async tryAggregate(data: string, blockTag: BlockTag | undefined): Promise<string> {
+    const [, calls] = this.multicall.decodeFunctionData('tryAggregate', data);
+    const results = await Promise.all((calls as Result[]).map(async ([target, callData]) => {
+      try {
+        return [true, await this.dispatch(String(target).toLowerCase(), callData, blockTag)];
+      } catch (error) {
+        const revertData = (error as { data?: unknown }).data;
+        if (typeof revertData !== 'string') throw error;
+        return [false, revertData];
+      }
+    }));
+    return this.multicall.encodeFunctionResult('tryAggregate', [results]);
+  }
+}
+
+/**
+ * Pool with the given tokens, decimals default to 18
+ */
+export function mockPool(
+  dex: string,
+  address: string,
+  base: { address: string; symbol: string; decimals?: number },
+  quote: { address: string; symbol: string; decimals?: number }
+): PoolInfo {
+  return {
+    address,
+    name: `${base.symbol}/${quote.symbol}`,
+    dex,
+    network: 'eth',
+    tokens: {
+      base: { decimals: 18, ...base },
+      quote: { decimals: 18, ...quote }
+    }
+  };
+}
+
+// Mainnet tokens used across the tests
+export const TEST_TOKENS = {
+  WETH: { address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', symbol: 'WETH', decimals: 18 },
+  ETH: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18 },
+  USDC: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', symbol: 'USDC', decimals: 6 },
+  USDT: { address: '0xdAC17F958D2ee523a2206206994597C13D831ec7', symbol: 'USDT', decimals: 6 },
+  DAI: { address: '0x6B175474E89094C44Da98b954EedeAC495271d0F', symbol: 'DAI', decimals: 18 },
+  USDe: { address: '0x4c9EDD5852cd905f086C759E8383e09bff1E68B3', symbol: 'USDe', decimals: 18 },
+  WBTC: { address: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', symbol: 'WBTC', decimals: 8 }
+};
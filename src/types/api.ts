@@ -50,6 +50,10 @@ export interface ZeroXToken {
 }
 
 // App Types
+// 'sell' quotes an exact input amount, 'buy' quotes the input needed for an exact output amount
+export type TradeSide = 'sell' | 'buy';
+
+// Token addresses are ERC-20s, or address(0) for native ETH
 export interface TokenPair {
   id: string;
   name: string;
@@ -64,6 +68,8 @@ export interface TokenPair {
     decimals: number;
   };
   sellAmount: string; // $10K USD equivalent
+  side?: TradeSide; // Defaults to 'sell'
+  buyAmount?: string; // Exact output amount, required when side is 'buy'
 }
 
 export interface ProtocolRanking {
@@ -86,4 +92,19 @@ export interface HistoricalData {
   timestamp: number;
   pairId: string;
   rankings: ProtocolRanking[];
-}
\ No newline at end of file
+}
+
+// Envelope every server API route responds with
+export interface ApiSuccess<T> {
+  success: true;
+  data: T;
+  timestamp: number;
+}
+
+export interface ApiFailure {
+  success: false;
+  error: string;
+  code: string; // Machine-readable, e.g. PAIR_NOT_FOUND, INVALID_QUERY
+}
+
+export type ApiEnvelope<T> = ApiSuccess<T> | ApiFailure;
@@ -0,0 +1,13 @@
+/**
+ * Stats
+ * Small numeric helpers shared by the quote checks and the run analytics
+ */
+
+/**
+ * Median of a non-empty list, the mean of the two middle values for an even count
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -13,5 +14,8 @@ export default defineConfig({
       'quotes.mynodes.duckdns.org',
       '151.145.40.40'
     ]
+  },
+  test: {
+    include: ['src/**/*.test.ts'] // Playwright specs under tests/ run with playwright test
   }
 })